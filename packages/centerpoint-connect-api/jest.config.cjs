@@ -3,12 +3,18 @@ module.exports = {
   testEnvironment: 'node',
   roots: ['<rootDir>/src', '<rootDir>/tests'],
   testMatch: ['**/__tests__/**/*.ts', '**/?(*.)+(spec|test).ts'],
+  setupFiles: ['<rootDir>/tests/setup.ts'],
   transform: {
     '^.+\\.ts$': 'ts-jest',
   },
+  moduleNameMapper: {
+    // Source files use Node16-style relative imports with a .js extension
+    '^(\\.{1,2}/.*)\\.js$': '$1',
+  },
   collectCoverageFrom: [
     'src/**/*.ts',
-    '!src/index.ts', // Skip the main generated file
+    '!src/index.ts', // Skip the server entrypoint
+    '!src/tools.ts', // Skip the generated tool definitions
   ],
   coverageDirectory: 'coverage',
   coverageReporters: ['text', 'lcov', 'html'],
@@ -6,8 +6,21 @@
 import { config } from '../src/config.js';
 import { logger, healthMonitor } from '../src/logging.js';
 import { validateTokenSecurity, maskToken } from '../src/security.js';
+import { formatLintIssues, lintToolSchemas } from '../src/schemalint.js';
+import { diffSpec, formatSpecChanges } from '../src/specdiff.js';
+import { startMockApi } from '../src/mockserver.js';
+import { toolsList } from '../src/tools.js';
+import {
+  generateTools,
+  renderOperationsTable,
+  renderToolsModule,
+  replaceOperationsTable,
+  type GeneratorOverrides,
+  type OpenApiDocument,
+} from '../src/generator.js';
 import { readFileSync, writeFileSync } from 'fs';
 import { join } from 'path';
+import { fileURLToPath } from 'url';
 
 interface DevCommand {
   name: string;
@@ -41,6 +54,26 @@ const commands: DevCommand[] = [
     description: 'Generate usage examples',
     handler: generateExamples,
   },
+  {
+    name: 'generate-tools',
+    description: 'Regenerate src/tools.ts and the operation table from openapi/ (--check to verify only)',
+    handler: generateToolFiles,
+  },
+  {
+    name: 'spec-diff',
+    description: 'Compare a newer OpenAPI document with the checked-in one (exits 1 on breaking changes)',
+    handler: specDiff,
+  },
+  {
+    name: 'mock-server',
+    description: 'Serve an in-memory mock of the CenterPoint API (--port 4010, --token TOKEN)',
+    handler: mockServer,
+  },
+  {
+    name: 'schema-lint',
+    description: 'Check tool input schemas for type mismatches',
+    handler: schemaLint,
+  },
   {
     name: 'lint-check',
     description: 'Run comprehensive linting checks',
@@ -226,6 +259,82 @@ export CENTERPOINT_MAX_BATCH_SIZE=20
   console.log(`✅ Usage examples generated: ${examplesPath}`);
 }
 
+async function generateToolFiles(args: string[]): Promise<void> {
+  const check = args.includes('--check');
+  const spec: OpenApiDocument = JSON.parse(readFileSync(join(process.cwd(), 'openapi/centerpoint-connect-api.json'), 'utf8'));
+  const overrides: GeneratorOverrides = JSON.parse(readFileSync(join(process.cwd(), 'openapi/overrides.json'), 'utf8'));
+  const generated = generateTools(spec, overrides);
+
+  const toolsPath = join(process.cwd(), 'src/tools.ts');
+  const operationsPath = join(process.cwd(), 'src/operations.ts');
+  const outputs = [
+    { path: toolsPath, content: renderToolsModule(generated) },
+    { path: operationsPath, content: replaceOperationsTable(readFileSync(operationsPath, 'utf8'), renderOperationsTable(generated)) },
+  ];
+
+  const stale = outputs.filter(output => readFileSync(output.path, 'utf8') !== output.content);
+  if (check) {
+    if (stale.length > 0) {
+      console.error(`❌ Out of date: ${stale.map(output => output.path).join(', ')}. Run: npm run dev-tools generate-tools`);
+      process.exit(1);
+    }
+    console.log(`✅ ${generated.length} tools match openapi/`);
+    return;
+  }
+  stale.forEach(output => writeFileSync(output.path, output.content));
+  console.log(`✅ Generated ${generated.length} tools (${stale.length} file(s) changed)`);
+}
+
+async function specDiff(args: string[]): Promise<void> {
+  const [specPath] = args;
+  if (!specPath) {
+    console.error('❌ No OpenAPI document provided. Usage: npm run dev-tools spec-diff <new-spec.json>');
+    process.exit(1);
+  }
+  const baseline: OpenApiDocument = JSON.parse(readFileSync(join(process.cwd(), 'openapi/centerpoint-connect-api.json'), 'utf8'));
+  const spec: OpenApiDocument = JSON.parse(readFileSync(specPath, 'utf8'));
+  const overrides: GeneratorOverrides = JSON.parse(readFileSync(join(process.cwd(), 'openapi/overrides.json'), 'utf8'));
+  const changes = diffSpec(baseline, spec, overrides);
+
+  console.log(formatSpecChanges(changes));
+  const breaking = changes.filter(change => change.breaking).length;
+  if (breaking > 0) {
+    console.error(`\n❌ ${breaking} breaking change(s)`);
+    process.exit(1);
+  }
+  console.log(`\n✅ No breaking changes`);
+}
+
+async function mockServer(args: string[]): Promise<void> {
+  const option = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+  const port = Number(option('--port') ?? 4010);
+  const { api, baseUrl } = await startMockApi({ port, token: option('--token') });
+
+  console.log(`✅ Mock CenterPoint API listening on ${baseUrl}`);
+  console.log(`Run the server against it with CENTERPOINT_BASE_URL=${baseUrl}`);
+  console.log(`Inject failures with POST ${baseUrl}/__mock/failures, e.g. {"status": 429, "tool": "companiesGET"}`);
+
+  const stop = () => {
+    void api.close().then(() => process.exit(0));
+  };
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+}
+
+async function schemaLint(): Promise<void> {
+  const issues = lintToolSchemas(toolsList);
+
+  if (issues.length > 0) {
+    console.error(`❌ ${issues.length} schema issue(s):`);
+    console.error(formatLintIssues(issues));
+    process.exit(1);
+  }
+  console.log(`✅ ${toolsList.length} tool schemas are consistent`);
+}
+
 async function lintCheck(): Promise<void> {
   console.log('🔍 Running comprehensive checks...');
   
@@ -236,6 +345,7 @@ async function lintCheck(): Promise<void> {
       const token = config.getAuth().token;
       return !token || validateTokenSecurity(token).isValid;
     }},
+    { name: 'Tool Schemas', fn: () => lintToolSchemas(toolsList).length === 0 },
     { name: 'Health Status', fn: () => healthMonitor.getHealthStatus().status !== 'unhealthy' },
   ];
 
@@ -287,6 +397,6 @@ async function main() {
   }
 }
 
-if (require.main === module) {
+if (process.argv[1] && fileURLToPath(import.meta.url) === process.argv[1]) {
   main().catch(console.error);
 }
\ No newline at end of file
@@ -0,0 +1,80 @@
+/**
+ * MCP tool annotations for the CenterPoint Connect API tools
+ *
+ * Derives a human-friendly title and the behaviour hints MCP clients use to
+ * decide what to auto-approve (reads) and what to confirm (deletes) from each
+ * tool's HTTP method and path.
+ */
+
+import { type Tool, type ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+
+import { type HttpMethod, type OperationDefinition } from './operations.js';
+
+const METHOD_HINTS: Record<HttpMethod, Omit<ToolAnnotations, 'title'>> = {
+  GET: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+  POST: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+  PATCH: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+  DELETE: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+};
+
+const VERBS: Record<Exclude<HttpMethod, 'GET'>, string> = {
+  POST: 'Create',
+  PATCH: 'Update',
+  DELETE: 'Delete',
+};
+
+/**
+ * Builds a title such as "List companies", "Get company", "Delete employee"
+ * or "List purchase orders for a production"
+ */
+export function getToolTitle(operation: OperationDefinition): string {
+  if (operation.title) {
+    return operation.title;
+  }
+
+  const segments = operation.pathTemplate.split('/').filter(Boolean);
+  const last = segments[segments.length - 1];
+  const targetsOne = last.startsWith('{');
+  const resources = segments.filter(segment => !segment.startsWith('{'));
+  const resource = resources[resources.length - 1];
+  const parent = resources.length > 1 ? resources[resources.length - 2] : undefined;
+
+  let title: string;
+  if (operation.method === 'GET') {
+    title = targetsOne ? `Get ${singular(resource)}` : `List ${words(resource)}`;
+  } else {
+    title = `${VERBS[operation.method]} ${singular(resource)}`;
+  }
+  return parent ? `${title} for a ${singular(parent)}` : title;
+}
+
+/**
+ * Derives the MCP annotations for an API tool. Every API tool talks to the
+ * CenterPoint service, so all of them are open-world.
+ */
+export function getToolAnnotations(operation: OperationDefinition): ToolAnnotations {
+  return {
+    title: getToolTitle(operation),
+    ...METHOD_HINTS[operation.method],
+    openWorldHint: true,
+  };
+}
+
+/**
+ * Adds the title and annotations to a generated tool definition
+ */
+export function addToolAnnotations(tool: Tool, operation: OperationDefinition): Tool {
+  const annotations = getToolAnnotations(operation);
+  return { ...tool, title: annotations.title, annotations };
+}
+
+function words(segment: string): string {
+  return segment.replace(/_/g, ' ');
+}
+
+function singular(segment: string): string {
+  const text = words(segment);
+  if (text.endsWith('ies')) return `${text.slice(0, -3)}y`;
+  if (text.endsWith('s') && !text.endsWith('ss')) return text.slice(0, -1);
+  return text;
+}
@@ -0,0 +1,39 @@
+/**
+ * Built-in tools served by the MCP server itself
+ *
+ * Unlike the generated tools in ./tools.ts these do not call the CenterPoint
+ * API; they report on the state of this server process.
+ */
+
+import { type Tool, type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+import { healthMonitor } from './logging.js';
+
+export interface BuiltinTool {
+  definition: Tool;
+  handler: (args: Record<string, unknown>) => Promise<CallToolResult> | CallToolResult;
+}
+
+export const builtinTools: Record<string, BuiltinTool> = {
+  server_health: {
+    definition: {
+      name: 'server_health',
+      title: 'Server health',
+      description: 'Reports the health of this MCP server: uptime, request success rate, average latency, authentication outcomes, cache hit rate and the last API error.',
+      inputSchema: { type: 'object', properties: {} },
+      annotations: { title: 'Server health', readOnlyHint: true, openWorldHint: false },
+    },
+    handler: () => ({
+      content: [{ type: 'text', text: JSON.stringify(healthMonitor.getHealthStatus(), null, 2) }],
+    }),
+  },
+};
+
+/**
+ * Looks up a built-in tool
+ * @param toolName The MCP tool name
+ * @returns The built-in tool, or undefined if the name is not a built-in
+ */
+export function getBuiltinTool(toolName: string): BuiltinTool | undefined {
+  return Object.prototype.hasOwnProperty.call(builtinTools, toolName) ? builtinTools[toolName] : undefined;
+}
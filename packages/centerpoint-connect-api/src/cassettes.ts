@@ -0,0 +1,223 @@
+/**
+ * Record and replay of CenterPoint API traffic
+ *
+ * With CENTERPOINT_RECORD_DIR set, every API exchange is written to a
+ * cassette file in that directory, with the bearer token masked. With
+ * CENTERPOINT_REPLAY_DIR set, API calls are answered from those files and
+ * never reach the network, so a customer's bad answer can be reproduced
+ * locally and turned into a deterministic test.
+ *
+ * A cassette holds the exchanges for one method, path, query and body, in
+ * the order they happened. Replay serves them in that order and repeats the
+ * last one, so a GET recorded before and after a PATCH replays both states.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { AxiosError, AxiosHeaders, type AxiosRequestConfig, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+
+import { config as appConfig } from './config.js';
+import { logger } from './logging.js';
+import { maskToken } from './security.js';
+
+export interface RecordedRequest {
+  method: string;
+  /** Path and sorted query string, without the API origin */
+  url: string;
+  /** Request headers, with `Authorization` masked */
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export interface RecordedExchange {
+  recordedAt: string;
+  request: RecordedRequest;
+  /** Absent when the request failed without a response, e.g. on a timeout */
+  response?: {
+    status: number;
+    statusText?: string;
+    headers: Record<string, string>;
+    body: unknown;
+  };
+  /** Network error, when there was no response */
+  error?: { code?: string; message: string };
+}
+
+export interface Cassette {
+  request: Pick<RecordedRequest, 'method' | 'url' | 'body'>;
+  exchanges: RecordedExchange[];
+}
+
+type Transport = (config: AxiosRequestConfig) => Promise<AxiosResponse>;
+
+/**
+ * Sends API requests through the recorder or the replayer, depending on
+ * CENTERPOINT_RECORD_DIR and CENTERPOINT_REPLAY_DIR
+ */
+export class CassetteRecorder {
+  /** Next exchange to replay, per cassette file */
+  private positions = new Map<string, number>();
+
+  /**
+   * Performs a request with the given transport, recording it, or answers it
+   * from a cassette
+   * @throws Whatever the transport throws; in replay mode, the recorded error
+   * or an error when nothing was recorded for the request
+   */
+  async send(config: AxiosRequestConfig, transport: Transport): Promise<AxiosResponse> {
+    const { recordDir, replayDir } = appConfig.getCassettes();
+    if (replayDir) {
+      return this.replay(replayDir, toInternalConfig(config));
+    }
+    if (!recordDir) {
+      return transport(config);
+    }
+
+    try {
+      const response = await transport(config);
+      this.record(recordDir, config, toRecordedResponse(response));
+      return response;
+    } catch (error: any) {
+      if (error?.response) {
+        this.record(recordDir, config, toRecordedResponse(error.response));
+      } else if (!config.signal || !(config.signal as AbortSignal).aborted) {
+        this.record(recordDir, config, undefined, { code: error?.code, message: String(error?.message ?? error) });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Restarts replay from the first exchange of every cassette
+   */
+  reset(): void {
+    this.positions.clear();
+  }
+
+  private record(dir: string, config: AxiosRequestConfig, response?: RecordedExchange['response'], error?: RecordedExchange['error']): void {
+    const request = describeRequest(config);
+    const path = join(dir, cassetteFileName(request));
+    try {
+      mkdirSync(dir, { recursive: true });
+      const cassette: Cassette = existsSync(path)
+        ? JSON.parse(readFileSync(path, 'utf8'))
+        : { request: { method: request.method, url: request.url, body: request.body }, exchanges: [] };
+      cassette.exchanges.push({
+        recordedAt: new Date().toISOString(),
+        request,
+        ...(response ? { response } : {}),
+        ...(error ? { error } : {}),
+      });
+      writeFileSync(path, `${JSON.stringify(cassette, null, 2)}\n`);
+    } catch (failure) {
+      // Recording is a diagnostic aid and must never fail the call itself
+      logger.warn(`Could not record API exchange to ${path}`, { error: failure as Error });
+    }
+  }
+
+  private replay(dir: string, config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+    const request = describeRequest(config);
+    const path = join(dir, cassetteFileName(request));
+    if (!existsSync(path)) {
+      return Promise.reject(new Error(`No recorded response for ${request.method} ${request.url} in ${dir}`));
+    }
+    const cassette: Cassette = JSON.parse(readFileSync(path, 'utf8'));
+    const position = this.positions.get(path) ?? 0;
+    this.positions.set(path, position + 1);
+    const exchange = cassette.exchanges[Math.min(position, cassette.exchanges.length - 1)];
+    if (!exchange) {
+      return Promise.reject(new Error(`Cassette ${path} has no exchanges`));
+    }
+
+    if (!exchange.response) {
+      return Promise.reject(new AxiosError(exchange.error?.message ?? 'Network Error', exchange.error?.code, config));
+    }
+    const response: AxiosResponse = {
+      status: exchange.response.status,
+      statusText: exchange.response.statusText ?? '',
+      headers: exchange.response.headers,
+      data: exchange.response.body,
+      config,
+    };
+    const validateStatus = config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+    if (validateStatus(response.status)) {
+      return Promise.resolve(response);
+    }
+    // Fail the way axios does, so retries and error formatting behave as they did when recording
+    const code = response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST;
+    return Promise.reject(new AxiosError(`Request failed with status code ${response.status}`, code, config, undefined, response));
+  }
+}
+
+export const cassettes = new CassetteRecorder();
+
+/**
+ * Gives a request config the normalised headers axios hands to its adapters,
+ * which replayed responses and errors carry
+ */
+function toInternalConfig(config: AxiosRequestConfig): InternalAxiosRequestConfig {
+  const headers = new AxiosHeaders();
+  for (const [name, value] of Object.entries(config.headers ?? {})) {
+    headers.set(name, value);
+  }
+  return { ...config, headers };
+}
+
+/**
+ * Describes a request for a cassette: the path with its query parameters
+ * sorted, so the same call matches however the URL was built, and headers
+ * with the token masked
+ */
+export function describeRequest(config: AxiosRequestConfig): RecordedRequest {
+  const url = new URL(config.url ?? '/', 'http://localhost');
+  for (const [name, value] of Object.entries(config.params ?? {})) {
+    if (value !== undefined && value !== null) {
+      url.searchParams.set(name, String(value));
+    }
+  }
+  url.searchParams.sort();
+  const query = url.searchParams.toString();
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries((config.headers ?? {}) as Record<string, unknown>)) {
+    if (value === undefined || value === null) continue;
+    headers[name] = name.toLowerCase() === 'authorization' ? `Bearer ${maskToken(String(value))}` : String(value);
+  }
+
+  return {
+    method: String(config.method ?? 'GET').toUpperCase(),
+    url: `${url.pathname}${query ? `?${decodeURIComponent(query)}` : ''}`,
+    headers,
+    ...(config.data !== undefined ? { body: config.data } : {}),
+  };
+}
+
+/**
+ * Names the cassette for a request, e.g. `GET-companies-1-3f2a9c1b.json`;
+ * the hash covers the method, path, query and body
+ */
+export function cassetteFileName(request: Pick<RecordedRequest, 'method' | 'url' | 'body'>): string {
+  const [path] = request.url.split('?');
+  const slug = path.replace(/^\/+/, '').replace(/[^A-Za-z0-9]+/g, '-').replace(/-+$/, '').slice(0, 80) || 'root';
+  const hash = createHash('sha256')
+    .update(JSON.stringify([request.method, request.url, request.body ?? null]))
+    .digest('hex')
+    .slice(0, 8);
+  return `${request.method}-${slug}-${hash}.json`;
+}
+
+function toRecordedResponse(response: AxiosResponse): NonNullable<RecordedExchange['response']> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries((response.headers ?? {}) as Record<string, unknown>)) {
+    if (value !== undefined && value !== null) {
+      headers[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  }
+  return {
+    status: response.status,
+    ...(response.statusText ? { statusText: response.statusText } : {}),
+    headers,
+    body: response.data,
+  };
+}
@@ -0,0 +1,236 @@
+/**
+ * Argument completion (completion/complete)
+ *
+ * Enum-like arguments complete from the values documented in the tool
+ * schemas ("Values: Sold, Lead, Candidate, or Client"). ID arguments such as
+ * COMPANY_ID complete by searching the matching list endpoint, as do the ID
+ * arguments of prompts. Completions are inserted into the argument as they
+ * are and MCP has no place for a label next to them, so they hold the bare ID
+ * or value; labels such as "In Progress" and record names only take part in
+ * matching. Besides the standard prompt
+ * and resource template references, clients may reference a tool with
+ * `{ type: 'ref/tool', name }`.
+ */
+
+import {
+  CompleteRequestSchema,
+  PromptReferenceSchema,
+  ResourceTemplateReferenceSchema,
+  type CompleteResult,
+  type Prompt,
+  type Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import { type ExecutionOptions, fetchOperation } from './executor.js';
+import { logger } from './logging.js';
+import { type OperationDefinition, getOperation, operations } from './operations.js';
+import { isListDocument } from './pagination.js';
+import { RESOURCE_SCHEME, resourceKinds } from './resources.js';
+
+/** The most values a completion may return, per the MCP specification */
+export const MAX_COMPLETIONS = 100;
+
+/** Records fetched when searching for IDs */
+export const ID_SEARCH_PAGE_SIZE = 20;
+
+/**
+ * The list tool searched to complete each ID argument. Path parameters and
+ * the ID filters of list tools are both covered, as are `causer` (an
+ * employee) and `subject` (a production) in note bodies and the ID arguments
+ * of prompts.
+ */
+export const ID_SOURCES: Record<string, string> = {
+  COMPANY_ID: 'companiesGET',
+  EMPLOYEE_ID: 'employeesGET',
+  OPPORTUNITY_ID: 'opportunitiesGET',
+  PRODUCTION_ID: 'productionsGET',
+  PROPERTY_ID: 'propertiesGET',
+  SERVICE_ID: 'servicesGET',
+  SERVICE_AGREEMENT_ID: 'service_agreementsGET',
+  'filter[companyId]': 'companiesGET',
+  'filter[contractorCompanyId]': 'companiesGET',
+  'filter[manager]': 'employeesGET',
+  'filter[managerId]': 'employeesGET',
+  'filter[company.managerId]': 'employeesGET',
+  'filter[worker]': 'employeesGET',
+  'filter[productionId]': 'productionsGET',
+  causer: 'employeesGET',
+  subject: 'productionsGET',
+  companyId: 'companiesGET',
+  employeeId: 'employeesGET',
+  productionId: 'productionsGET',
+};
+
+const ToolReferenceSchema = z
+  .object({
+    type: z.literal('ref/tool'),
+    name: z.string(),
+  })
+  .passthrough();
+
+/** completion/complete, extended with tool references */
+export const CompleteRequestWithToolsSchema = CompleteRequestSchema.extend({
+  params: CompleteRequestSchema.shape.params.extend({
+    ref: z.union([PromptReferenceSchema, ResourceTemplateReferenceSchema, ToolReferenceSchema]),
+  }),
+});
+
+export type CompleteParams = z.infer<typeof CompleteRequestWithToolsSchema>['params'];
+
+export type Completion = CompleteResult['completion'];
+
+export interface CompletionContext extends ExecutionOptions {
+  /** Looks up a tool the client may see; undefined for hidden or unknown tools */
+  findTool: (toolName: string) => Tool | undefined;
+  /** Looks up a prompt the client may see; undefined for hidden or unknown prompts */
+  findPrompt?: (promptName: string) => Prompt | undefined;
+}
+
+/** A value documented in a parameter description, e.g. `Estimate=7` */
+export interface DocumentedValue {
+  value: string;
+  label?: string;
+}
+
+const EMPTY: Completion = { values: [], total: 0, hasMore: false };
+
+/**
+ * Answers a completion request
+ */
+export async function complete(params: CompleteParams, context: CompletionContext): Promise<Completion> {
+  const { ref, argument } = params;
+  if (ref.type === 'ref/tool') {
+    const tool = context.findTool(String(ref.name));
+    return tool ? completeToolArgument(tool, argument.name, argument.value, context) : EMPTY;
+  }
+  if (ref.type === 'ref/resource') {
+    const kind = resourceKinds.find(candidate => `${RESOURCE_SCHEME}://${candidate.type}/{id}` === ref.uri);
+    return kind && argument.name === 'id' && context.findTool(kind.getTool)
+      ? completeId(kind.listTool, argument.value, context)
+      : EMPTY;
+  }
+  const prompt = context.findPrompt?.(ref.name);
+  const idSource = ID_SOURCES[argument.name];
+  return prompt?.arguments?.some(declared => declared.name === argument.name) && idSource
+    ? completeId(idSource, argument.value, context)
+    : EMPTY;
+}
+
+/**
+ * Completes one argument of a tool
+ */
+export async function completeToolArgument(
+  tool: Tool,
+  argumentName: string,
+  value: string,
+  context: CompletionContext
+): Promise<Completion> {
+  const idSource = ID_SOURCES[argumentName];
+  if (idSource) {
+    return completeId(idSource, value, context);
+  }
+  const property = (tool.inputSchema.properties as Record<string, any> | undefined)?.[argumentName];
+  // The description is preferred because it carries labels such as "Estimate=7"
+  const documented: DocumentedValue[] = parseDocumentedValues(property?.description) ??
+    (Array.isArray(property?.enum) ? property.enum.map((option: unknown) => ({ value: String(option) })) : []);
+  return toCompletion(documented.filter(option => matches(option, value)).map(option => option.value));
+}
+
+/**
+ * Completes an ID by searching a list endpoint. Digits are also looked up
+ * directly as an ID through the matching single-record GET, so a known ID
+ * completes even when the search does not match it.
+ * @param listTool The list tool to search; ignored when the tool policy hides it
+ * @param value What the user typed so far, sent as `filter[search]`
+ */
+export async function completeId(listTool: string, value: string, context: CompletionContext): Promise<Completion> {
+  const operation = getOperation(listTool);
+  if (!operation || !context.findTool(listTool)) {
+    return EMPTY;
+  }
+
+  const term = value.trim();
+  const args: Record<string, unknown> = { 'page[size]': ID_SEARCH_PAGE_SIZE };
+  if (term && operation.queryParams.includes('filter[search]')) {
+    args['filter[search]'] = term;
+  }
+  const recordTool = /^\d+$/.test(term) ? findRecordTool(operation) : undefined;
+
+  const [exact, search] = await Promise.all([
+    recordTool && context.findTool(recordTool.toolName)
+      ? fetchIds(recordTool.toolName, recordTool.operation, { [recordTool.operation.pathParams[0]]: term }, context)
+      : [],
+    fetchIds(listTool, operation, args, context),
+  ]);
+  return toCompletion([...new Set([...exact, ...search])]);
+}
+
+/**
+ * Extracts the values listed in a parameter description such as
+ * "Values: Sold, Lead, Candidate, or Client" or "Values: Estimate=7, Pending=11"
+ * @returns undefined when the description lists no values
+ */
+export function parseDocumentedValues(description: unknown): DocumentedValue[] | undefined {
+  const match = typeof description === 'string' ? /^\s*Values?:\s*(.+)$/s.exec(description) : null;
+  // Prose such as "if productionDomain is 'service' then true Otherwise null" is not a list
+  if (!match || /\bif\b/i.test(match[1])) {
+    return undefined;
+  }
+  return match[1]
+    .split(/,|\s+or\s+/)
+    .map(option => option.trim().replace(/^or\s+/, ''))
+    .filter(option => option.length > 0)
+    .map(option => {
+      const labelled = /^(.+?)\s*=\s*(\S+)$/.exec(option);
+      return labelled ? { value: labelled[2], label: labelled[1].replace(/\s+/g, ' ') } : { value: option };
+    });
+}
+
+/**
+ * Matches what was typed against the start of the value or of any word of its label
+ */
+function matches(option: DocumentedValue, value: string): boolean {
+  const term = value.trim().toLowerCase();
+  return option.value.toLowerCase().startsWith(term) ||
+    (option.label?.toLowerCase().split(/\s+/).some(word => word.startsWith(term)) ?? false);
+}
+
+/**
+ * Fetches a record or a list and returns the IDs it holds
+ */
+async function fetchIds(toolName: string, operation: OperationDefinition, args: Record<string, unknown>, context: CompletionContext): Promise<string[]> {
+  try {
+    const { data } = await fetchOperation(toolName, operation, args, { signal: context.signal });
+    if (isListDocument(data)) {
+      return data.data.map(record => String(record.id));
+    }
+    return data?.data?.id !== undefined ? [String(data.data.id)] : [];
+  } catch (error: any) {
+    // Completion is best effort; the failed call is already logged and counted
+    logger.debug('Could not complete ID argument', { toolName, error });
+    return [];
+  }
+}
+
+/**
+ * Finds the single-record GET next to a list operation, e.g.
+ * `companies/{COMPANY_ID}GET` for `companiesGET`
+ */
+function findRecordTool(listOperation: OperationDefinition): { toolName: string; operation: OperationDefinition } | undefined {
+  for (const [toolName, operation] of Object.entries(operations)) {
+    if (operation.method === 'GET' && operation.pathParams.length === 1 &&
+        operation.pathTemplate === `${listOperation.pathTemplate}/{${operation.pathParams[0]}}`) {
+      return { toolName, operation };
+    }
+  }
+  return undefined;
+}
+
+function toCompletion(values: string[]): Completion {
+  return {
+    values: values.slice(0, MAX_COMPLETIONS),
+    total: values.length,
+    hasMore: values.length > MAX_COMPLETIONS,
+  };
+}
@@ -4,6 +4,9 @@
 
 import { z } from 'zod';
 
+/** The production API; `CENTERPOINT_BASE_URL` points the server elsewhere, e.g. at the mock API */
+export const API_BASE_URL = 'https://api.centerpointconnect.io/centerpoint';
+
 // Configuration schemas with validation
 const AuthConfigSchema = z.object({
   token: z.string().optional(),
@@ -24,6 +27,7 @@ const PerformanceConfigSchema = z.object({
   requestTimeoutMs: z.number().min(1000).default(30000),
   retryAttempts: z.number().min(0).default(3),
   retryDelayMs: z.number().min(100).default(1000),
+  retryMaxDelayMs: z.number().min(100).default(30000),
 });
 
 const LoggingConfigSchema = z.object({
@@ -37,16 +41,44 @@ const LoggingConfigSchema = z.object({
 const ServerConfigSchema = z.object({
   name: z.string().default('centerpoint-connect-api'),
   version: z.string().default('1.1.0'),
-  baseUrl: z.string().url().default('https://api.centerpointconnect.io/centerpoint'),
+  baseUrl: z.string().url().default(API_BASE_URL),
   userAgent: z.string().optional(),
   customHeaders: z.record(z.string()).default({}),
 });
 
+const TransportConfigSchema = z.object({
+  mode: z.enum(['stdio', 'http']).default('stdio'),
+  httpHost: z.string().default('127.0.0.1'),
+  httpPort: z.number().min(0).max(65535).default(3000),
+  httpPath: z.string().startsWith('/').default('/mcp'),
+  sessionIdleTimeoutMs: z.number().min(0).default(30 * 60 * 1000),
+  authToken: z.string().min(1).optional(),
+  allowedHosts: z.array(z.string()).default([]),
+  allowedOrigins: z.array(z.string()).default([]),
+});
+
+const ToolsConfigSchema = z.object({
+  readOnly: z.boolean().default(false),
+  allow: z.array(z.string()).default([]),
+  deny: z.array(z.string()).default([]),
+  confirm: z.enum(['auto', 'off', 'deletes', 'mutations']).default('auto'),
+});
+
+const CassetteConfigSchema = z.object({
+  recordDir: z.string().min(1).optional(),
+  replayDir: z.string().min(1).optional(),
+}).refine(cassettes => !(cassettes.recordDir && cassettes.replayDir), {
+  message: 'Set CENTERPOINT_RECORD_DIR or CENTERPOINT_REPLAY_DIR, not both',
+});
+
 const ConfigSchema = z.object({
   auth: AuthConfigSchema,
   performance: PerformanceConfigSchema,
   logging: LoggingConfigSchema,
   server: ServerConfigSchema,
+  transport: TransportConfigSchema,
+  tools: ToolsConfigSchema,
+  cassettes: CassetteConfigSchema,
   environment: z.enum(['development', 'staging', 'production']).default('production'),
 });
 
@@ -92,6 +124,9 @@ export class ConfigManager {
       performance: {},
       logging: {},
       server: {},
+      transport: {},
+      tools: {},
+      cassettes: {},
     };
     
     // Auth configuration
@@ -112,6 +147,7 @@ export class ConfigManager {
     if (env.CENTERPOINT_REQUEST_TIMEOUT_MS !== undefined) envConfig.performance.requestTimeoutMs = this.parseNumber(env.CENTERPOINT_REQUEST_TIMEOUT_MS);
     if (env.CENTERPOINT_RETRY_ATTEMPTS !== undefined) envConfig.performance.retryAttempts = this.parseNumber(env.CENTERPOINT_RETRY_ATTEMPTS);
     if (env.CENTERPOINT_RETRY_DELAY_MS !== undefined) envConfig.performance.retryDelayMs = this.parseNumber(env.CENTERPOINT_RETRY_DELAY_MS);
+    if (env.CENTERPOINT_RETRY_MAX_DELAY_MS !== undefined) envConfig.performance.retryMaxDelayMs = this.parseNumber(env.CENTERPOINT_RETRY_MAX_DELAY_MS);
     
     // Logging configuration
     if (env.CENTERPOINT_LOG_LEVEL) envConfig.logging.level = env.CENTERPOINT_LOG_LEVEL;
@@ -126,6 +162,26 @@ export class ConfigManager {
     if (env.CENTERPOINT_BASE_URL) envConfig.server.baseUrl = env.CENTERPOINT_BASE_URL;
     if (env.CENTERPOINT_USER_AGENT) envConfig.server.userAgent = env.CENTERPOINT_USER_AGENT;
     
+    // Transport configuration
+    if (env.CENTERPOINT_TRANSPORT) envConfig.transport.mode = env.CENTERPOINT_TRANSPORT;
+    if (env.CENTERPOINT_HTTP_HOST) envConfig.transport.httpHost = env.CENTERPOINT_HTTP_HOST;
+    if (env.CENTERPOINT_HTTP_PORT !== undefined) envConfig.transport.httpPort = this.parseNumber(env.CENTERPOINT_HTTP_PORT);
+    if (env.CENTERPOINT_HTTP_PATH) envConfig.transport.httpPath = env.CENTERPOINT_HTTP_PATH;
+    if (env.CENTERPOINT_SESSION_IDLE_TIMEOUT_MS !== undefined) envConfig.transport.sessionIdleTimeoutMs = this.parseNumber(env.CENTERPOINT_SESSION_IDLE_TIMEOUT_MS);
+    if (env.CENTERPOINT_HTTP_AUTH_TOKEN) envConfig.transport.authToken = env.CENTERPOINT_HTTP_AUTH_TOKEN;
+    if (env.CENTERPOINT_HTTP_ALLOWED_HOSTS !== undefined) envConfig.transport.allowedHosts = this.parseList(env.CENTERPOINT_HTTP_ALLOWED_HOSTS);
+    if (env.CENTERPOINT_HTTP_ALLOWED_ORIGINS !== undefined) envConfig.transport.allowedOrigins = this.parseList(env.CENTERPOINT_HTTP_ALLOWED_ORIGINS);
+    
+    // Tool policy
+    if (env.CENTERPOINT_READ_ONLY !== undefined) envConfig.tools.readOnly = this.parseBoolean(env.CENTERPOINT_READ_ONLY);
+    if (env.CENTERPOINT_TOOLS_ALLOW !== undefined) envConfig.tools.allow = this.parseList(env.CENTERPOINT_TOOLS_ALLOW);
+    if (env.CENTERPOINT_TOOLS_DENY !== undefined) envConfig.tools.deny = this.parseList(env.CENTERPOINT_TOOLS_DENY);
+    if (env.CENTERPOINT_CONFIRM) envConfig.tools.confirm = env.CENTERPOINT_CONFIRM;
+    
+    // Record and replay
+    if (env.CENTERPOINT_RECORD_DIR) envConfig.cassettes.recordDir = env.CENTERPOINT_RECORD_DIR;
+    if (env.CENTERPOINT_REPLAY_DIR) envConfig.cassettes.replayDir = env.CENTERPOINT_REPLAY_DIR;
+    
     // Environment
     if (env.NODE_ENV) envConfig.environment = env.NODE_ENV;
     
@@ -142,6 +198,11 @@ export class ConfigManager {
     return isNaN(parsed) ? undefined : parsed;
   }
 
+  private parseList(value: string | undefined): string[] | undefined {
+    if (value === undefined) return undefined;
+    return value.split(',').map(item => item.trim()).filter(Boolean);
+  }
+
   private mergeConfigs(base: Partial<Config>, override: Partial<Config>): Partial<Config> {
     return {
       ...base,
@@ -149,10 +210,21 @@ export class ConfigManager {
       performance: { ...base.performance, ...override.performance } as any,
       logging: { ...base.logging, ...override.logging } as any,
       server: { ...base.server, ...override.server } as any,
+      transport: { ...base.transport, ...override.transport } as any,
+      tools: { ...base.tools, ...override.tools } as any,
+      cassettes: { ...base.cassettes, ...override.cassettes } as any,
       environment: override.environment || base.environment,
     };
   }
 
+  /**
+   * Re-reads configuration from the environment, e.g. after createServer has
+   * applied Smithery-provided settings to process.env
+   */
+  reload(): void {
+    this.config = this.loadConfig();
+  }
+
   get(): Config {
     return { ...this.config };
   }
@@ -173,6 +245,18 @@ export class ConfigManager {
     return this.config.server;
   }
 
+  getTransport() {
+    return this.config.transport;
+  }
+
+  getTools() {
+    return this.config.tools;
+  }
+
+  getCassettes() {
+    return this.config.cassettes;
+  }
+
   isDevelopment(): boolean {
     return this.config.environment === 'development';
   }
@@ -205,7 +289,8 @@ export class ConfigManager {
       '- `CENTERPOINT_MAX_BATCH_SIZE`: Maximum batch size',
       '- `CENTERPOINT_REQUEST_TIMEOUT_MS`: Request timeout in milliseconds',
       '- `CENTERPOINT_RETRY_ATTEMPTS`: Number of retry attempts',
-      '- `CENTERPOINT_RETRY_DELAY_MS`: Retry delay in milliseconds',
+      '- `CENTERPOINT_RETRY_DELAY_MS`: Base retry delay in milliseconds (doubled on each attempt, plus jitter)',
+      '- `CENTERPOINT_RETRY_MAX_DELAY_MS`: Maximum delay between retries, including `Retry-After` waits',
       '',
       '## Logging',
       '- `CENTERPOINT_LOG_LEVEL`: Log level (error/warn/info/debug)',
@@ -220,6 +305,26 @@ export class ConfigManager {
       '- `CENTERPOINT_BASE_URL`: API base URL',
       '- `CENTERPOINT_USER_AGENT`: Custom user agent string',
       '',
+      '## Transport',
+      '- `CENTERPOINT_TRANSPORT`: Transport mode (stdio/http)',
+      '- `CENTERPOINT_HTTP_HOST`: Listen host for HTTP mode',
+      '- `CENTERPOINT_HTTP_PORT`: Listen port for HTTP mode',
+      '- `CENTERPOINT_HTTP_PATH`: Path serving the MCP Streamable HTTP endpoint',
+      '- `CENTERPOINT_SESSION_IDLE_TIMEOUT_MS`: Close HTTP sessions idle for this long (0 disables)',
+      '- `CENTERPOINT_HTTP_AUTH_TOKEN`: Bearer token clients must send to the MCP endpoint; required unless listening on a loopback host',
+      '- `CENTERPOINT_HTTP_ALLOWED_HOSTS`: Comma-separated `Host` header values accepted, e.g. `mcp.example.com`; defaults to localhost on a loopback host',
+      '- `CENTERPOINT_HTTP_ALLOWED_ORIGINS`: Comma-separated `Origin` header values accepted; when set, requests without a matching Origin are rejected',
+      '',
+      '## Tool Policy',
+      '- `CENTERPOINT_READ_ONLY`: Hide and block every POST/PATCH/DELETE tool (true/false)',
+      '- `CENTERPOINT_TOOLS_ALLOW`: Comma-separated tool name globs; when set, only matching tools are available',
+      '- `CENTERPOINT_TOOLS_DENY`: Comma-separated tool name globs to hide and block',
+      '- `CENTERPOINT_CONFIRM`: Ask the user before mutating calls (auto/off/deletes/mutations); auto confirms deletes when the client supports elicitation',
+      '',
+      '## Record and Replay',
+      '- `CENTERPOINT_RECORD_DIR`: Write every API request/response pair, with the token masked, to cassette files in this directory',
+      '- `CENTERPOINT_REPLAY_DIR`: Answer API calls from the cassettes in this directory instead of the network',
+      '',
       '## General',
       '- `NODE_ENV`: Environment (development/staging/production)',
     ];
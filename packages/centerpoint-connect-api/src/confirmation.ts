@@ -0,0 +1,118 @@
+/**
+ * Human confirmation of mutating tool calls
+ *
+ * Before a DELETE (or, if configured, any POST/PATCH/DELETE) is sent, the
+ * executor looks up the target record and asks the user to confirm through
+ * MCP elicitation. The call only proceeds when the user explicitly accepts.
+ */
+
+import { type ElicitRequest, type ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+
+import { type HttpMethod } from './operations.js';
+import { type AttributeDiff, type RequestPreview } from './dryrun.js';
+
+/**
+ * - `auto`: confirm deletes when the client supports elicitation, otherwise proceed
+ * - `off`: never ask
+ * - `deletes`: every DELETE must be confirmed; refused when the client cannot elicit
+ * - `mutations`: every POST, PATCH and DELETE must be confirmed; refused when the client cannot elicit
+ */
+export type ConfirmationMode = 'auto' | 'off' | 'deletes' | 'mutations';
+
+export type ConfirmationDecision = 'proceed' | 'ask' | 'refuse';
+
+/** The record a call would change, as shown to the user */
+export interface ConfirmationTarget {
+  type: string;
+  id: string;
+  name?: string;
+}
+
+export const CONFIRMATION_SCHEMA: ElicitRequest['params']['requestedSchema'] = {
+  type: 'object',
+  properties: {
+    confirm: {
+      type: 'boolean',
+      title: 'Proceed',
+      description: 'Send this request to CenterPoint',
+    },
+  },
+  required: ['confirm'],
+};
+
+/**
+ * Decides whether a call needs the user's confirmation
+ * @param method The HTTP method of the tool's operation
+ * @param mode The configured confirmation mode
+ * @param canElicit Whether the connected client supports elicitation
+ */
+export function getConfirmationDecision(method: HttpMethod, mode: ConfirmationMode, canElicit: boolean): ConfirmationDecision {
+  if (method === 'GET' || mode === 'off') {
+    return 'proceed';
+  }
+  const required = mode === 'mutations' || method === 'DELETE';
+  if (!required) {
+    return 'proceed';
+  }
+  if (canElicit) {
+    return 'ask';
+  }
+  return mode === 'auto' ? 'proceed' : 'refuse';
+}
+
+/**
+ * Picks the type, id and name out of a single-resource JSON:API document
+ */
+export function describeTarget(document: unknown): ConfirmationTarget | undefined {
+  const resource = (document as any)?.data;
+  if (typeof resource !== 'object' || resource === null || Array.isArray(resource) || resource.id === undefined) {
+    return undefined;
+  }
+  const attributes = resource.attributes ?? {};
+  const name = attributes.name ?? attributes.title;
+  return {
+    type: String(resource.type),
+    id: String(resource.id),
+    ...(name !== undefined && name !== null ? { name: String(name) } : {}),
+  };
+}
+
+/**
+ * Builds the summary the user is asked to confirm
+ * @param action The tool title, e.g. "Delete company"
+ * @param request The resolved request
+ * @param target The record being changed, or why it could not be fetched
+ * @param diff For updates, the attributes that would change
+ */
+export function confirmationMessage(
+  action: string,
+  request: RequestPreview,
+  target?: ConfirmationTarget | string,
+  diff?: AttributeDiff
+): string {
+  const lines = [`${action}?`, ''];
+  if (typeof target === 'string') {
+    lines.push(`Record: ${target}`);
+  } else if (target) {
+    lines.push(`Record: ${target.type} ${target.id}${target.name ? ` (${target.name})` : ''}`);
+  }
+  if (diff) {
+    lines.push(diff.changes.length > 0 ? 'Changes:' : 'Changes: none');
+    for (const change of diff.changes) {
+      lines.push(`- ${change.attribute}: ${JSON.stringify(change.current)} -> ${JSON.stringify(change.proposed)}`);
+    }
+  }
+  lines.push(`Request: ${request.method} ${request.url}`);
+  if (request.method === 'DELETE') {
+    lines.push('', 'This cannot be undone.');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Only an explicit acceptance with `confirm: true` counts; declining,
+ * cancelling or accepting with `confirm: false` all stop the call
+ */
+export function isConfirmed(result: ElicitResult): boolean {
+  return result.action === 'accept' && result.content?.confirm === true;
+}
@@ -0,0 +1,114 @@
+/**
+ * Dry-run previews for mutating tools
+ *
+ * POST, PATCH and DELETE tools accept `dryRun: true`. Instead of calling
+ * CenterPoint, the executor returns the fully resolved request with secrets
+ * masked and, for PATCH tools, a diff of the attributes that would change.
+ */
+
+import { type Tool } from '@modelcontextprotocol/sdk/types.js';
+import { type AxiosRequestConfig } from 'axios';
+
+import { maskToken } from './security.js';
+
+export const DRY_RUN_PROPERTY = {
+  dryRun: {
+    type: 'boolean',
+    description: 'Preview the request without sending it: returns the method, URL, query string, masked headers and body (and, for updates, the attributes that would change).',
+  },
+};
+
+const SENSITIVE_HEADERS = ['authorization', 'cookie', 'x-api-key'];
+
+export interface RequestPreview {
+  method: string;
+  url: string;
+  query: Record<string, unknown>;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export interface AttributeChange {
+  attribute: string;
+  current: unknown;
+  proposed: unknown;
+}
+
+export interface AttributeDiff {
+  changes: AttributeChange[];
+  unchanged: string[];
+}
+
+/**
+ * Adds the dryRun argument to a mutating tool's input schema
+ */
+export function addDryRunArgument(tool: Tool): Tool {
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: { ...tool.inputSchema.properties, ...DRY_RUN_PROPERTY },
+    },
+  };
+}
+
+/**
+ * Describes a built request: the full URL including its query string, the
+ * query parameters, the headers with credentials masked, and the body
+ */
+export function previewRequest(config: AxiosRequestConfig): RequestPreview {
+  const url = new URL(config.url!);
+  const query: Record<string, unknown> = { ...config.params };
+  for (const [key, value] of Object.entries(query)) {
+    url.searchParams.append(key, String(value));
+  }
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries((config.headers ?? {}) as Record<string, unknown>)) {
+    headers[name] = SENSITIVE_HEADERS.includes(name.toLowerCase()) ? maskToken(String(value)) : String(value);
+  }
+
+  const preview: RequestPreview = { method: String(config.method).toUpperCase(), url: url.toString(), query, headers };
+  if (config.data !== undefined) {
+    preview.body = config.data;
+  }
+  return preview;
+}
+
+/**
+ * Compares the attributes of a JSON:API PATCH body with the current resource
+ * @param current The GET response for the resource
+ * @param body The PATCH request body
+ * @returns The attributes that would change and those sent with their current value
+ */
+export function diffAttributes(current: unknown, body: unknown): AttributeDiff {
+  const currentAttributes = attributesOf(current);
+  const proposedAttributes = attributesOf(body);
+  const diff: AttributeDiff = { changes: [], unchanged: [] };
+
+  for (const [attribute, proposed] of Object.entries(proposedAttributes)) {
+    const existing = currentAttributes[attribute];
+    if (isEqual(existing, proposed)) {
+      diff.unchanged.push(attribute);
+    } else {
+      diff.changes.push({ attribute, current: existing ?? null, proposed });
+    }
+  }
+  return diff;
+}
+
+function attributesOf(document: unknown): Record<string, unknown> {
+  const attributes = (document as any)?.data?.attributes;
+  return typeof attributes === 'object' && attributes !== null ? attributes : {};
+}
+
+/**
+ * Structural equality that ignores object key order
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  const sortKeys = (_key: string, value: unknown) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([x], [y]) => x.localeCompare(y)))
+      : value;
+  return JSON.stringify(a, sortKeys) === JSON.stringify(b, sortKeys);
+}
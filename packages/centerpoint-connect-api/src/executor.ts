@@ -0,0 +1,675 @@
+/**
+ * Generic tool executor for the CenterPoint Connect API
+ *
+ * Validates tool arguments, resolves the request described by an
+ * OperationDefinition, performs the HTTP call and formats the result.
+ */
+
+import { type Tool, type CallToolResult, type ElicitRequest, type ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { ZodError } from 'zod';
+import { randomUUID } from 'crypto';
+import axios, { type AxiosRequestConfig, type AxiosResponse, type AxiosError } from 'axios';
+
+import { createAuthenticatedHeaders } from './auth.js';
+import { config as appConfig } from './config.js';
+import { healthMonitor, logger, type LogContext } from './logging.js';
+import { responseCache, requestMetrics, RetryPolicy } from './performance.js';
+import { toolMetrics } from './metrics.js';
+import { type OperationDefinition, getResourceTypes, isListOperation, isRetryable } from './operations.js';
+import {
+  type PaginationOptions,
+  PageAccumulator,
+  findNextPage,
+  getPaginationOptions,
+  isListDocument,
+} from './pagination.js';
+import {
+  type ResponseFormat,
+  flattenDocument,
+  getResponseFormat,
+  isJsonApiDocument,
+  renderTable,
+} from './jsonapi.js';
+import { type AttributeDiff, diffAttributes, previewRequest } from './dryrun.js';
+import { getToolTitle } from './annotations.js';
+import { toolValidators } from './validation.js';
+import { cassettes } from './cassettes.js';
+import {
+  type ConfirmationTarget,
+  CONFIRMATION_SCHEMA,
+  confirmationMessage,
+  describeTarget,
+  getConfirmationDecision,
+  isConfirmed,
+} from './confirmation.js';
+
+type JsonObject = Record<string, any>;
+
+interface RequestOutcome {
+  status: number;
+  data: any;
+  contentType?: string;
+  /** Served from the response cache, including after a 304 revalidation */
+  cached: boolean;
+}
+
+export interface ExecutionOptions {
+  /** Aborts the in-flight API call, e.g. when the MCP client cancels the tool call */
+  signal?: AbortSignal;
+  /** Asks the user for input; only set when the client supports elicitation */
+  elicit?: (params: ElicitRequest['params']) => Promise<ElicitResult>;
+}
+
+/**
+ * The API base URL requests are sent to, without a trailing slash
+ */
+export function getApiBaseUrl(): string {
+  return appConfig.getServer().baseUrl.replace(/\/+$/, '');
+}
+
+/**
+ * Substitutes path parameters into an operation's path template
+ * @throws If a placeholder is left unresolved
+ */
+export function resolvePath(operation: OperationDefinition, args: JsonObject): string {
+  let urlPath = operation.pathTemplate;
+  for (const param of operation.pathParams) {
+    const value = args[param];
+    if (typeof value !== 'undefined' && value !== null) {
+      urlPath = urlPath.replace(`{${param}}`, encodeURIComponent(String(value)));
+    }
+  }
+  if (urlPath.includes('{')) {
+    throw new Error(`Validation passed but failed to resolve path parameters in URL: ${urlPath}. Check schema/validation logic.`);
+  }
+  return urlPath;
+}
+
+/**
+ * Copies the operation's query parameters out of the validated arguments,
+ * skipping those that were not provided
+ */
+export function buildQueryParams(operation: OperationDefinition, args: JsonObject): Record<string, any> {
+  const queryParams: Record<string, any> = {};
+  for (const param of operation.queryParams) {
+    const value = args[param];
+    if (typeof value !== 'undefined' && value !== null) {
+      queryParams[param] = value;
+    }
+  }
+  return queryParams;
+}
+
+/**
+ * Builds the axios request for an operation from validated arguments
+ * @param authHeaders Headers produced by createAuthenticatedHeaders
+ * @throws If path parameters cannot be resolved
+ */
+export function buildRequestConfig(
+  operation: OperationDefinition,
+  args: JsonObject,
+  authHeaders: Record<string, string>
+): AxiosRequestConfig {
+  const urlPath = resolvePath(operation, args);
+  const headers: Record<string, string> = { 'Accept': 'application/json' };
+
+  let requestBodyData: any = undefined;
+  if (operation.bodyContentType && typeof args['requestBody'] !== 'undefined') {
+    headers['content-type'] = operation.bodyContentType;
+    requestBodyData = args['requestBody'];
+  }
+
+  Object.assign(headers, authHeaders);
+
+  return {
+    method: operation.method,
+    url: `${getApiBaseUrl()}${urlPath}`,
+    params: buildQueryParams(operation, args),
+    headers,
+    data: requestBodyData,
+  };
+}
+
+/**
+ * Validates raw tool arguments against the tool's input schema
+ * @returns The validated arguments, or an error result to hand back to the client
+ */
+function validateArguments(
+  tool: Tool,
+  toolArgs: unknown,
+  logContext: LogContext
+): { args: JsonObject } | { error: CallToolResult } {
+  const toolName = tool.name;
+  try {
+    const zodSchema = toolValidators.get(tool);
+    const argsToParse = (typeof toolArgs === 'object' && toolArgs !== null) ? toolArgs : {};
+    const args = zodSchema.parse(argsToParse);
+    logger.debug('Arguments validated', logContext);
+    return { args };
+  } catch (error: any) {
+    if (error instanceof ZodError) {
+      const validationErrorMessage = `Invalid arguments for tool '${toolName}': ${error.errors.map(e => `${e.path.join('.')} (${e.code}): ${e.message}`).join(', ')}`;
+      logger.warn(validationErrorMessage, logContext);
+      return { error: { content: [{ type: 'text', text: validationErrorMessage }] } };
+    }
+    logger.error('Unexpected error during argument validation setup', { ...logContext, error });
+    return { error: { content: [{ type: 'text', text: `Internal server error during argument validation setup for tool '${toolName}': ${error.message}` }] } };
+  }
+}
+
+/**
+ * Renders a successful API response as tool output text
+ */
+export function formatApiResponse(response: Pick<AxiosResponse, 'status' | 'data'> & { contentType?: string }): CallToolResult {
+  let responseText = '';
+  const contentType = response.contentType?.toLowerCase() || '';
+  if (contentType.includes('application/json') && typeof response.data === 'object' && response.data !== null) {
+    try { responseText = JSON.stringify(response.data, null, 2); }
+    catch (e) { responseText = '[Error: Failed to stringify JSON response]'; }
+  } else if (typeof response.data === 'string') {
+    responseText = response.data;
+  } else if (response.data !== undefined && response.data !== null) {
+    responseText = String(response.data);
+  } else {
+    responseText = `(Status: ${response.status} - No body content)`;
+  }
+  return { content: [{ type: 'text', text: `API Response (Status: ${response.status}):\n${responseText}` }] };
+}
+
+/**
+ * Renders an API response in the format the caller asked for. Payloads that
+ * are not JSON:API documents are always returned raw.
+ */
+function formatToolResponse(outcome: RequestOutcome, format: ResponseFormat, args: JsonObject): CallToolResult {
+  if (format === 'raw' || !isJsonApiDocument(outcome.data)) {
+    return formatApiResponse(outcome);
+  }
+  const text = format === 'flat'
+    ? JSON.stringify(flattenDocument(outcome.data), null, 2)
+    : renderTable(outcome.data, sparseFields(args));
+  return { content: [{ type: 'text', text: `API Response (Status: ${outcome.status}):\n${text}` }] };
+}
+
+/**
+ * Collects the `fields[type]` arguments of a call, keyed by resource type
+ */
+function sparseFields(args: JsonObject): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const [key, value] of Object.entries(args)) {
+    const match = /^fields\[(.+)\]$/.exec(key);
+    if (match && typeof value === 'string') {
+      fields[match[1]] = value;
+    }
+  }
+  return fields;
+}
+
+/**
+ * Performs the HTTP call for an operation, serving GET requests from the
+ * response cache and invalidating cached entries of the same resource types
+ * after any mutation. Expired entries with an ETag or Last-Modified validator
+ * are revalidated with a conditional request; a 304 counts as a cache hit.
+ */
+async function performRequest(
+  operation: OperationDefinition,
+  config: AxiosRequestConfig,
+  logContext: LogContext,
+  signal?: AbortSignal
+): Promise<RequestOutcome> {
+  const performance = appConfig.getPerformance();
+  const resourceTypes = getResourceTypes(operation);
+  const cacheable = operation.method === 'GET' && performance.cacheEnabled;
+  const retryPolicy = new RetryPolicy(performance.retryAttempts, performance.retryDelayMs, performance.retryMaxDelayMs);
+  const toolName = logContext.toolName!;
+
+  // Every attempt goes through the cassette recorder, which only acts when record or replay is configured
+  const attempt = (requestConfig: AxiosRequestConfig): Promise<AxiosResponse> => cassettes.send(requestConfig, axios);
+
+  // Only GET operations (or ones that opted in) are retried
+  const send = (requestConfig: AxiosRequestConfig): Promise<AxiosResponse> => {
+    if (!isRetryable(operation)) {
+      return attempt(requestConfig);
+    }
+    return retryPolicy.execute(() => attempt(requestConfig), (retry, delayMs, error: any) => {
+      const reason = error.response ? `status ${error.response.status}` : error.code || error.message;
+      toolMetrics.recordRetry(toolName, operation.method, error.response?.status);
+      logger.warn(`Retrying ${requestConfig.method} ${requestConfig.url} in ${delayMs}ms after ${reason}`, {
+        ...logContext,
+        retry,
+        retryAttempts: performance.retryAttempts,
+      });
+    }, signal);
+  };
+
+  let revalidating = false;
+  if (cacheable) {
+    const cached = responseCache.get(config);
+    if (cached) {
+      healthMonitor.recordCacheHit(true);
+      toolMetrics.recordCacheLookup(toolName, operation.method, true);
+      return { status: cached.status ?? 200, data: cached.data, contentType: cached.contentType, cached: true };
+    }
+    if (responseCache.shouldRefresh(config)) {
+      revalidating = true;
+      responseCache.addConditionalHeaders(config);
+      config.validateStatus = status => (status >= 200 && status < 300) || status === 304;
+    }
+  }
+
+  let response: AxiosResponse;
+  try {
+    response = await send(config);
+  } finally {
+    // Invalidate even when the call fails: the mutation may have been applied anyway
+    if (operation.method !== 'GET') {
+      responseCache.invalidateTags(resourceTypes);
+    }
+  }
+
+  if (revalidating && response.status === 304) {
+    const entry = responseCache.revalidate(config, response);
+    if (entry) {
+      healthMonitor.recordCacheHit(true);
+      toolMetrics.recordCacheLookup(toolName, operation.method, true);
+      return { status: entry.status ?? 200, data: entry.data, contentType: entry.contentType, cached: true };
+    }
+    // The entry was evicted while revalidating; fetch the full representation
+    const { 'If-None-Match': _etag, 'If-Modified-Since': _lastModified, ...headers } = config.headers as Record<string, string>;
+    response = await send({ ...config, headers, validateStatus: undefined });
+  }
+
+  if (cacheable) {
+    healthMonitor.recordCacheHit(false);
+    toolMetrics.recordCacheLookup(toolName, operation.method, false);
+    responseCache.set(config, response, performance.cacheTtlMs, resourceTypes);
+  }
+  return { status: response.status, data: response.data, contentType: response.headers['content-type'], cached: false };
+}
+
+/**
+ * Fetches consecutive pages of a list operation, following `links.next` or
+ * incrementing `page[number]`, and merges them into a single document whose
+ * `meta` reports the pages fetched and whether the result was truncated.
+ * Next links pointing away from the API host are not followed.
+ */
+async function fetchAllPages(
+  operation: OperationDefinition,
+  config: AxiosRequestConfig,
+  pagination: PaginationOptions,
+  logContext: LogContext,
+  signal?: AbortSignal
+): Promise<RequestOutcome> {
+  // performRequest adds conditional headers in place, so every page gets its own copy
+  const pageConfig = (overrides: AxiosRequestConfig): AxiosRequestConfig =>
+    ({ ...config, headers: { ...(config.headers as Record<string, string>) }, ...overrides });
+
+  const pages = new PageAccumulator(pagination);
+  const apiBaseUrl = getApiBaseUrl();
+  const apiOrigin = new URL(apiBaseUrl).origin;
+  let pageNumber = Number(config.params?.['page[number]'] ?? 1);
+  let pageSize: number | undefined = config.params?.['page[size]'];
+  let request = pageConfig({});
+  let allCached = true;
+  let outcome: RequestOutcome;
+
+  for (;;) {
+    outcome = await performRequest(operation, request, logContext, signal);
+    if (!isListDocument(outcome.data)) {
+      return outcome;
+    }
+    allCached &&= outcome.cached;
+    pages.add(outcome.data);
+    pageSize ??= outcome.data.data.length;
+
+    const next = findNextPage(outcome.data, pageNumber, pageSize);
+    if (!next) break;
+    if (pages.isFull()) {
+      pages.markTruncated();
+      break;
+    }
+
+    pageNumber++;
+    if ('url' in next) {
+      const url = new URL(next.url, `${apiBaseUrl}/`);
+      if (url.origin !== apiOrigin) {
+        logger.warn(`Not following next page link to ${url.origin}`, logContext);
+        pages.markTruncated();
+        break;
+      }
+      request = pageConfig({ url: url.toString(), params: undefined });
+    } else {
+      request = pageConfig({ params: { ...config.params, 'page[number]': next.pageNumber } });
+    }
+  }
+
+  logger.debug('Fetched all pages', { ...logContext, ...pages.report() });
+  return { status: outcome.status, data: pages.toDocument(), contentType: 'application/json', cached: allCached };
+}
+
+/**
+ * Executes a tool call against the CenterPoint API
+ * @param tool The tool definition from toolsList
+ * @param operation The operation the tool maps to
+ * @param toolArgs Raw arguments supplied by the MCP client
+ * @param options Cancellation signal for the call
+ */
+export async function executeTool(
+  tool: Tool,
+  operation: OperationDefinition,
+  toolArgs: unknown,
+  options: ExecutionOptions = {}
+): Promise<CallToolResult> {
+  const toolName = tool.name;
+  const { signal } = options;
+  const logContext: LogContext = { toolName, requestId: randomUUID() };
+
+  const validation = validateArguments(tool, toolArgs, logContext);
+  if ('error' in validation) {
+    return validation.error;
+  }
+  const validatedArgs = validation.args;
+
+  let authHeaders: Record<string, string>;
+  try {
+    authHeaders = createAuthenticatedHeaders(validatedArgs['Authorization']);
+  } catch (error: any) {
+    logger.logAuth('failure', { ...logContext, error });
+    healthMonitor.recordAuth('failure');
+    return { content: [{ type: 'text', text: error.message }] };
+  }
+
+  let config: AxiosRequestConfig;
+  let pagination: PaginationOptions | undefined;
+  let responseFormat: ResponseFormat = 'raw';
+  try {
+    config = buildRequestConfig(operation, validatedArgs, authHeaders);
+    pagination = isListOperation(operation) ? getPaginationOptions(validatedArgs) : undefined;
+    if (operation.method === 'GET') {
+      responseFormat = getResponseFormat(validatedArgs);
+    }
+  } catch (error: any) {
+    logger.warn('Could not build API request', { ...logContext, error });
+    return { content: [{ type: 'text', text: error.message }] };
+  }
+  config.timeout = appConfig.getPerformance().requestTimeoutMs;
+  config.signal = signal;
+
+  if (operation.method !== 'GET' && validatedArgs.dryRun === true) {
+    return dryRun(operation, config, logContext, signal);
+  }
+
+  const confirmation = getConfirmationDecision(operation.method, appConfig.getTools().confirm, options.elicit !== undefined);
+  if (confirmation === 'refuse') {
+    logger.warn('Refused unconfirmed call: the client does not support elicitation', logContext);
+    return {
+      content: [{ type: 'text', text: `Tool '${toolName}' requires confirmation, but this client does not support elicitation. The request was not sent.` }],
+    };
+  }
+  if (confirmation === 'ask') {
+    const unconfirmed = await confirmCall(tool, operation, config, logContext, options.elicit!, signal);
+    if (unconfirmed) {
+      return unconfirmed;
+    }
+  }
+
+  const method = operation.method;
+  const url = config.url!;
+  logger.debug(`Executing tool "${toolName}": ${method} ${url}`, logContext);
+  const startTime = Date.now();
+
+  try {
+    signal?.throwIfAborted();
+    const outcome = pagination
+      ? await fetchAllPages(operation, config, pagination, logContext, signal)
+      : await performRequest(operation, config, logContext, signal);
+    const duration = Date.now() - startTime;
+    logger.logRequest(toolName, method, url, duration, outcome.status, undefined, {
+      requestId: logContext.requestId,
+      cached: outcome.cached,
+    });
+    recordOutcome(toolName, method, true, duration, outcome.cached, outcome.status);
+    return formatToolResponse(outcome, responseFormat, validatedArgs);
+  } catch (error: any) {
+    const duration = Date.now() - startTime;
+    if (signal?.aborted) {
+      logger.info('Tool call cancelled by the client', { ...logContext, duration });
+      return cancelledResult(toolName, signal);
+    }
+    let errorMessage: string;
+    if (axios.isAxiosError(error)) { errorMessage = formatApiError(error); }
+    else if (error instanceof Error) { errorMessage = error.message; }
+    else { errorMessage = 'An unexpected error occurred: ' + String(error); }
+    const failure = error instanceof Error ? error : new Error(errorMessage);
+    logger.logRequest(toolName, method, url, duration, error?.response?.status, failure, {
+      requestId: logContext.requestId,
+    });
+    recordOutcome(toolName, method, false, duration, false, error?.response?.status);
+    healthMonitor.recordError(failure);
+    return { content: [{ type: 'text', text: errorMessage }] };
+  }
+}
+
+/**
+ * Performs a GET operation for a caller other than a tool, such as an MCP
+ * resource read. Uses the same authentication, cache, retries, logging and
+ * metrics as a tool call, but returns the response body and throws on failure.
+ * @param toolName The tool the operation belongs to, used in logs and metrics
+ * @param operation The operation to perform
+ * @param args Path and query parameters
+ * @param options Cancellation signal for the call
+ */
+export async function fetchOperation(
+  toolName: string,
+  operation: OperationDefinition,
+  args: JsonObject,
+  options: ExecutionOptions = {}
+): Promise<{ status: number; data: any }> {
+  const { signal } = options;
+  const logContext: LogContext = { toolName, requestId: randomUUID() };
+  const config = buildRequestConfig(operation, args, createAuthenticatedHeaders(undefined));
+  config.timeout = appConfig.getPerformance().requestTimeoutMs;
+  config.signal = signal;
+
+  const startTime = Date.now();
+  try {
+    const outcome = await performRequest(operation, config, logContext, signal);
+    const duration = Date.now() - startTime;
+    logger.logRequest(toolName, operation.method, config.url!, duration, outcome.status, undefined, {
+      requestId: logContext.requestId,
+      cached: outcome.cached,
+    });
+    recordOutcome(toolName, operation.method, true, duration, outcome.cached, outcome.status);
+    return { status: outcome.status, data: outcome.data };
+  } catch (error: any) {
+    if (!signal?.aborted) {
+      const failure = new Error(describeFailure(error));
+      logger.logRequest(toolName, operation.method, config.url!, Date.now() - startTime, error?.response?.status, failure, {
+        requestId: logContext.requestId,
+      });
+      recordOutcome(toolName, operation.method, false, Date.now() - startTime, false, error?.response?.status);
+      healthMonitor.recordError(failure);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Answers a dry run of a mutating tool with the request it would send. For
+ * PATCH operations the current resource is fetched so the preview can show
+ * which attributes would change; nothing is ever written.
+ */
+async function dryRun(
+  operation: OperationDefinition,
+  config: AxiosRequestConfig,
+  logContext: LogContext,
+  signal?: AbortSignal
+): Promise<CallToolResult> {
+  const toolName = logContext.toolName!;
+  const request = previewRequest(config);
+  logger.debug(`Dry run of tool "${toolName}": ${request.method} ${request.url}`, logContext);
+  const result: Record<string, unknown> = { request };
+
+  if (operation.method === 'PATCH') {
+    try {
+      const current = await fetchCurrentResource(operation, config, logContext, signal);
+      result.diff = diffAttributes(current.data, config.data);
+    } catch (error) {
+      if (signal?.aborted) {
+        return cancelledResult(toolName, signal);
+      }
+      result.diff = `unavailable: ${describeFailure(error)}`;
+    }
+  }
+
+  return {
+    content: [{ type: 'text', text: `Dry run: no request was sent to CenterPoint.\n${JSON.stringify(result, null, 2)}` }],
+  };
+}
+
+/**
+ * Asks the user to confirm a mutating call, showing the record it targets
+ * and, for updates, the attributes that would change
+ * @returns A result explaining why the request was not sent, or undefined when confirmed
+ */
+async function confirmCall(
+  tool: Tool,
+  operation: OperationDefinition,
+  config: AxiosRequestConfig,
+  logContext: LogContext,
+  elicit: NonNullable<ExecutionOptions['elicit']>,
+  signal?: AbortSignal
+): Promise<CallToolResult | undefined> {
+  const toolName = logContext.toolName!;
+  const action = tool.title ?? getToolTitle(operation);
+  let target: ConfirmationTarget | string | undefined;
+  let diff: AttributeDiff | undefined;
+
+  // Creates have no record to show yet; updates and deletes address one by its path
+  if (operation.method !== 'POST' && operation.pathParams.length > 0) {
+    try {
+      const current = await fetchCurrentResource(operation, config, logContext, signal);
+      target = describeTarget(current.data);
+      if (operation.method === 'PATCH') {
+        diff = diffAttributes(current.data, config.data);
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        return cancelledResult(toolName, signal);
+      }
+      target = `could not be fetched (${describeFailure(error)})`;
+    }
+  }
+
+  let result: ElicitResult;
+  try {
+    result = await elicit({ message: confirmationMessage(action, previewRequest(config), target, diff), requestedSchema: CONFIRMATION_SCHEMA });
+  } catch (error: any) {
+    if (signal?.aborted) {
+      return cancelledResult(toolName, signal);
+    }
+    logger.warn('Could not ask the user for confirmation', { ...logContext, error });
+    return { content: [{ type: 'text', text: `Could not get confirmation for tool '${toolName}': ${describeFailure(error)}. The request was not sent.` }] };
+  }
+
+  if (!isConfirmed(result)) {
+    logger.info('Tool call not confirmed by the user', { ...logContext, action: result.action });
+    return { content: [{ type: 'text', text: `The user did not confirm "${action}" (${result.action}). The request was not sent.` }] };
+  }
+  logger.info('Tool call confirmed by the user', logContext);
+  return undefined;
+}
+
+/**
+ * Fetches the resource a PATCH or DELETE operation addresses with a GET on
+ * the same path. The lookup counts as an API call of the tool.
+ */
+async function fetchCurrentResource(
+  operation: OperationDefinition,
+  config: AxiosRequestConfig,
+  logContext: LogContext,
+  signal?: AbortSignal
+): Promise<RequestOutcome> {
+  const toolName = logContext.toolName!;
+  const { 'content-type': _contentType, ...headers } = config.headers as Record<string, string>;
+  const lookup: OperationDefinition = { ...operation, method: 'GET', bodyContentType: undefined, retry: undefined };
+  const startTime = Date.now();
+  try {
+    const current = await performRequest(lookup, { ...config, method: 'GET', params: undefined, headers, data: undefined }, logContext, signal);
+    recordOutcome(toolName, 'GET', true, Date.now() - startTime, current.cached, current.status);
+    return current;
+  } catch (error: any) {
+    if (!signal?.aborted) {
+      logger.warn('Could not fetch the current resource', { ...logContext, error });
+      recordOutcome(toolName, 'GET', false, Date.now() - startTime, false, error?.response?.status);
+    }
+    throw error;
+  }
+}
+
+function describeFailure(error: any): string {
+  return axios.isAxiosError(error) ? formatApiError(error) : String(error?.message ?? error);
+}
+
+/**
+ * Feeds the outcome of an API call into the health, request and Prometheus
+ * metrics. Calls that never got a response say nothing about authentication.
+ */
+function recordOutcome(
+  toolName: string,
+  method: string,
+  success: boolean,
+  durationMs: number,
+  cached: boolean,
+  status?: number
+): void {
+  healthMonitor.recordRequest(success, durationMs);
+  requestMetrics.recordRequest(success, durationMs, cached);
+  toolMetrics.recordRequest(toolName, method, status, durationMs);
+  if (status === 401) {
+    healthMonitor.recordAuth('failure');
+  } else if (status === 429) {
+    healthMonitor.recordAuth('ratelimited');
+  } else if (status !== undefined) {
+    healthMonitor.recordAuth('success');
+  }
+}
+
+function cancelledResult(toolName: string, signal: AbortSignal): CallToolResult {
+  const reason = signal.reason instanceof Error ? signal.reason.message : signal.reason;
+  return {
+    content: [{ type: 'text', text: `Tool '${toolName}' was cancelled${reason ? `: ${reason}` : ''}. The API request was aborted.` }],
+  };
+}
+
+/**
+ * Formats an axios error into a concise, truncated message for tool output
+ */
+export function formatApiError(error: AxiosError): string {
+  let message = 'API request failed.';
+  if (error.response) {
+    message = `API Error: Status ${error.response.status} (${error.response.statusText || 'Status text not available'}). `;
+    const responseData = error.response.data;
+    const MAX_LEN = 200;
+    if (typeof responseData === 'string') {
+      message += `Response: ${responseData.substring(0, MAX_LEN)}${responseData.length > MAX_LEN ? '...' : ''}`;
+    } else if (responseData) {
+      try {
+        const jsonString = JSON.stringify(responseData);
+        message += `Response: ${jsonString.substring(0, MAX_LEN)}${jsonString.length > MAX_LEN ? '...' : ''}`;
+      } catch {
+        message += 'Response: [Could not serialize response data]';
+      }
+    } else {
+      message += 'No response body received.';
+    }
+  } else if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    const timeout = error.config?.timeout;
+    message = `API Timeout: No response from the server ${timeout ? `within ${timeout}ms` : 'before the request timed out'}.`;
+  } else if (error.request) {
+    message = 'API Network Error: No response received from the server. Check network connectivity or server availability.';
+    if (error.code) message += ` (Code: ${error.code})`;
+  } else {
+    message = `API Request Setup Error: ${error.message}`;
+  }
+  return message;
+}
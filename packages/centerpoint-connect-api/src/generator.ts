@@ -0,0 +1,433 @@
+/**
+ * Tool generator
+ *
+ * Rebuilds the tool definitions (./tools.ts) and the operation table
+ * (./operations.ts) from the CenterPoint OpenAPI document, then applies our
+ * overrides: descriptions, annotation titles, retry opt-ins and schema fixes.
+ * Keeping the overrides in a separate file makes regeneration repeatable and
+ * every local change visible in one place. Run it with
+ * `npm run dev-tools generate-tools`.
+ */
+
+import { type Tool } from '@modelcontextprotocol/sdk/types.js';
+
+import { type HttpMethod, type OperationDefinition } from './operations.js';
+
+type JsonSchema = Record<string, any>;
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+  description?: string;
+  schema?: JsonSchema;
+}
+
+export interface OpenApiOperation {
+  /** Tool name; defaults to the path without its leading slash plus the method, e.g. `companies/{COMPANY_ID}GET` */
+  operationId?: string;
+  summary?: string;
+  parameters?: Array<OpenApiParameter | OpenApiReference>;
+  requestBody?: {
+    description?: string;
+    required?: boolean;
+    content: Record<string, { schema?: JsonSchema }>;
+  };
+}
+
+/** A `$ref` to another part of the document, e.g. `#/components/schemas/Company` */
+export interface OpenApiReference {
+  $ref: string;
+}
+
+export interface OpenApiPathItem {
+  $ref?: string;
+  summary?: string;
+  description?: string;
+  servers?: Array<{ url: string }>;
+  /** Shared by every operation on the path; an operation's own parameter of the same name and location wins */
+  parameters?: Array<OpenApiParameter | OpenApiReference>;
+  get?: OpenApiOperation;
+  put?: OpenApiOperation;
+  post?: OpenApiOperation;
+  delete?: OpenApiOperation;
+  options?: OpenApiOperation;
+  head?: OpenApiOperation;
+  patch?: OpenApiOperation;
+  trace?: OpenApiOperation;
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  servers?: Array<{ url: string }>;
+  paths: Record<string, OpenApiPathItem>;
+  components?: Record<string, Record<string, unknown>>;
+}
+
+/** Local changes to one generated tool */
+export interface ToolOverride {
+  /** Replaces the operation summary as the tool description */
+  description?: string;
+  /** Tool title annotation, replacing the one derived from the method and path */
+  title?: string;
+  /** Sets `retry` on the operation (see ./operations.ts) */
+  retry?: boolean;
+  /**
+   * Schema patches keyed by property path, with `/` between nesting levels
+   * and `[]` for array items, e.g. `requestBody/data/attributes/isBilling`.
+   * Keys are merged into the property schema; a null value removes the key.
+   */
+  schema?: Record<string, Record<string, unknown>>;
+}
+
+export interface GeneratorOverrides {
+  tools: Record<string, ToolOverride>;
+}
+
+export interface GeneratedTool {
+  tool: Tool;
+  operation: OperationDefinition;
+}
+
+export interface GenerateOptions {
+  /**
+   * Throw when an override refers to a tool or property the document does
+   * not have (the default). Turn it off to preview a newer document with the
+   * overrides that still apply.
+   */
+  strict?: boolean;
+  /**
+   * Called for each operation the generator cannot map to a tool, which is
+   * then left out. Without it such an operation throws.
+   */
+  onUnsupported?: (operation: UnsupportedOperation) => void;
+}
+
+export interface UnsupportedOperation {
+  path: string;
+  /** Upper-case method, e.g. `PUT` */
+  method: string;
+  reason: string;
+}
+
+/** Per-call token argument added to every tool */
+export const AUTHORIZATION_PROPERTY: JsonSchema = {
+  type: 'string',
+  description: 'Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable.',
+};
+
+export const GENERATED_OPERATIONS_START = '// --- Generated operations: edit openapi/overrides.json and run `npm run dev-tools generate-tools` ---';
+export const GENERATED_OPERATIONS_END = '// --- End of generated operations ---';
+
+const METHODS: Record<string, HttpMethod> = { get: 'GET', post: 'POST', patch: 'PATCH', delete: 'DELETE' };
+
+/** Path item keys that hold operations; the others (`parameters`, `summary`, `servers`, ...) are not tools */
+const OPERATION_KEYS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const;
+
+/**
+ * Builds the tool definitions and operations described by an OpenAPI document
+ * @throws If the document uses something the generator cannot map to a tool
+ * and no `onUnsupported` callback is given, or, in strict mode, an override
+ * refers to a tool or property that does not exist
+ */
+export function generateTools(
+  spec: OpenApiDocument,
+  overrides: GeneratorOverrides,
+  { strict = true, onUnsupported }: GenerateOptions = {}
+): GeneratedTool[] {
+  const generated: GeneratedTool[] = [];
+  for (const [path, rawPathItem] of Object.entries(spec.paths)) {
+    const pathItem = resolvePathItem(spec, rawPathItem);
+    for (const key of OPERATION_KEYS) {
+      const definition = pathItem[key];
+      if (!definition) {
+        continue;
+      }
+      try {
+        const method = METHODS[key];
+        if (!method) {
+          throw new Error(`Unsupported method '${key}' for ${path}`);
+        }
+        generated.push(generateTool(path, method, resolveOperation(spec, pathItem, definition)));
+      } catch (error) {
+        if (!onUnsupported) {
+          throw error;
+        }
+        onUnsupported({ path, method: key.toUpperCase(), reason: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  const names = new Set(generated.map(({ tool }) => tool.name));
+  for (const name of Object.keys(overrides.tools)) {
+    if (strict && !names.has(name)) {
+      throw new Error(`Overrides refer to unknown tool '${name}'`);
+    }
+  }
+  return generated.map(entry => applyOverride(entry, overrides.tools[entry.tool.name], strict));
+}
+
+/**
+ * Follows a path item's own `$ref`; the operations inside are resolved one by one
+ */
+function resolvePathItem(spec: OpenApiDocument, pathItem: OpenApiPathItem): OpenApiPathItem {
+  const { $ref, ...rest } = pathItem;
+  return $ref ? { ...(resolvePointer(spec, $ref) as OpenApiPathItem), ...rest } : pathItem;
+}
+
+/**
+ * Resolves every `$ref` in an operation and adds the path's shared parameters
+ */
+function resolveOperation(
+  spec: OpenApiDocument,
+  pathItem: OpenApiPathItem,
+  definition: OpenApiOperation
+): OpenApiOperation & { parameters: OpenApiParameter[] } {
+  const operation = resolveRefs(spec, definition);
+  const own = (operation.parameters ?? []) as OpenApiParameter[];
+  const shared = resolveRefs(spec, pathItem.parameters ?? []) as OpenApiParameter[];
+  const inherited = shared.filter(parameter => !own.some(other => other.name === parameter.name && other.in === parameter.in));
+  return { ...operation, parameters: [...inherited, ...own] };
+}
+
+/**
+ * Replaces local references (`#/components/...`) with what they point to.
+ * Keys next to a `$ref`, such as a description, win over the target's.
+ * @throws On references to other documents and on circular references
+ */
+function resolveRefs<T>(spec: OpenApiDocument, value: T, seen: string[] = []): T {
+  if (Array.isArray(value)) {
+    return value.map(item => resolveRefs(spec, item, seen)) as T;
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+  const { $ref, ...rest } = value as JsonSchema;
+  if (typeof $ref === 'string') {
+    if (seen.includes($ref)) {
+      throw new Error(`Circular $ref '${$ref}'`);
+    }
+    const target = resolvePointer(spec, $ref) as JsonSchema;
+    return resolveRefs(spec, { ...target, ...rest }, [...seen, $ref]) as T;
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, resolveRefs(spec, child, seen)])) as T;
+}
+
+function resolvePointer(spec: OpenApiDocument, ref: string): unknown {
+  if (!ref.startsWith('#/')) {
+    throw new Error(`Unsupported $ref '${ref}'; only references within the document are resolved`);
+  }
+  let target: unknown = spec;
+  for (const segment of ref.slice(2).split('/')) {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    target = target && typeof target === 'object' ? (target as Record<string, unknown>)[key] : undefined;
+  }
+  if (!target || typeof target !== 'object') {
+    throw new Error(`Unresolved $ref '${ref}'`);
+  }
+  return target;
+}
+
+function generateTool(path: string, method: HttpMethod, definition: OpenApiOperation & { parameters: OpenApiParameter[] }): GeneratedTool {
+  const name = definition.operationId ?? `${path.replace(/^\//, '')}${method}`;
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  const pathParams: string[] = [];
+  const queryParams: string[] = [];
+
+  for (const parameter of definition.parameters) {
+    if (parameter.in === 'header' && parameter.name.toLowerCase() === 'authorization') {
+      continue;
+    }
+    if (parameter.in !== 'path' && parameter.in !== 'query') {
+      throw new Error(`Unsupported ${parameter.in} parameter '${parameter.name}' in ${name}`);
+    }
+    properties[parameter.name] = toProperty(parameter.schema ?? { type: 'string' }, parameter.description);
+    if (parameter.in === 'path') {
+      pathParams.push(parameter.name);
+    } else {
+      queryParams.push(parameter.name);
+    }
+    if (parameter.required || parameter.in === 'path') {
+      required.push(parameter.name);
+    }
+  }
+
+  let bodyContentType: string | undefined;
+  if (definition.requestBody) {
+    const [contentType, media] = Object.entries(definition.requestBody.content)[0] ?? [];
+    if (!contentType) {
+      throw new Error(`Request body of ${name} declares no content type`);
+    }
+    bodyContentType = contentType;
+    properties.requestBody = media.schema
+      ? toProperty(media.schema, definition.requestBody.description ?? 'The JSON request body.')
+      : { type: 'string', description: definition.requestBody.description ?? `Request body (content type: ${contentType})` };
+    if (definition.requestBody.required) {
+      required.push('requestBody');
+    }
+  }
+  properties.Authorization = { ...AUTHORIZATION_PROPERTY };
+
+  const inputSchema: Tool['inputSchema'] = { type: 'object', properties };
+  if (required.length > 0) {
+    inputSchema.required = required;
+  }
+  return {
+    tool: { name, description: definition.summary ?? '', inputSchema },
+    operation: {
+      method,
+      pathTemplate: path,
+      pathParams,
+      queryParams,
+      ...(bodyContentType ? { bodyContentType } : {}),
+    },
+  };
+}
+
+function toProperty(schema: JsonSchema, description: string | undefined): JsonSchema {
+  return description === undefined ? { ...schema } : { ...schema, description };
+}
+
+function applyOverride(entry: GeneratedTool, override: ToolOverride | undefined, strict: boolean): GeneratedTool {
+  if (!override) {
+    return entry;
+  }
+  const tool: Tool = structuredClone(entry.tool);
+  const operation: OperationDefinition = { ...entry.operation };
+  if (override.description !== undefined) {
+    tool.description = override.description;
+  }
+  if (override.retry !== undefined) {
+    operation.retry = override.retry;
+  }
+  if (override.title !== undefined) {
+    operation.title = override.title;
+  }
+  for (const [path, patch] of Object.entries(override.schema ?? {})) {
+    const found = findProperty(tool, path);
+    if (!found) {
+      if (strict) {
+        throw new Error(`Override for ${tool.name} refers to unknown property '${path}'`);
+      }
+      continue;
+    }
+    const [parent, key] = found;
+    parent[key] = mergeSchema(parent[key], patch);
+  }
+  return { tool, operation };
+}
+
+/**
+ * Finds the schema an override key refers to
+ * @returns The parent schema map and the key within it, or undefined if the property does not exist
+ */
+export function findProperty(tool: Tool, path: string): [JsonSchema, string] | undefined {
+  const segments = path.split('/');
+  let parent: JsonSchema = tool.inputSchema.properties ?? {};
+  let key = segments[0];
+  for (const segment of segments.slice(1)) {
+    const current = parent[key];
+    if (segment === '[]') {
+      [parent, key] = [current, 'items'];
+    } else {
+      [parent, key] = [current?.properties, segment];
+    }
+    if (!parent) break;
+  }
+  return parent?.[key] ? [parent, key] : undefined;
+}
+
+/**
+ * Merges a patch into a property schema. `type` stays first and new keywords
+ * follow it, so overrides read naturally in the generated file.
+ */
+function mergeSchema(schema: JsonSchema, patch: Record<string, unknown>): JsonSchema {
+  const added = Object.keys(patch).filter(key => !(key in schema) && key !== 'type');
+  const keys = [...('type' in schema || 'type' in patch ? ['type'] : []), ...added, ...Object.keys(schema).filter(key => key !== 'type')];
+  const merged: JsonSchema = {};
+  for (const key of keys) {
+    const value = key in patch ? patch[key] : schema[key];
+    if (value !== null) {
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Renders ./tools.ts
+ */
+export function renderToolsModule(generated: GeneratedTool[]): string {
+  const entries = generated.map(({ tool, operation }) => [
+    `  // Tool: ${tool.name} (${operation.method} ${operation.pathTemplate})`,
+    '  {',
+    `    name: ${JSON.stringify(tool.name)},`,
+    `    description: \`${escapeTemplate(tool.description ?? '')}\`,`,
+    `    inputSchema:     ${JSON.stringify(tool.inputSchema, null, 4).replace(/\n/g, '\n    ')}`,
+    '  },',
+  ].join('\n'));
+  return [
+    '// Generated by `npm run dev-tools generate-tools` from openapi/centerpoint-connect-api.json',
+    '// with the local changes in openapi/overrides.json applied. Do not edit by hand.',
+    '',
+    'import { type Tool } from "@modelcontextprotocol/sdk/types.js";',
+    '',
+    '// --- Tool Definitions (for ListTools response) ---',
+    'export const toolsList: Tool[] = [',
+    '',
+    entries.join('\n'),
+    '];',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Renders the `operations` table of ./operations.ts, between its markers
+ */
+export function renderOperationsTable(generated: GeneratedTool[]): string {
+  const entries = generated.map(({ tool, operation }) => {
+    const lines = [
+      `  // ${operation.method} ${operation.pathTemplate}`,
+      `  ${quote(tool.name)}: {`,
+      `    method: ${quote(operation.method)},`,
+      `    pathTemplate: ${quote(operation.pathTemplate)},`,
+      `    pathParams: [${operation.pathParams.map(quote).join(', ')}],`,
+      `    queryParams: [${operation.queryParams.map(quote).join(', ')}],`,
+    ];
+    if (operation.bodyContentType) lines.push(`    bodyContentType: ${quote(operation.bodyContentType)},`);
+    if (operation.retry !== undefined) lines.push(`    retry: ${operation.retry},`);
+    if (operation.title) lines.push(`    title: ${quote(operation.title)},`);
+    lines.push('  },');
+    return lines.join('\n');
+  });
+  return [
+    GENERATED_OPERATIONS_START,
+    'export const operations: Record<string, OperationDefinition> = {',
+    ...entries,
+    '};',
+    GENERATED_OPERATIONS_END,
+  ].join('\n');
+}
+
+/**
+ * Replaces the generated operations table in the source of ./operations.ts
+ * @throws If the markers are missing
+ */
+export function replaceOperationsTable(source: string, table: string): string {
+  const start = source.indexOf(GENERATED_OPERATIONS_START);
+  const end = source.indexOf(GENERATED_OPERATIONS_END);
+  if (start < 0 || end < start) {
+    throw new Error('operations.ts is missing the generated operations markers');
+  }
+  return source.slice(0, start) + table + source.slice(end + GENERATED_OPERATIONS_END.length);
+}
+
+function escapeTemplate(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+}
+
+function quote(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
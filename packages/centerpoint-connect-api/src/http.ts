@@ -0,0 +1,276 @@
+/**
+ * Streamable HTTP transport entrypoint
+ *
+ * Serves the MCP Streamable HTTP protocol so a single deployment can be
+ * shared by many clients. Every MCP session gets its own Server instance
+ * from the supplied factory, keyed by the `Mcp-Session-Id` header.
+ *
+ * Every session calls CenterPoint with the server's own API token, so the
+ * endpoint is guarded: clients must send the `CENTERPOINT_HTTP_AUTH_TOKEN`
+ * bearer token, which is required unless the server only listens on a
+ * loopback address, and the SDK's DNS rebinding protection checks the `Host`
+ * and `Origin` headers against the allowed lists.
+ */
+
+import { createServer as createHttpServer, type IncomingMessage, type ServerResponse, type Server as HttpServer } from 'http';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { type Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+import { config as appConfig } from './config.js';
+import { logger } from './logging.js';
+import { toolMetrics, PROMETHEUS_CONTENT_TYPE } from './metrics.js';
+
+/** Who may reach the MCP endpoint */
+export interface HttpAccessOptions {
+  /** Bearer token clients must send; unset leaves the endpoint open */
+  authToken?: string;
+  /** Accepted `Host` header values, e.g. `mcp.example.com` or `localhost:3000` */
+  allowedHosts?: string[];
+  /** Accepted `Origin` header values; requests without a matching Origin are rejected */
+  allowedOrigins?: string[];
+}
+
+export interface HttpServerOptions extends HttpAccessOptions {
+  host: string;
+  port: number;
+  /** Path serving the MCP endpoint, e.g. `/mcp` */
+  path: string;
+  /** Sessions without traffic for this long are closed; 0 disables expiry */
+  sessionIdleTimeoutMs: number;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  lastSeen: number;
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+
+/**
+ * Per-session MCP server registry backing the HTTP endpoint
+ */
+export class McpSessionManager {
+  private sessions = new Map<string, Session>();
+
+  constructor(private readonly createMcpServer: () => Server, private readonly access: HttpAccessOptions = {}) {}
+
+  /**
+   * Routes one HTTP request on the MCP endpoint to its session, creating a
+   * new session for initialize requests
+   */
+  async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (this.access.authToken && !hasBearerToken(req, this.access.authToken)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJsonRpcError(res, 401, -32000, 'Unauthorized');
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await readJsonBody(req);
+      } catch (error: any) {
+        sendJsonRpcError(res, 400, -32700, `Parse error: ${error.message}`);
+        return;
+      }
+    }
+
+    const sessionId = headerValue(req.headers['mcp-session-id']);
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      session.lastSeen = Date.now();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === 'POST' && isInitializeRequest(body)) {
+      await this.startSession(req, res, body);
+      return;
+    }
+
+    sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+  }
+
+  private async startSession(req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+    const server = this.createMcpServer();
+    const allowedHosts = this.access.allowedHosts ?? [];
+    const allowedOrigins = this.access.allowedOrigins ?? [];
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      enableDnsRebindingProtection: allowedHosts.length > 0 || allowedOrigins.length > 0,
+      allowedHosts,
+      allowedOrigins,
+      onsessioninitialized: (sessionId) => {
+        this.sessions.set(sessionId, { transport, server, lastSeen: Date.now() });
+        logger.info('MCP session started', { sessionId, activeSessions: this.sessions.size });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && this.sessions.delete(transport.sessionId)) {
+        logger.info('MCP session closed', { sessionId: transport.sessionId, activeSessions: this.sessions.size });
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Closes sessions that have been idle for longer than the given timeout
+   * @returns The number of sessions closed
+   */
+  async closeIdleSessions(idleTimeoutMs: number): Promise<number> {
+    const cutoff = Date.now() - idleTimeoutMs;
+    const idle = [...this.sessions.values()].filter(session => session.lastSeen < cutoff);
+    await Promise.all(idle.map(session => session.server.close()));
+    return idle.length;
+  }
+
+  async closeAll(): Promise<void> {
+    await Promise.all([...this.sessions.values()].map(session => session.server.close()));
+    this.sessions.clear();
+  }
+
+  size(): number {
+    return this.sessions.size;
+  }
+}
+
+/**
+ * Starts the HTTP server and installs shutdown handlers for SIGINT and SIGTERM.
+ * Besides the MCP endpoint it serves `GET /health` and, unless
+ * CENTERPOINT_ENABLE_METRICS is false, Prometheus metrics on `GET /metrics`.
+ * On a loopback host with a fixed port and no allowed hosts, only
+ * `localhost`, `127.0.0.1` and `[::1]` on that port are accepted.
+ * @param createMcpServer Factory producing a fresh MCP server per session
+ * @returns The listening HTTP server
+ * @throws If the host is reachable from other machines and no auth token is set
+ */
+export async function runHttpServer(createMcpServer: () => Server, options: HttpServerOptions): Promise<HttpServer> {
+  const loopback = LOOPBACK_HOSTS.includes(options.host);
+  if (!loopback && !options.authToken) {
+    throw new Error(`Set CENTERPOINT_HTTP_AUTH_TOKEN before listening on ${options.host}; every session uses the server's CenterPoint API token`);
+  }
+  const allowedHosts = options.allowedHosts?.length || !loopback || options.port === 0
+    ? options.allowedHosts
+    : ['localhost', '127.0.0.1', '[::1]'].map(host => `${host}:${options.port}`);
+  const sessions = new McpSessionManager(createMcpServer, {
+    authToken: options.authToken,
+    allowedHosts,
+    allowedOrigins: options.allowedOrigins,
+  });
+
+  const httpServer = createHttpServer((req, res) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+
+    if (pathname === options.path) {
+      sessions.handleRequest(req, res).catch(error => {
+        logger.error('Error handling MCP request', { error });
+        if (!res.headersSent) {
+          sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
+      });
+      return;
+    }
+
+    if (pathname === '/health' && req.method === 'GET') {
+      sendJson(res, 200, { status: 'ok', sessions: sessions.size() });
+      return;
+    }
+
+    if (pathname === '/metrics' && req.method === 'GET' && appConfig.getLogging().enableMetrics) {
+      res.writeHead(200, { 'Content-Type': PROMETHEUS_CONTENT_TYPE });
+      res.end(toolMetrics.render());
+      return;
+    }
+
+    sendJson(res, 404, { error: 'Not found' });
+  });
+
+  let sweepTimer: NodeJS.Timeout | undefined;
+  if (options.sessionIdleTimeoutMs > 0) {
+    sweepTimer = setInterval(() => {
+      sessions.closeIdleSessions(options.sessionIdleTimeoutMs).catch(error => {
+        logger.error('Error closing idle MCP sessions', { error });
+      });
+    }, Math.min(options.sessionIdleTimeoutMs, 60 * 1000));
+    sweepTimer.unref();
+  }
+
+  let shuttingDown = false;
+  const shutdown = async (reason: string): Promise<void> => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    logger.info(`Shutting down MCP HTTP server (${reason})`);
+    if (sweepTimer) clearInterval(sweepTimer);
+    try {
+      await sessions.closeAll();
+    } catch (error) {
+      logger.error('Error while closing MCP sessions', { error: error as Error });
+    }
+    httpServer.close(() => process.exit(0));
+    httpServer.closeAllConnections();
+  };
+
+  process.once('SIGINT', () => void shutdown('SIGINT'));
+  process.once('SIGTERM', () => void shutdown('SIGTERM'));
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  logger.info(`MCP server listening on http://${options.host}:${options.port}${options.path}`);
+  return httpServer;
+}
+
+/**
+ * Compares the request's bearer token with the expected one in constant time
+ */
+function hasBearerToken(req: IncomingMessage, expected: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(headerValue(req.headers.authorization) ?? '');
+  if (!match) {
+    return false;
+  }
+  const digest = (token: string) => createHash('sha256').update(token).digest();
+  return timingSafeEqual(digest(match[1].trim()), digest(expected));
+}
+
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  const raw = Buffer.concat(chunks).toString('utf8');
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+function sendJson(res: ServerResponse, status: number, payload: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+}
@@ -0,0 +1,180 @@
+/**
+ * Compact renderings of JSON:API documents
+ *
+ * GET tools accept a `responseFormat` argument: `raw` returns the API payload
+ * unchanged, `flat` merges attributes into each record and inlines included
+ * relationships, and `table` renders the records as a Markdown table.
+ */
+
+import { type Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export type ResponseFormat = 'raw' | 'flat' | 'table';
+
+export const RESPONSE_FORMATS: ResponseFormat[] = ['raw', 'flat', 'table'];
+
+export const RESPONSE_FORMAT_PROPERTY = {
+  responseFormat: {
+    type: 'string',
+    enum: RESPONSE_FORMATS,
+    description: 'How to return the response: "raw" (default) is the JSON:API payload as sent by the API, "flat" merges attributes into each record and inlines included relationships, "table" renders a Markdown table of the requested fields[...] columns.',
+  },
+};
+
+interface ResourceIdentifier {
+  type: string;
+  id: string;
+}
+
+interface Relationship {
+  data?: ResourceIdentifier | ResourceIdentifier[] | null;
+  links?: Record<string, unknown>;
+  meta?: Record<string, unknown>;
+}
+
+interface Resource extends ResourceIdentifier {
+  attributes?: Record<string, unknown>;
+  relationships?: Record<string, Relationship>;
+}
+
+export interface JsonApiDocument {
+  data: Resource | Resource[] | null;
+  included?: Resource[];
+  meta?: Record<string, unknown>;
+}
+
+export type FlatRecord = Record<string, unknown>;
+
+/**
+ * Adds the responseFormat argument to a tool's input schema
+ */
+export function addResponseFormatArgument(tool: Tool): Tool {
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: { ...tool.inputSchema.properties, ...RESPONSE_FORMAT_PROPERTY },
+    },
+  };
+}
+
+/**
+ * Reads the responseFormat argument of a tool call
+ * @throws If the value is not a known format
+ */
+export function getResponseFormat(args: Record<string, any>): ResponseFormat {
+  const format = args.responseFormat ?? 'raw';
+  if (!RESPONSE_FORMATS.includes(format)) {
+    throw new Error(`responseFormat must be one of: ${RESPONSE_FORMATS.join(', ')}`);
+  }
+  return format;
+}
+
+export function isJsonApiDocument(body: unknown): body is JsonApiDocument {
+  if (typeof body !== 'object' || body === null || !('data' in body)) return false;
+  const data = (body as JsonApiDocument).data;
+  return data === null || Array.isArray(data) || isResource(data);
+}
+
+function isResource(value: unknown): value is Resource {
+  return typeof value === 'object' && value !== null && 'type' in value && 'id' in value;
+}
+
+/**
+ * Flattens a JSON:API document: each record becomes `{ id, type, ...attributes }`
+ * with every relationship replaced by the matching included resource
+ * (itself flattened one level deep) or by its bare identifier.
+ * @returns The flattened record(s) and the document's meta, if any
+ */
+export function flattenDocument(document: JsonApiDocument): { data: FlatRecord | FlatRecord[] | null; meta?: Record<string, unknown> } {
+  const included = new Map<string, Resource>();
+  for (const resource of document.included ?? []) {
+    if (isResource(resource)) {
+      included.set(`${resource.type}:${resource.id}`, resource);
+    }
+  }
+
+  const resolve = (identifier: ResourceIdentifier): FlatRecord => {
+    const resource = included.get(`${identifier.type}:${identifier.id}`);
+    return resource ? flattenResource(resource) : { id: identifier.id, type: identifier.type };
+  };
+
+  const flattenWithRelationships = (resource: Resource): FlatRecord => {
+    const record = flattenResource(resource);
+    for (const [name, relationship] of Object.entries(resource.relationships ?? {})) {
+      if (!relationship || !('data' in relationship)) continue;
+      const related = relationship.data;
+      record[name] = related === null || related === undefined
+        ? null
+        : Array.isArray(related) ? related.map(resolve) : resolve(related);
+    }
+    return record;
+  };
+
+  const data = document.data === null
+    ? null
+    : Array.isArray(document.data) ? document.data.map(flattenWithRelationships) : flattenWithRelationships(document.data);
+
+  return document.meta ? { data, meta: document.meta } : { data };
+}
+
+function flattenResource(resource: Resource): FlatRecord {
+  return { id: resource.id, type: resource.type, ...resource.attributes };
+}
+
+/**
+ * Renders a JSON:API document as a Markdown table
+ * @param document The API payload
+ * @param sparseFields The `fields[...]` arguments of the call, keyed by resource type
+ */
+export function renderTable(document: JsonApiDocument, sparseFields: Record<string, string> = {}): string {
+  const { data, meta } = flattenDocument(document);
+  const records = data === null ? [] : Array.isArray(data) ? data : [data];
+  if (records.length === 0) {
+    return appendMeta('(no records)', meta);
+  }
+
+  const requested = sparseFields[String(records[0].type)];
+  const columns = requested
+    ? ['id', ...requested.split(',').map(field => field.trim()).filter(field => field && field !== 'id')]
+    : unionOfKeys(records);
+
+  const lines = [
+    `| ${columns.map(escapeCell).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...records.map(record => `| ${columns.map(column => escapeCell(cellValue(record[column]))).join(' | ')} |`),
+  ];
+  return appendMeta(lines.join('\n'), meta);
+}
+
+function unionOfKeys(records: FlatRecord[]): string[] {
+  const keys = new Set<string>();
+  for (const record of records) {
+    Object.keys(record).filter(key => key !== 'type').forEach(key => keys.add(key));
+  }
+  return [...keys];
+}
+
+/**
+ * Renders a flattened value for a table cell; related records show their
+ * name (or title) when they have one, otherwise their id
+ */
+function cellValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(cellValue).join(', ');
+  if (typeof value === 'object') {
+    const record = value as FlatRecord;
+    if ('id' in record && 'type' in record) {
+      return String(record.name ?? record.title ?? record.id);
+    }
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function appendMeta(text: string, meta?: Record<string, unknown>): string {
+  return meta ? `${text}\n\nmeta: ${JSON.stringify(meta)}` : text;
+}
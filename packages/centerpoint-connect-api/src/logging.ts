@@ -34,13 +34,20 @@ export interface StructuredLogEntry {
  * Enhanced logger with structured logging and filtering
  */
 export class Logger {
-  private readonly minLevel: LogLevel;
-  private readonly enableMetrics: boolean;
-  private readonly enableRequestLogging: boolean;
-  private readonly enableTokenMasking: boolean;
-  private readonly logFormat: 'json' | 'text';
+  private minLevel!: LogLevel;
+  private enableMetrics!: boolean;
+  private enableRequestLogging!: boolean;
+  private enableTokenMasking!: boolean;
+  private logFormat!: 'json' | 'text';
 
   constructor() {
+    this.configure();
+  }
+
+  /**
+   * Re-reads the logging settings, e.g. after the configuration was reloaded
+   */
+  configure(): void {
     const logConfig = config.getLogging();
     this.minLevel = this.parseLogLevel(logConfig.level);
     this.enableMetrics = logConfig.enableMetrics;
@@ -73,6 +80,8 @@ export class Logger {
 
     if (context?.error) {
       entry.stack = context.error.stack;
+      // Errors serialize to {}; log their message and keep the stack separately
+      entry.context = { ...entry.context, error: this.maskSensitiveData(context.error.message) as any };
     }
 
     if (this.logFormat === 'json') {
@@ -84,6 +93,7 @@ export class Logger {
     
     if (entry.context) {
       const contextStr = Object.entries(entry.context)
+        .filter(([, value]) => value !== undefined)
         .map(([key, value]) => `${key}=${JSON.stringify(value)}`)
         .join(' ');
       parts.push(`(${contextStr})`);
@@ -123,6 +133,7 @@ export class Logger {
     return masked;
   }
 
+  // Every level goes to stderr: over stdio, stdout carries the MCP protocol
   error(message: string, context?: LogContext): void {
     if (this.shouldLog(LogLevel.ERROR)) {
       console.error(this.formatMessage(LogLevel.ERROR, message, context));
@@ -131,29 +142,39 @@ export class Logger {
 
   warn(message: string, context?: LogContext): void {
     if (this.shouldLog(LogLevel.WARN)) {
-      console.warn(this.formatMessage(LogLevel.WARN, message, context));
+      console.error(this.formatMessage(LogLevel.WARN, message, context));
     }
   }
 
   info(message: string, context?: LogContext): void {
     if (this.shouldLog(LogLevel.INFO)) {
-      console.info(this.formatMessage(LogLevel.INFO, message, context));
+      console.error(this.formatMessage(LogLevel.INFO, message, context));
     }
   }
 
   debug(message: string, context?: LogContext): void {
     if (this.shouldLog(LogLevel.DEBUG)) {
-      console.debug(this.formatMessage(LogLevel.DEBUG, message, context));
+      console.error(this.formatMessage(LogLevel.DEBUG, message, context));
     }
   }
 
   /**
-   * Log API request with timing
+   * Log API request with timing. Failed requests are always logged;
+   * successful ones only when request logging is enabled.
    */
-  logRequest(toolName: string, method: string, url: string, duration: number, statusCode?: number, error?: Error): void {
-    if (!this.enableRequestLogging) return;
+  logRequest(
+    toolName: string,
+    method: string,
+    url: string,
+    duration: number,
+    statusCode?: number,
+    error?: Error,
+    extra?: LogContext
+  ): void {
+    if (!this.enableRequestLogging && !error) return;
 
     const context: LogContext = {
+      ...extra,
       toolName,
       duration,
       statusCode,
@@ -281,7 +302,8 @@ export class HealthMonitor {
       noRecentErrors: !this.metrics.errors.lastErrorTime || 
         (Date.now() - this.metrics.errors.lastErrorTime) > 5 * 60 * 1000, // 5 minutes
       reasonableResponseTime: this.metrics.requests.avgResponseTime < 5000, // 5 seconds
-      authWorking: this.metrics.auth.failed < this.metrics.auth.successful * 0.1, // Less than 10% failures
+      authWorking: this.metrics.auth.failed === 0 ||
+        this.metrics.auth.failed < this.metrics.auth.successful * 0.1, // Less than 10% failures
     };
 
     const healthyChecks = Object.values(checks).filter(Boolean).length;
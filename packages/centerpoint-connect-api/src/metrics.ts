@@ -0,0 +1,188 @@
+/**
+ * Prometheus metrics for tool traffic
+ *
+ * Counters, latency histograms and quantile summaries labelled by tool name
+ * and HTTP method, rendered in the Prometheus text exposition format.
+ */
+
+type Labels = Record<string, string>;
+
+interface Series<T> {
+  labels: Labels;
+  value: T;
+}
+
+interface HistogramValue {
+  buckets: number[];
+  sum: number;
+  count: number;
+  /** Most recent samples, used for the quantile summary */
+  samples: number[];
+}
+
+/** Upper bounds of the latency histogram buckets, in seconds */
+export const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+export const LATENCY_QUANTILES = [0.5, 0.95, 0.99];
+const MAX_SAMPLES = 1000;
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Per-tool request, cache and retry metrics
+ */
+export class ToolMetrics {
+  private requests = new Map<string, Series<number>>();
+  private latency = new Map<string, Series<HistogramValue>>();
+  private cacheHits = new Map<string, Series<number>>();
+  private cacheMisses = new Map<string, Series<number>>();
+  private retries = new Map<string, Series<number>>();
+  private rateLimited = new Map<string, Series<number>>();
+
+  /**
+   * Records a completed tool call
+   * @param status HTTP status of the final response; undefined when none was received
+   */
+  recordRequest(toolName: string, method: string, status: number | undefined, durationMs: number): void {
+    const labels = { tool: toolName, method };
+    increment(this.requests, { ...labels, status: status === undefined ? 'error' : String(status) });
+    if (status === 429) {
+      increment(this.rateLimited, labels);
+    }
+
+    const seconds = durationMs / 1000;
+    const histogram = series(this.latency, labels, () => ({
+      buckets: LATENCY_BUCKETS.map(() => 0),
+      sum: 0,
+      count: 0,
+      samples: [],
+    })).value;
+    LATENCY_BUCKETS.forEach((bound, index) => {
+      if (seconds <= bound) histogram.buckets[index]++;
+    });
+    histogram.sum += seconds;
+    histogram.count++;
+    histogram.samples.push(seconds);
+    if (histogram.samples.length > MAX_SAMPLES) {
+      histogram.samples.shift();
+    }
+  }
+
+  recordCacheLookup(toolName: string, method: string, hit: boolean): void {
+    increment(hit ? this.cacheHits : this.cacheMisses, { tool: toolName, method });
+  }
+
+  /**
+   * Records a retried attempt
+   * @param status HTTP status of the failed attempt, if it got a response
+   */
+  recordRetry(toolName: string, method: string, status?: number): void {
+    const labels = { tool: toolName, method };
+    increment(this.retries, labels);
+    if (status === 429) {
+      increment(this.rateLimited, labels);
+    }
+  }
+
+  /**
+   * Renders all metrics in the Prometheus text exposition format
+   */
+  render(): string {
+    const lines: string[] = [];
+
+    writeCounter(lines, 'centerpoint_tool_requests_total', 'Tool calls that reached the CenterPoint API or the response cache, by final HTTP status', this.requests);
+
+    lines.push('# HELP centerpoint_tool_request_duration_seconds Tool call latency, including retries');
+    lines.push('# TYPE centerpoint_tool_request_duration_seconds histogram');
+    for (const { labels, value } of this.latency.values()) {
+      LATENCY_BUCKETS.forEach((bound, index) => {
+        lines.push(sample('centerpoint_tool_request_duration_seconds_bucket', { ...labels, le: String(bound) }, value.buckets[index]));
+      });
+      lines.push(sample('centerpoint_tool_request_duration_seconds_bucket', { ...labels, le: '+Inf' }, value.count));
+      lines.push(sample('centerpoint_tool_request_duration_seconds_sum', labels, value.sum));
+      lines.push(sample('centerpoint_tool_request_duration_seconds_count', labels, value.count));
+    }
+
+    lines.push(`# HELP centerpoint_tool_request_latency_seconds Tool call latency quantiles over the last ${MAX_SAMPLES} calls`);
+    lines.push('# TYPE centerpoint_tool_request_latency_seconds summary');
+    for (const { labels, value } of this.latency.values()) {
+      const sorted = [...value.samples].sort((a, b) => a - b);
+      LATENCY_QUANTILES.forEach(quantile => {
+        lines.push(sample('centerpoint_tool_request_latency_seconds', { ...labels, quantile: String(quantile) }, percentile(sorted, quantile)));
+      });
+      lines.push(sample('centerpoint_tool_request_latency_seconds_sum', labels, value.sum));
+      lines.push(sample('centerpoint_tool_request_latency_seconds_count', labels, value.count));
+    }
+
+    writeCounter(lines, 'centerpoint_cache_hits_total', 'GET tool calls served from the response cache', this.cacheHits);
+    writeCounter(lines, 'centerpoint_cache_misses_total', 'GET tool calls that had to fetch from the API', this.cacheMisses);
+    writeCounter(lines, 'centerpoint_retries_total', 'API calls retried after a transient failure', this.retries);
+    writeCounter(lines, 'centerpoint_upstream_rate_limited_total', 'HTTP 429 responses received from the CenterPoint API', this.rateLimited);
+
+    const memory = process.memoryUsage();
+    const cpu = process.cpuUsage();
+    lines.push('# HELP process_resident_memory_bytes Resident memory size in bytes');
+    lines.push('# TYPE process_resident_memory_bytes gauge');
+    lines.push(sample('process_resident_memory_bytes', {}, memory.rss));
+    lines.push('# HELP process_cpu_seconds_total Total user and system CPU time spent in seconds');
+    lines.push('# TYPE process_cpu_seconds_total counter');
+    lines.push(sample('process_cpu_seconds_total', {}, (cpu.user + cpu.system) / 1e6));
+
+    return lines.join('\n') + '\n';
+  }
+
+  reset(): void {
+    this.requests.clear();
+    this.latency.clear();
+    this.cacheHits.clear();
+    this.cacheMisses.clear();
+    this.retries.clear();
+    this.rateLimited.clear();
+  }
+}
+
+function series<T>(map: Map<string, Series<T>>, labels: Labels, initial: () => T): Series<T> {
+  const key = JSON.stringify(labels);
+  let entry = map.get(key);
+  if (!entry) {
+    entry = { labels, value: initial() };
+    map.set(key, entry);
+  }
+  return entry;
+}
+
+function increment(map: Map<string, Series<number>>, labels: Labels): void {
+  series(map, labels, () => 0).value++;
+}
+
+function writeCounter(lines: string[], name: string, help: string, map: Map<string, Series<number>>): void {
+  lines.push(`# HELP ${name} ${help}`);
+  lines.push(`# TYPE ${name} counter`);
+  for (const { labels, value } of map.values()) {
+    lines.push(sample(name, labels, value));
+  }
+}
+
+function sample(name: string, labels: Labels, value: number): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return `${name} ${value}`;
+  }
+  const rendered = entries.map(([key, label]) => `${key}="${escapeLabel(label)}"`).join(',');
+  return `${name}{${rendered}} ${value}`;
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Nearest-rank percentile of an ascending list; NaN when it is empty
+ */
+function percentile(sorted: number[], quantile: number): number {
+  if (sorted.length === 0) return NaN;
+  const rank = Math.ceil(quantile * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(rank, 1)) - 1];
+}
+
+// Global instance
+export const toolMetrics = new ToolMetrics();
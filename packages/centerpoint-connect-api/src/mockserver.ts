@@ -0,0 +1,647 @@
+/**
+ * Mock CenterPoint Connect API
+ *
+ * An in-memory stand-in for the CenterPoint API, for offline development and
+ * end-to-end tests. It serves every endpoint in the operation table with
+ * JSON:API documents: CRUD on in-memory records, `page[number]` and
+ * `page[size]` with `links`, `filter[search]`, range filters such as
+ * `filter[updated_at][gt]`, attribute filters, `sort` and `include`. Failures
+ * (401, 404, 422, 429, 500, ...) can be injected per tool or path.
+ *
+ * Point the MCP server at it with `CENTERPOINT_BASE_URL`, e.g. after
+ * `npm run dev-tools mock-server`.
+ */
+
+import { createServer as createHttpServer, type IncomingMessage, type ServerResponse, type Server as HttpServer } from 'http';
+import { type AddressInfo } from 'net';
+
+import { type OperationDefinition, operations } from './operations.js';
+
+export interface MockResource {
+  type: string;
+  id: string;
+  attributes: Record<string, any>;
+  relationships?: Record<string, { data: ResourceIdentifier | ResourceIdentifier[] | null }>;
+}
+
+export interface ResourceIdentifier {
+  type: string;
+  id: string;
+}
+
+/** A failure to serve instead of the normal response */
+export interface MockFailure {
+  status: number;
+  /** Only fail calls to this tool, e.g. `companiesGET` */
+  tool?: string;
+  /** Only fail requests for this path, e.g. `/companies/1` */
+  path?: string;
+  /** How many matching requests fail; defaults to 1 */
+  times?: number;
+  /** `Retry-After` header in seconds, for 429 and 503 */
+  retryAfter?: number;
+  /** Error detail; defaults to a description of the status */
+  detail?: string;
+}
+
+/** A request the mock received, for assertions in tests */
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  tool?: string;
+  body?: unknown;
+}
+
+export interface MockApiOptions {
+  /** Records to start from, keyed by collection path (e.g. `work_time_entries`); defaults to MOCK_FIXTURES */
+  fixtures?: Record<string, MockResource[]>;
+  /** Only accept this token; by default any bearer token is accepted */
+  token?: string;
+  /** Page size when `page[size]` is not given */
+  pageSize?: number;
+}
+
+interface Route {
+  tool: string;
+  operation: OperationDefinition;
+  pattern: RegExp;
+}
+
+type Target =
+  | { kind: 'collection'; collection: string }
+  | { kind: 'record'; collection: string; id: string }
+  | { kind: 'nested'; collection: string; parent: ResourceIdentifier };
+
+class MockApiError extends Error {
+  constructor(readonly status: number, detail: string, readonly headers: Record<string, string> = {}) {
+    super(detail);
+  }
+}
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const CONTROL_PATH = '/__mock';
+
+const STATUS_TITLES: Record<number, string> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  409: 'Conflict',
+  413: 'Payload Too Large',
+  422: 'Unprocessable Entity',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  501: 'Not Implemented',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+  504: 'Gateway Timeout',
+};
+
+const RANGE_OPERATORS = ['gt', 'gte', 'lt', 'lte'];
+
+const timestamps = (createdAt: string, updatedAt = createdAt) => ({ createdAt, updatedAt });
+const ref = (type: string, id: string) => ({ data: { type, id } });
+
+/** A small, related data set covering the main resources, using the values the tool schemas document */
+export const MOCK_FIXTURES: Record<string, MockResource[]> = {
+  companies: [
+    { type: 'companies', id: '1', attributes: { name: 'Acme Roofing', type: 'Corporate', salesStatus: 'Sold', isActive: true, email: 'office@acme.example', ...timestamps('2025-01-06T09:00:00Z', '2025-03-02T10:15:00Z') } },
+    { type: 'companies', id: '2', attributes: { name: 'Birch Property Management', type: 'Corporate', salesStatus: 'Lead', isActive: true, email: 'hello@birch.example', ...timestamps('2025-01-20T14:30:00Z', '2025-02-11T08:00:00Z') } },
+    { type: 'companies', id: '3', attributes: { name: 'Cedar Supply Co', type: 'Vendor', salesStatus: 'Client', isActive: false, email: 'orders@cedar.example', ...timestamps('2025-02-03T16:45:00Z') } },
+  ],
+  properties: [
+    { type: 'properties', id: '1', attributes: { name: 'Acme Warehouse', streetAddress: '100 Industrial Way', locality: 'Denver', region: 'CO', ...timestamps('2025-01-07T10:00:00Z', '2025-03-01T12:00:00Z') }, relationships: { company: ref('companies', '1') } },
+    { type: 'properties', id: '2', attributes: { name: 'Birch Plaza', streetAddress: '200 Main St', locality: 'Boulder', region: 'CO', ...timestamps('2025-01-21T09:30:00Z') }, relationships: { company: ref('companies', '2') } },
+    { type: 'properties', id: '3', attributes: { name: 'Birch Lofts', streetAddress: '210 Main St', locality: 'Boulder', region: 'CO', ...timestamps('2025-02-14T11:00:00Z') }, relationships: { company: ref('companies', '2') } },
+  ],
+  productions: [
+    { type: 'productions', id: '1', attributes: { name: 'Warehouse roof replacement', status: 'started', isArchived: false, ...timestamps('2025-02-01T08:00:00Z', '2025-03-03T15:00:00Z') }, relationships: { property: ref('properties', '1'), company: ref('companies', '1') } },
+    { type: 'productions', id: '2', attributes: { name: 'Plaza gutter repair', status: 'completed', isArchived: false, ...timestamps('2025-02-10T08:00:00Z', '2025-02-28T17:00:00Z') }, relationships: { property: ref('properties', '2'), company: ref('companies', '2') } },
+    { type: 'productions', id: '3', attributes: { name: 'Lofts inspection', status: 'scheduled', isArchived: false, ...timestamps('2025-02-20T08:00:00Z') }, relationships: { property: ref('properties', '3'), company: ref('companies', '2') } },
+  ],
+  employees: [
+    { type: 'employees', id: '1', attributes: { name: 'Dana Foreman', email: 'dana@acme.example', isActive: true, ...timestamps('2025-01-02T08:00:00Z') }, relationships: { company: ref('companies', '1') } },
+    { type: 'employees', id: '2', attributes: { name: 'Eli Installer', email: 'eli@acme.example', isActive: true, ...timestamps('2025-01-03T08:00:00Z') }, relationships: { company: ref('companies', '1') } },
+  ],
+  invoices: [
+    { type: 'invoices', id: '1', attributes: { name: 'INV-1001', amount: 12500, invoiceDate: '2025-03-01', dueDate: '2025-03-31', ...timestamps('2025-03-01T09:00:00Z') }, relationships: { production: ref('productions', '1') } },
+    { type: 'invoices', id: '2', attributes: { name: 'INV-1002', amount: 1800, invoiceDate: '2025-02-28', dueDate: '2025-03-30', ...timestamps('2025-02-28T18:00:00Z') }, relationships: { production: ref('productions', '2') } },
+  ],
+  work_time_entries: [
+    { type: 'workTimeEntries', id: '1', attributes: { inAt: '2025-03-03T07:00:00Z', outAt: '2025-03-03T15:30:00Z', ...timestamps('2025-03-03T15:30:00Z') }, relationships: { employee: ref('employees', '1'), production: ref('productions', '1') } },
+    { type: 'workTimeEntries', id: '2', attributes: { inAt: '2025-03-03T07:15:00Z', outAt: '2025-03-03T15:00:00Z', ...timestamps('2025-03-03T15:00:00Z') }, relationships: { employee: ref('employees', '2'), production: ref('productions', '1') } },
+  ],
+  tasks: [
+    { type: 'tasks', id: '1', attributes: { event: 'Call', description: 'Confirm start date', dueDate: '2025-03-05', completedAt: null, ...timestamps('2025-03-01T10:00:00Z') }, relationships: { property: ref('properties', '1'), toCompany: ref('companies', '1') } },
+    { type: 'tasks', id: '2', attributes: { event: 'Measure', description: 'Measure the lofts roof', dueDate: '2025-03-10', completedAt: null, ...timestamps('2025-03-02T10:00:00Z') }, relationships: { property: ref('properties', '3'), toCompany: ref('companies', '2') } },
+  ],
+};
+
+/**
+ * In-memory CenterPoint API serving the endpoints of the operation table
+ */
+export class MockCenterPointApi {
+  /** Every request received since the last reset, control requests excluded */
+  readonly requests: MockRequest[] = [];
+
+  private readonly routes: Route[];
+  private readonly pageSize: number;
+  private collections = new Map<string, Map<string, MockResource>>();
+  private failures: Array<MockFailure & { times: number }> = [];
+  private nextIds = new Map<string, number>();
+  private server?: HttpServer;
+
+  constructor(private readonly options: MockApiOptions = {}) {
+    this.routes = Object.entries(operations).map(([tool, operation]) => ({
+      tool,
+      operation,
+      pattern: new RegExp(`^${operation.pathTemplate.replace(/\{[^}]+\}/g, '([^/]+)')}$`),
+    }));
+    this.pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    this.reset();
+  }
+
+  /**
+   * Restores the fixtures and clears injected failures and the request log
+   */
+  reset(): void {
+    this.collections.clear();
+    this.nextIds.clear();
+    for (const [collection, records] of Object.entries(this.options.fixtures ?? MOCK_FIXTURES)) {
+      this.collections.set(collection, new Map(records.map(record => [record.id, structuredClone(record)])));
+    }
+    this.failures = [];
+    this.requests.length = 0;
+  }
+
+  /**
+   * Serves the given failure instead of the next matching request(s)
+   */
+  injectFailure(failure: MockFailure): void {
+    this.failures.push({ ...failure, times: failure.times ?? 1 });
+  }
+
+  clearFailures(): void {
+    this.failures = [];
+  }
+
+  /**
+   * Current records of a collection, e.g. `companies`
+   */
+  records(collection: string): MockResource[] {
+    return [...(this.collections.get(collection)?.values() ?? [])];
+  }
+
+  /**
+   * Handles one HTTP request, for use as a `http.createServer` listener
+   */
+  async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    const method = (req.method || 'GET').toUpperCase();
+    try {
+      const body = await readBody(req);
+      if (url.pathname.startsWith(CONTROL_PATH)) {
+        this.handleControl(method, url.pathname.slice(CONTROL_PATH.length), body, res);
+        return;
+      }
+
+      const request: MockRequest = { method, path: url.pathname, query: Object.fromEntries(url.searchParams) };
+      if (body !== undefined) request.body = body;
+      this.requests.push(request);
+
+      const route = this.findRoute(method, url.pathname);
+      request.tool = route?.tool;
+      this.checkFailures(route?.tool, url.pathname);
+      this.authenticate(req);
+      if (!route) {
+        throw new MockApiError(404, `No endpoint for ${method} ${url.pathname}`);
+      }
+
+      const { status, document } = this.dispatch(route, method, url, body);
+      if (document === undefined) {
+        res.writeHead(status);
+        res.end();
+      } else {
+        sendJson(res, status, document);
+      }
+    } catch (error: any) {
+      const status = error instanceof MockApiError ? error.status : 500;
+      const headers = error instanceof MockApiError ? error.headers : {};
+      sendJson(res, status, { errors: [{ status: String(status), title: STATUS_TITLES[status] ?? 'Error', detail: error.message }] }, headers);
+    }
+  }
+
+  /**
+   * Starts listening
+   * @returns The base URL to use as `CENTERPOINT_BASE_URL`
+   */
+  async listen(port = 0, host = '127.0.0.1'): Promise<string> {
+    const server = createHttpServer((req, res) => { void this.handleRequest(req, res); });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    return `http://${host}:${(server.address() as AddressInfo).port}`;
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    }
+  }
+
+  /**
+   * `POST /__mock/failures` injects a failure, `DELETE /__mock/failures`
+   * clears them, `POST /__mock/reset` restores the fixtures and
+   * `GET /__mock/requests` returns the request log
+   */
+  private handleControl(method: string, path: string, body: any, res: ServerResponse): void {
+    if (path === '/failures' && method === 'POST') {
+      if (typeof body?.status !== 'number') {
+        sendJson(res, 400, { error: 'Expected a JSON body with a numeric status' });
+        return;
+      }
+      this.injectFailure(body);
+      sendJson(res, 201, { failures: this.failures });
+    } else if (path === '/failures' && method === 'DELETE') {
+      this.clearFailures();
+      sendJson(res, 200, { failures: [] });
+    } else if (path === '/reset' && method === 'POST') {
+      this.reset();
+      sendJson(res, 200, { reset: true });
+    } else if (path === '/requests' && method === 'GET') {
+      sendJson(res, 200, { requests: this.requests });
+    } else {
+      sendJson(res, 404, { error: 'Not found' });
+    }
+  }
+
+  /**
+   * @returns The operation for the request, or undefined for unknown paths
+   * @throws A 405 if the path exists but not with this method
+   */
+  private findRoute(method: string, path: string): Route | undefined {
+    const matching = this.routes.filter(route => route.pattern.test(path));
+    if (matching.length === 0) {
+      return undefined;
+    }
+    const route = matching.find(candidate => candidate.operation.method === method);
+    if (!route) {
+      throw new MockApiError(405, `${method} is not supported on ${path}`);
+    }
+    return route;
+  }
+
+  private checkFailures(tool: string | undefined, path: string): void {
+    const failure = this.failures.find(candidate =>
+      (candidate.tool === undefined || candidate.tool === tool) && (candidate.path === undefined || candidate.path === path));
+    if (!failure) return;
+
+    if (--failure.times <= 0) {
+      this.failures.splice(this.failures.indexOf(failure), 1);
+    }
+    const headers: Record<string, string> = failure.retryAfter !== undefined ? { 'Retry-After': String(failure.retryAfter) } : {};
+    throw new MockApiError(failure.status, failure.detail ?? `Injected ${failure.status} response`, headers);
+  }
+
+  private authenticate(req: IncomingMessage): void {
+    const header = req.headers.authorization;
+    if (!header || !/^Bearer \S+/.test(header)) {
+      throw new MockApiError(401, 'Missing or malformed bearer token');
+    }
+    if (this.options.token !== undefined && header !== `Bearer ${this.options.token}`) {
+      throw new MockApiError(401, 'Invalid token');
+    }
+  }
+
+  private dispatch(route: Route, method: string, url: URL, body: any): { status: number; document?: unknown } {
+    const target = resolveTarget(route, url.pathname);
+    if (target.kind === 'record') {
+      const record = this.collection(target.collection).get(target.id);
+      if (!record) {
+        throw new MockApiError(404, `${typeName(target.collection)} ${target.id} not found`);
+      }
+      switch (method) {
+        case 'GET':
+          return { status: 200, document: this.document(record, url) };
+        case 'PATCH':
+          return { status: 200, document: this.document(this.update(record, body), url) };
+        case 'DELETE':
+          this.collection(target.collection).delete(target.id);
+          return { status: 204 };
+      }
+    } else if (method === 'GET') {
+      let records = this.records(target.collection);
+      if (target.kind === 'nested') {
+        records = records.filter(record => relatedIds(record, singular(target.parent.type)).includes(target.parent.id));
+      }
+      return { status: 200, document: this.list(records, url) };
+    } else if (method === 'POST') {
+      const parent = target.kind === 'nested' ? target.parent : undefined;
+      return { status: 201, document: this.document(this.create(target.collection, body, parent), url) };
+    }
+    throw new MockApiError(501, `The mock API does not implement ${method} ${route.operation.pathTemplate}`);
+  }
+
+  private collection(collection: string): Map<string, MockResource> {
+    let records = this.collections.get(collection);
+    if (!records) {
+      records = new Map();
+      this.collections.set(collection, records);
+    }
+    return records;
+  }
+
+  private create(collection: string, body: any, parent?: ResourceIdentifier): MockResource {
+    const data = requireResource(body, typeName(collection));
+    const records = this.collection(collection);
+    const id = data.id !== undefined ? String(data.id) : this.nextId(collection);
+    if (records.has(id)) {
+      throw new MockApiError(409, `${typeName(collection)} ${id} already exists`);
+    }
+    const now = new Date().toISOString();
+    const record: MockResource = {
+      type: typeName(collection),
+      id,
+      attributes: { ...data.attributes, createdAt: now, updatedAt: now },
+    };
+    const relationships: NonNullable<MockResource['relationships']> = { ...data.relationships };
+    if (parent) {
+      relationships[singular(parent.type)] = { data: { type: parent.type, id: parent.id } };
+    }
+    if (Object.keys(relationships).length > 0) {
+      record.relationships = relationships;
+    }
+    records.set(id, record);
+    return record;
+  }
+
+  private update(record: MockResource, body: any): MockResource {
+    const data = requireResource(body, record.type);
+    if (data.id !== undefined && String(data.id) !== record.id) {
+      throw new MockApiError(422, `Body id ${data.id} does not match ${record.id}`);
+    }
+    record.attributes = { ...record.attributes, ...data.attributes, updatedAt: new Date().toISOString() };
+    if (data.relationships) {
+      record.relationships = { ...record.relationships, ...data.relationships };
+    }
+    return record;
+  }
+
+  private nextId(collection: string): string {
+    const highest = Math.max(0, ...[...this.collection(collection).keys()].map(Number).filter(Number.isFinite));
+    const id = Math.max(highest, this.nextIds.get(collection) ?? 0) + 1;
+    this.nextIds.set(collection, id);
+    return String(id);
+  }
+
+  private document(record: MockResource, url: URL): Record<string, unknown> {
+    const included = this.included([record], url.searchParams.get('include'));
+    return { data: record, ...(included.length > 0 ? { included } : {}) };
+  }
+
+  private list(records: MockResource[], url: URL): Record<string, unknown> {
+    const query = url.searchParams;
+    const matching = sortRecords(filterRecords(records, query), query.get('sort'));
+    const size = positiveInteger(query.get('page[size]'), 'page[size]') ?? this.pageSize;
+    const number = positiveInteger(query.get('page[number]'), 'page[number]') ?? 1;
+    const totalPages = Math.max(1, Math.ceil(matching.length / size));
+    const data = matching.slice((number - 1) * size, number * size);
+
+    const pageLink = (page: number) => {
+      const link = new URL(url);
+      link.searchParams.set('page[number]', String(page));
+      link.searchParams.set('page[size]', String(size));
+      return link.toString();
+    };
+    const links: Record<string, string | null> = {
+      self: pageLink(number),
+      first: pageLink(1),
+      last: pageLink(totalPages),
+      prev: number > 1 ? pageLink(number - 1) : null,
+      next: number < totalPages ? pageLink(number + 1) : null,
+    };
+    const included = this.included(data, query.get('include'));
+    return {
+      data,
+      ...(included.length > 0 ? { included } : {}),
+      meta: { page: { number, size, total: matching.length, totalPages } },
+      links,
+    };
+  }
+
+  /**
+   * Resolves `include` paths such as `property,property.company`
+   */
+  private included(records: MockResource[], include: string | null): MockResource[] {
+    const found = new Map<string, MockResource>();
+    for (const path of (include ?? '').split(',').map(part => part.trim()).filter(Boolean)) {
+      let current = records;
+      for (const relationship of path.split('.')) {
+        current = current.flatMap(record => identifiers(record, relationship))
+          .map(identifier => this.find(identifier))
+          .filter((record): record is MockResource => record !== undefined);
+        for (const record of current) {
+          found.set(`${record.type}:${record.id}`, record);
+        }
+      }
+    }
+    return [...found.values()];
+  }
+
+  private find({ type, id }: ResourceIdentifier): MockResource | undefined {
+    for (const records of this.collections.values()) {
+      const record = records.get(id);
+      if (record?.type === type) return record;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Starts a mock API on the given port
+ * @returns The mock and the base URL to use as `CENTERPOINT_BASE_URL`
+ */
+export async function startMockApi(
+  options: MockApiOptions & { port?: number; host?: string } = {}
+): Promise<{ api: MockCenterPointApi; baseUrl: string }> {
+  const api = new MockCenterPointApi(options);
+  const baseUrl = await api.listen(options.port, options.host);
+  return { api, baseUrl };
+}
+
+function resolveTarget(route: Route, path: string): Target {
+  const values = route.pattern.exec(path)!.slice(1).map(decodeURIComponent);
+  const segments = route.operation.pathTemplate.split('/').filter(Boolean);
+  const last = segments[segments.length - 1];
+  if (last.startsWith('{')) {
+    return { kind: 'record', collection: segments.slice(0, -1).join('/'), id: values[values.length - 1] };
+  }
+  if (values.length > 0) {
+    return { kind: 'nested', collection: last, parent: { type: typeName(segments[0]), id: values[0] } };
+  }
+  return { kind: 'collection', collection: segments.join('/') };
+}
+
+/** JSON:API type of a collection, e.g. `work_time_entries` → `workTimeEntries` */
+function typeName(collection: string): string {
+  return collection.replace(/[/_](\w)/g, (_, letter: string) => letter.toUpperCase());
+}
+
+function singular(type: string): string {
+  return type.endsWith('ies') ? `${type.slice(0, -3)}y` : type.replace(/s$/, '');
+}
+
+function requireResource(body: any, type: string): { id?: unknown; attributes?: Record<string, any>; relationships?: MockResource['relationships'] } {
+  const data = body?.data;
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new MockApiError(422, 'Request body must be a JSON:API document with a data object');
+  }
+  if (data.type !== type) {
+    throw new MockApiError(422, `Expected data.type '${type}' but got ${JSON.stringify(data.type)}`);
+  }
+  if (data.attributes !== undefined && (typeof data.attributes !== 'object' || data.attributes === null)) {
+    throw new MockApiError(422, 'data.attributes must be an object');
+  }
+  return data;
+}
+
+function identifiers(record: MockResource, relationship: string): ResourceIdentifier[] {
+  const data = record.relationships?.[relationship]?.data;
+  return data ? ([] as ResourceIdentifier[]).concat(data) : [];
+}
+
+function relatedIds(record: MockResource, relationship: string): string[] {
+  return identifiers(record, relationship).map(identifier => identifier.id);
+}
+
+/**
+ * Reads a field for filtering and sorting: an attribute (also tried in
+ * camelCase, so `updated_at` finds `updatedAt`) or a relationship id
+ * (`companyId` and `company` both find the company relationship)
+ */
+function fieldValue(record: MockResource, field: string): unknown {
+  const camel = field.replace(/_(\w)/g, (_, letter: string) => letter.toUpperCase());
+  for (const name of [field, camel]) {
+    if (name in record.attributes) return record.attributes[name];
+  }
+  for (const name of [camel, camel.replace(/Id$/, '')]) {
+    if (record.relationships?.[name]) return relatedIds(record, name).join(',');
+  }
+  return undefined;
+}
+
+/**
+ * Applies `filter[search]`, range filters (`filter[x][gt]` etc.) and
+ * comma-separated equality filters. Filters on fields the records do not
+ * have are ignored, since the mock only holds a subset of the real fields.
+ */
+function filterRecords(records: MockResource[], query: URLSearchParams): MockResource[] {
+  let result = records;
+  for (const [key, value] of query) {
+    const match = /^filter\[([^\]]+)\](?:\[([^\]]+)\])?$/.exec(key);
+    if (!match) continue;
+    const [, field, operator] = match;
+
+    if (field === 'search' && !operator) {
+      const needle = value.toLowerCase();
+      result = result.filter(record => Object.values(record.attributes)
+        .some(attribute => typeof attribute === 'string' && attribute.toLowerCase().includes(needle)));
+    } else if (operator && RANGE_OPERATORS.includes(operator)) {
+      result = result.filter(record => {
+        const actual = fieldValue(record, field);
+        return actual === undefined || actual === null || compare(actual, value, operator);
+      });
+    } else if (!operator) {
+      const accepted = value.split(',');
+      result = result.filter(record => {
+        const actual = fieldValue(record, field);
+        return actual === undefined || accepted.includes(String(actual));
+      });
+    }
+  }
+  return result;
+}
+
+function compare(actual: unknown, expected: string, operator: string): boolean {
+  const order = typeof actual === 'number' && !Number.isNaN(Number(expected))
+    ? compareValues(actual, Number(expected))
+    : compareValues(String(actual), expected);
+  switch (operator) {
+    case 'gt': return order > 0;
+    case 'gte': return order >= 0;
+    case 'lt': return order < 0;
+    default: return order <= 0;
+  }
+}
+
+/**
+ * Sorts by a JSON:API `sort` list such as `-updatedAt,name`
+ */
+function sortRecords(records: MockResource[], sort: string | null): MockResource[] {
+  const keys = (sort ?? '').split(',').map(part => part.trim()).filter(Boolean);
+  if (keys.length === 0) return records;
+  return [...records].sort((a, b) => {
+    for (const key of keys) {
+      const field = key.replace(/^-/, '');
+      const direction = key.startsWith('-') ? -1 : 1;
+      const [left, right] = [fieldValue(a, field), fieldValue(b, field)];
+      if (left === right) continue;
+      if (left === undefined || left === null) return direction;
+      if (right === undefined || right === null) return -direction;
+      const order = typeof left === 'number' && typeof right === 'number'
+        ? compareValues(left, right)
+        : compareValues(String(left), String(right));
+      if (order !== 0) return order * direction;
+    }
+    return 0;
+  });
+}
+
+/** Plain ordering, so ISO dates and times compare chronologically */
+function compareValues<T extends string | number>(left: T, right: T): number {
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function positiveInteger(value: string | null, name: string): number | undefined {
+  if (value === null) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new MockApiError(400, `${name} must be a positive integer`);
+  }
+  return number;
+}
+
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new MockApiError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  const raw = Buffer.concat(chunks).toString('utf8');
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, payload: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(payload));
+}
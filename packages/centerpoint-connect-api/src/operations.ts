@@ -0,0 +1,998 @@
+/**
+ * Declarative operation table for the CenterPoint Connect API tools
+ *
+ * Each entry maps an MCP tool name (see `toolsList` in ./tools.ts) to the
+ * HTTP request it performs. The generic executor in ./executor.ts reads this
+ * table instead of carrying a hand-written handler per tool.
+ */
+
+export type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+
+export interface OperationDefinition {
+  /** HTTP method sent to CenterPoint */
+  method: HttpMethod;
+  /** Path relative to the API base URL, with `{PARAM}` placeholders */
+  pathTemplate: string;
+  /** Tool arguments substituted into the path template */
+  pathParams: string[];
+  /** Tool arguments forwarded as query string parameters */
+  queryParams: string[];
+  /** Content type of the `requestBody` argument, for operations that accept one */
+  bodyContentType?: string;
+  /**
+   * Overrides whether failed calls may be retried. Defaults to true for GET
+   * only; set it on a POST/PATCH/DELETE to opt in explicitly. DELETE is not
+   * retried by default because a retry after a delete that did go through
+   * answers 404 and would report the call as failed.
+   */
+  retry?: boolean;
+  /** Overrides the tool title derived from the method and path (see ./annotations.ts) */
+  title?: string;
+}
+
+const RETRYABLE_METHODS: HttpMethod[] = ['GET'];
+
+// --- Generated operations: edit openapi/overrides.json and run `npm run dev-tools generate-tools` ---
+export const operations: Record<string, OperationDefinition> = {
+  // GET /companies
+  'companiesGET': {
+    method: 'GET',
+    pathTemplate: '/companies',
+    pathParams: [],
+    queryParams: ['fields[companies]', 'fields[profiles]', 'fields[employees]', 'filter[type]', 'filter[manager]', 'filter[salesStatus]', 'filter[location]', 'filter[zipcodeRange][zipcode]', 'filter[zipcodeRange][range]', 'filter[custom.customerType]', 'filter[search]', 'include', 'filter[updated_at][gt]', 'filter[updated_at][lt]', 'page[size]', 'page[number]', 'sort'],
+  },
+  // POST /companies
+  'companiesPOST': {
+    method: 'POST',
+    pathTemplate: '/companies',
+    pathParams: [],
+    queryParams: ['fields[companies]', 'fields[profiles]', 'fields[employees]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /companies/{COMPANY_ID}
+  'companies/{COMPANY_ID}GET': {
+    method: 'GET',
+    pathTemplate: '/companies/{COMPANY_ID}',
+    pathParams: ['COMPANY_ID'],
+    queryParams: ['fields[companies]', 'fields[profiles]', 'fields[employees]', 'include'],
+  },
+  // DELETE /companies/{COMPANY_ID}
+  'companies/{COMPANY_ID}DELETE': {
+    method: 'DELETE',
+    pathTemplate: '/companies/{COMPANY_ID}',
+    pathParams: ['COMPANY_ID'],
+    queryParams: [],
+  },
+  // PATCH /companies/{COMPANY_ID}
+  'companies/{COMPANY_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/companies/{COMPANY_ID}',
+    pathParams: ['COMPANY_ID'],
+    queryParams: ['fields[companies]', 'fields[profiles]', 'fields[employees]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /cost_codes
+  'cost_codesGET': {
+    method: 'GET',
+    pathTemplate: '/cost_codes',
+    pathParams: [],
+    queryParams: ['filter[updated_at][gt]', 'filter[updated_at][lt]', 'include', 'page[size]', 'page[number]', 'sort'],
+  },
+  // POST /cost_codes
+  'cost_codesPOST': {
+    method: 'POST',
+    pathTemplate: '/cost_codes',
+    pathParams: [],
+    queryParams: ['include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /cost_codes/{COST_CODE_ID}
+  'cost_codes/{COST_CODE_ID}GET': {
+    method: 'GET',
+    pathTemplate: '/cost_codes/{COST_CODE_ID}',
+    pathParams: ['COST_CODE_ID'],
+    queryParams: ['include'],
+  },
+  // DELETE /cost_codes/{COST_CODE_ID}
+  'cost_codes/{COST_CODE_ID}DELETE': {
+    method: 'DELETE',
+    pathTemplate: '/cost_codes/{COST_CODE_ID}',
+    pathParams: ['COST_CODE_ID'],
+    queryParams: [],
+  },
+  // PATCH /cost_codes/{COST_CODE_ID}
+  'cost_codes/{COST_CODE_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/cost_codes/{COST_CODE_ID}',
+    pathParams: ['COST_CODE_ID'],
+    queryParams: ['include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /employees
+  'employeesGET': {
+    method: 'GET',
+    pathTemplate: '/employees',
+    pathParams: [],
+    queryParams: ['fields[profiles]', 'fields[workTimeEntries]', 'fields[employees]', 'fields[productions]', 'filter[companyId]', 'filter[isActive]', 'filter[search]', 'filter[updated_at][gt]', 'filter[updated_at][lt]', 'include', 'page[size]', 'page[number]', 'sort'],
+  },
+  // POST /employees
+  'employeesPOST': {
+    method: 'POST',
+    pathTemplate: '/employees',
+    pathParams: [],
+    queryParams: ['fields[profiles]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /employees/{EMPLOYEE_ID}
+  'employees/{EMPLOYEE_ID}GET': {
+    method: 'GET',
+    pathTemplate: '/employees/{EMPLOYEE_ID}',
+    pathParams: ['EMPLOYEE_ID'],
+    queryParams: ['fields[profiles]', 'include'],
+  },
+  // DELETE /employees/{EMPLOYEE_ID}
+  'employees/{EMPLOYEE_ID}DELETE': {
+    method: 'DELETE',
+    pathTemplate: '/employees/{EMPLOYEE_ID}',
+    pathParams: ['EMPLOYEE_ID'],
+    queryParams: [],
+  },
+  // PATCH /employees/{EMPLOYEE_ID}
+  'employees/{EMPLOYEE_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/employees/{EMPLOYEE_ID}',
+    pathParams: ['EMPLOYEE_ID'],
+    queryParams: ['fields[profiles]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /invoices
+  'invoicesGET': {
+    method: 'GET',
+    pathTemplate: '/invoices',
+    pathParams: [],
+    queryParams: ['fields[productions]', 'fields[properties]', 'fields[companies]', 'fields[employees]', 'fields[profiles]', 'filter[lastSentAt]', 'filter[productionDomain]', 'filter[productionWorkProfileId]', 'filter[productionTruckId]', 'filter[invoiceType]', 'filter[productionAccountManager]', 'filter[productionArchived]', 'filter[hasBeenInvoiced]', 'filter[updated_at][gt]', 'filter[updated_at][lt]', 'aggregates[subtotal][0]', 'aggregates[amount][0]', 'aggregates[margin][0]', 'aggregates[cost][0]', 'include', 'sort', 'page[size]', 'page[number]'],
+  },
+  // POST /invoices
+  'invoicesPOST': {
+    method: 'POST',
+    pathTemplate: '/invoices',
+    pathParams: [],
+    queryParams: [],
+    bodyContentType: 'application/json',
+  },
+  // GET /invoices/{INVOICE_ID}
+  'invoices/{INVOICE_ID}GET': {
+    method: 'GET',
+    pathTemplate: '/invoices/{INVOICE_ID}',
+    pathParams: ['INVOICE_ID'],
+    queryParams: ['fields[transactions]', 'fields[productionDays]', 'fields[products]', 'include'],
+  },
+  // PATCH /invoices/{INVOICE_ID}
+  'invoices/{INVOICE_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/invoices/{INVOICE_ID}',
+    pathParams: ['INVOICE_ID'],
+    queryParams: ['fields[transactions]', 'fields[productionDays]', 'fields[products]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /materials
+  'materialsGET': {
+    method: 'GET',
+    pathTemplate: '/materials',
+    pathParams: [],
+    queryParams: ['fields[materials]', 'filter[isChild]', 'filter[manufacturer]', 'filter[updated_at][gt]', 'filter[updated_at][lt]', 'include', 'page[size]', 'page[number]', 'sort'],
+  },
+  // POST /materials
+  'materialsPOST': {
+    method: 'POST',
+    pathTemplate: '/materials',
+    pathParams: [],
+    queryParams: ['include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /materials/{MATERIAL_ID}
+  'materials/{MATERIAL_ID}GET': {
+    method: 'GET',
+    pathTemplate: '/materials/{MATERIAL_ID}',
+    pathParams: ['MATERIAL_ID'],
+    queryParams: ['include'],
+  },
+  // DELETE /materials/{MATERIAL_ID}
+  'materials/{MATERIAL_ID}DELETE': {
+    method: 'DELETE',
+    pathTemplate: '/materials/{MATERIAL_ID}',
+    pathParams: ['MATERIAL_ID'],
+    queryParams: [],
+  },
+  // PATCH /materials/{MATERIAL_ID}
+  'materials/{MATERIAL_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/materials/{MATERIAL_ID}',
+    pathParams: ['MATERIAL_ID'],
+    queryParams: ['include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /opportunities
+  'opportunitiesGET': {
+    method: 'GET',
+    pathTemplate: '/opportunities',
+    pathParams: [],
+    queryParams: ['fields[productions]', 'fields[properties]', 'fields[companies]', 'fields[profiles]', 'fields[employees]', 'fields[leadTypes]', 'fields[workflowStages]', 'fields[buildingDivisions]', 'filter[latestStageTransitionedAt]', 'filter[salesProfile]', 'filter[opportunityType]', 'filter[isArchived]', 'filter[forecastedAt]', 'filter[status]', 'filter[workflowStageId]', 'filter[leadType]', 'filter[custom.division]', 'filter[search]', 'filter[isOpportunity]', 'reports[0]', 'reports[1]', 'reports[2]', 'include', 'page[size]', 'page[number]', 'sort'],
+  },
+  // POST /opportunities
+  'opportunitiesPOST': {
+    method: 'POST',
+    pathTemplate: '/opportunities',
+    pathParams: [],
+    queryParams: ['fields[productions]', 'fields[companies]', 'fields[documents]', 'fields[employees]', 'fields[profiles]', 'fields[buildingDivisions]', 'fields[properties]', 'fields[primaryProposal]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /opportunities/{OPPORTUNITY_ID}
+  'opportunities/{OPPORTUNITY_ID}GET': {
+    method: 'GET',
+    pathTemplate: '/opportunities/{OPPORTUNITY_ID}',
+    pathParams: ['OPPORTUNITY_ID'],
+    queryParams: ['fields[productions]', 'fields[companies]', 'fields[documents]', 'fields[employees]', 'fields[profiles]', 'fields[buildingDivisions]', 'fields[properties]', 'fields[primaryProposal]', 'include'],
+  },
+  // DELETE /opportunities/{OPPORTUNITY_ID}
+  'opportunities/{OPPORTUNITY_ID}DELETE': {
+    method: 'DELETE',
+    pathTemplate: '/opportunities/{OPPORTUNITY_ID}',
+    pathParams: ['OPPORTUNITY_ID'],
+    queryParams: [],
+  },
+  // PATCH /opportunities/{OPPORTUNITY_ID}
+  'opportunities/{OPPORTUNITY_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/opportunities/{OPPORTUNITY_ID}',
+    pathParams: ['OPPORTUNITY_ID'],
+    queryParams: ['fields[productions]', 'fields[companies]', 'fields[documents]', 'fields[employees]', 'fields[profiles]', 'fields[buildingDivisions]', 'fields[properties]', 'fields[primaryProposal]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /product_templates
+  'product_templatesGET': {
+    method: 'GET',
+    pathTemplate: '/product_templates',
+    pathParams: [],
+    queryParams: ['filter[domain]', 'filter[updated_at][gt]', 'filter[updated_at][lt]', 'include', 'page[size]', 'page[number]', 'sort'],
+  },
+  // POST /product_templates
+  'product_templatesPOST': {
+    method: 'POST',
+    pathTemplate: '/product_templates',
+    pathParams: [],
+    queryParams: ['include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /product_templates/{PRODUCT_TEMPLATE_ID}
+  'product_templates/{PRODUCT_TEMPLATE_ID}GET': {
+    method: 'GET',
+    pathTemplate: '/product_templates/{PRODUCT_TEMPLATE_ID}',
+    pathParams: ['PRODUCT_TEMPLATE_ID'],
+    queryParams: ['include'],
+  },
+  // DELETE /product_templates/{PRODUCT_TEMPLATE_ID}
+  'product_templates/{PRODUCT_TEMPLATE_ID}DELETE': {
+    method: 'DELETE',
+    pathTemplate: '/product_templates/{PRODUCT_TEMPLATE_ID}',
+    pathParams: ['PRODUCT_TEMPLATE_ID'],
+    queryParams: [],
+  },
+  // PATCH /product_templates/{PRODUCT_TEMPLATE_ID}
+  'product_templates/{PRODUCT_TEMPLATE_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/product_templates/{PRODUCT_TEMPLATE_ID}',
+    pathParams: ['PRODUCT_TEMPLATE_ID'],
+    queryParams: ['include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /production_materials
+  'production_materialsGET': {
+    method: 'GET',
+    pathTemplate: '/production_materials',
+    pathParams: [],
+    queryParams: ['fields[productionMaterials]', 'fields[productions]', 'fields[companies]', 'fields[materials]', 'filter[createdAt][gt]', 'filter[createdAt][lt]', 'filter[createdAt][timezone]', 'include', 'page[size]', 'page[number]', 'sort'],
+  },
+  // POST /production_materials
+  'production_materialsPOST': {
+    method: 'POST',
+    pathTemplate: '/production_materials',
+    pathParams: [],
+    queryParams: ['fields[productionMaterials]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // DELETE /production_materials/{PRODUCTION_MATERIAL_ID}
+  'production_materials/{PRODUCTION_MATERIAL_ID}DELETE': {
+    method: 'DELETE',
+    pathTemplate: '/production_materials/{PRODUCTION_MATERIAL_ID}',
+    pathParams: ['PRODUCTION_MATERIAL_ID'],
+    queryParams: [],
+  },
+  // PATCH /production_materials/{PRODUCTION_MATERIAL_ID}
+  'production_materials/{PRODUCTION_MATERIAL_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/production_materials/{PRODUCTION_MATERIAL_ID}',
+    pathParams: ['PRODUCTION_MATERIAL_ID'],
+    queryParams: ['fields[productionMaterials]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /productions
+  'productionsGET': {
+    method: 'GET',
+    pathTemplate: '/productions',
+    pathParams: [],
+    queryParams: ['fields[productions]', 'fields[properties]', 'fields[buildingDivisions]', 'fields[companies]', 'fields[profiles]', 'fields[employees]', 'fields[locations]', 'fields[subcontractorProfiles]', 'fields[workflowStages]', 'filter[latestStageTransitionedAt]', 'filter[location]', 'filter[isArchived]', 'filter[domain]', 'filter[worker]', 'filter[status]', 'filter[workflowStageId]', 'filter[search]', 'filter[updated_at][gt]', 'filter[updated_at][lt]', 'include', 'page[size]', 'page[number]', 'sort'],
+  },
+  // GET /productions/{PRODUCTION_ID}
+  'productions/{PRODUCTION_ID}GET': {
+    method: 'GET',
+    pathTemplate: '/productions/{PRODUCTION_ID}',
+    pathParams: ['PRODUCTION_ID'],
+    queryParams: ['fields[companies]', 'fields[employees]', 'fields[profiles]', 'fields[productionDays]', 'fields[properties]', 'include'],
+  },
+  // DELETE /productions/{PRODUCTION_ID}
+  'productions/{PRODUCTION_ID}DELETE': {
+    method: 'DELETE',
+    pathTemplate: '/productions/{PRODUCTION_ID}',
+    pathParams: ['PRODUCTION_ID'],
+    queryParams: [],
+  },
+  // PATCH /productions/{PRODUCTION_ID}
+  'productions/{PRODUCTION_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/productions/{PRODUCTION_ID}',
+    pathParams: ['PRODUCTION_ID'],
+    queryParams: ['fields[companies]', 'fields[employees]', 'fields[profiles]', 'fields[productionDays]', 'fields[properties]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /productions/{PRODUCTION_ID}/production_materials
+  'productions/{PRODUCTION_ID}/production_materialsGET': {
+    method: 'GET',
+    pathTemplate: '/productions/{PRODUCTION_ID}/production_materials',
+    pathParams: ['PRODUCTION_ID'],
+    queryParams: ['page[size]', 'page[number]', 'sort'],
+  },
+  // GET /productions/{PRODUCTION_ID}/purchase_orders
+  'productions/{PRODUCTION_ID}/purchase_ordersGET': {
+    method: 'GET',
+    pathTemplate: '/productions/{PRODUCTION_ID}/purchase_orders',
+    pathParams: ['PRODUCTION_ID'],
+    queryParams: ['fields[profiles]', 'fields[employees]', 'page[size]', 'page[number]', 'sort', 'include'],
+  },
+  // GET /profiles
+  'profilesGET': {
+    method: 'GET',
+    pathTemplate: '/profiles',
+    pathParams: [],
+    queryParams: ['fields[profiles]', 'fields[companies]', 'filter[company.type]', 'filter[company.saleStatus]', 'filter[company.managerId]', 'include', 'filter[updated_at][gt]', 'filter[updated_at][lt]', 'page[size]', 'page[number]', 'sort'],
+  },
+  // POST /profiles
+  'profilesPOST': {
+    method: 'POST',
+    pathTemplate: '/profiles',
+    pathParams: [],
+    queryParams: ['fields[companies]', 'fields[properties]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /profiles/{PROFILE_ID}
+  'profiles/{PROFILE_ID}GET': {
+    method: 'GET',
+    pathTemplate: '/profiles/{PROFILE_ID}',
+    pathParams: ['PROFILE_ID'],
+    queryParams: ['fields[companies]', 'fields[properties]', 'include'],
+  },
+  // DELETE /profiles/{PROFILE_ID}
+  'profiles/{PROFILE_ID}DELETE': {
+    method: 'DELETE',
+    pathTemplate: '/profiles/{PROFILE_ID}',
+    pathParams: ['PROFILE_ID'],
+    queryParams: [],
+  },
+  // PATCH /profiles/{PROFILE_ID}
+  'profiles/{PROFILE_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/profiles/{PROFILE_ID}',
+    pathParams: ['PROFILE_ID'],
+    queryParams: ['fields[companies]', 'fields[properties]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /properties
+  'propertiesGET': {
+    method: 'GET',
+    pathTemplate: '/properties',
+    pathParams: [],
+    queryParams: ['fields[properties]', 'fields[profiles]', 'fields[companies]', 'fields[locations]', 'filter[type]', 'filter[location]', 'filter[roofSize]', 'filter[search]', 'filter[updated_at][gt]', 'filter[updated_at][lt]', 'include', 'page[size]', 'page[number]', 'sort'],
+  },
+  // POST /properties
+  'propertiesPOST': {
+    method: 'POST',
+    pathTemplate: '/properties',
+    pathParams: [],
+    queryParams: ['fields[properties]', 'fields[profiles]', 'fields[employees]', 'fields[companies]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /properties/{PROPERTY_ID}
+  'properties/{PROPERTY_ID}GET': {
+    method: 'GET',
+    pathTemplate: '/properties/{PROPERTY_ID}',
+    pathParams: ['PROPERTY_ID'],
+    queryParams: ['fields[properties]', 'fields[profiles]', 'fields[employees]', 'fields[companies]', 'include'],
+  },
+  // DELETE /properties/{PROPERTY_ID}
+  'properties/{PROPERTY_ID}DELETE': {
+    method: 'DELETE',
+    pathTemplate: '/properties/{PROPERTY_ID}',
+    pathParams: ['PROPERTY_ID'],
+    queryParams: [],
+  },
+  // PATCH /properties/{PROPERTY_ID}
+  'properties/{PROPERTY_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/properties/{PROPERTY_ID}',
+    pathParams: ['PROPERTY_ID'],
+    queryParams: ['fields[properties]', 'fields[profiles]', 'fields[employees]', 'fields[companies]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /purchase_orders
+  'purchase_ordersGET': {
+    method: 'GET',
+    pathTemplate: '/purchase_orders',
+    pathParams: [],
+    queryParams: ['filter[productionDomain]', 'filter[workDate][gt]', 'filter[workDate][lt]', 'filter[workDate][timezone]', 'filter[updated_at][gt]', 'filter[updated_at][lt]', 'include', 'page[size]', 'page[number]', 'sort'],
+  },
+  // POST /purchase_orders
+  'purchase_ordersPOST': {
+    method: 'POST',
+    pathTemplate: '/purchase_orders',
+    pathParams: [],
+    queryParams: ['fields[profiles]', 'fields[employees]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // DELETE /purchase_orders/{PURCHASE_ORDER_ID}
+  'purchase_orders/{PURCHASE_ORDER_ID}DELETE': {
+    method: 'DELETE',
+    pathTemplate: '/purchase_orders/{PURCHASE_ORDER_ID}',
+    pathParams: ['PURCHASE_ORDER_ID'],
+    queryParams: [],
+  },
+  // PATCH /purchase_orders/{PURCHASE_ORDER_ID}
+  'purchase_orders/{PURCHASE_ORDER_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/purchase_orders/{PURCHASE_ORDER_ID}',
+    pathParams: ['PURCHASE_ORDER_ID'],
+    queryParams: ['fields[profiles]', 'fields[employees]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /services
+  'servicesGET': {
+    method: 'GET',
+    pathTemplate: '/services',
+    pathParams: [],
+    queryParams: ['fields[productions]', 'fields[properties]', 'fields[buildingDivisions]', 'fields[companies]', 'fields[profiles]', 'fields[employees]', 'fields[locations]', 'fields[subcontractorProfiles]', 'fields[workflowStages]', 'filter[latestStageTransitionedAt]', 'filter[isArchived]', 'filter[domain]', 'filter[isHeld]', 'filter[workflowStageId]', 'filter[workType]', 'filter[managerId]', 'filter[worker]', 'filter[location]', 'filter[custom.division]', 'filter[search]', 'include', 'page[size]', 'page[number]', 'sort'],
+  },
+  // POST /services
+  'servicesPOST': {
+    method: 'POST',
+    pathTemplate: '/services',
+    pathParams: [],
+    queryParams: ['fields[productions]', 'fields[companies]', 'fields[properties]', 'fields[invoices]', 'fields[buildingDivisions]', 'fields[relatedProductions]', 'fields[productTemplateTags]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /services/{SERVICE_ID}
+  'services/{SERVICE_ID}GET': {
+    method: 'GET',
+    pathTemplate: '/services/{SERVICE_ID}',
+    pathParams: ['SERVICE_ID'],
+    queryParams: ['fields[productions]', 'fields[companies]', 'fields[documents]', 'fields[employees]', 'fields[profiles]', 'fields[buildingDivisions]', 'fields[properties]', 'fields[primaryProposal]', 'include'],
+  },
+  // DELETE /services/{SERVICE_ID}
+  'services/{SERVICE_ID}DELETE': {
+    method: 'DELETE',
+    pathTemplate: '/services/{SERVICE_ID}',
+    pathParams: ['SERVICE_ID'],
+    queryParams: [],
+  },
+  // PATCH /services/{SERVICE_ID}
+  'services/{SERVICE_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/services/{SERVICE_ID}',
+    pathParams: ['SERVICE_ID'],
+    queryParams: ['fields[productions]', 'fields[companies]', 'fields[properties]', 'fields[invoices]', 'fields[buildingDivisions]', 'fields[relatedProductions]', 'fields[productTemplateTags]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /tax_codes
+  'tax_codesGET': {
+    method: 'GET',
+    pathTemplate: '/tax_codes',
+    pathParams: [],
+    queryParams: ['filter[updated_at][gt]', 'filter[updated_at][lt]', 'page[size]', 'page[number]', 'sort'],
+  },
+  // POST /tax_codes
+  'tax_codesPOST': {
+    method: 'POST',
+    pathTemplate: '/tax_codes',
+    pathParams: [],
+    queryParams: [],
+    bodyContentType: 'application/json',
+  },
+  // GET /tax_codes/{TAX_CODE_ID}
+  'tax_codes/{TAX_CODE_ID}GET': {
+    method: 'GET',
+    pathTemplate: '/tax_codes/{TAX_CODE_ID}',
+    pathParams: ['TAX_CODE_ID'],
+    queryParams: [],
+  },
+  // DELETE /tax_codes/{TAX_CODE_ID}
+  'tax_codes/{TAX_CODE_ID}DELETE': {
+    method: 'DELETE',
+    pathTemplate: '/tax_codes/{TAX_CODE_ID}',
+    pathParams: ['TAX_CODE_ID'],
+    queryParams: [],
+  },
+  // PATCH /tax_codes/{TAX_CODE_ID}
+  'tax_codes/{TAX_CODE_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/tax_codes/{TAX_CODE_ID}',
+    pathParams: ['TAX_CODE_ID'],
+    queryParams: [],
+    bodyContentType: 'application/json',
+  },
+  // GET /work_time_entries
+  'work_time_entriesGET': {
+    method: 'GET',
+    pathTemplate: '/work_time_entries',
+    pathParams: [],
+    queryParams: ['fields[workTimeEntries]', 'fields[profiles]', 'fields[employees]', 'fields[productions]', 'filter[inAt][gt]', 'filter[inAt][lt]', 'filter[inAt][timezone]', 'filter[updated_at][gt]', 'filter[updated_at][lt]', 'filter[isTimekeeping]', 'include', 'page[size]', 'page[number]', 'sort'],
+  },
+  // POST /work_time_entries
+  'work_time_entriesPOST': {
+    method: 'POST',
+    pathTemplate: '/work_time_entries',
+    pathParams: [],
+    queryParams: ['fields[employees]', 'fields[profiles]', 'fields[productions]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /work_time_entries/{WORK_TIME_ENTRIES_ID}
+  'work_time_entries/{WORK_TIME_ENTRIES_ID}GET': {
+    method: 'GET',
+    pathTemplate: '/work_time_entries/{WORK_TIME_ENTRIES_ID}',
+    pathParams: ['WORK_TIME_ENTRIES_ID'],
+    queryParams: ['fields[employees]', 'fields[profiles]', 'fields[productions]', 'include'],
+  },
+  // DELETE /work_time_entries/{WORK_TIME_ENTRIES_ID}
+  'work_time_entries/{WORK_TIME_ENTRIES_ID}DELETE': {
+    method: 'DELETE',
+    pathTemplate: '/work_time_entries/{WORK_TIME_ENTRIES_ID}',
+    pathParams: ['WORK_TIME_ENTRIES_ID'],
+    queryParams: [],
+  },
+  // PATCH /work_time_entries/{WORK_TIME_ENTRIES_ID}
+  'work_time_entries/{WORK_TIME_ENTRIES_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/work_time_entries/{WORK_TIME_ENTRIES_ID}',
+    pathParams: ['WORK_TIME_ENTRIES_ID'],
+    queryParams: ['fields[employees]', 'fields[profiles]', 'fields[productions]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /tasks
+  'tasksGET': {
+    method: 'GET',
+    pathTemplate: '/tasks',
+    pathParams: [],
+    queryParams: ['fields[tasks]', 'fields[companies]', 'fields[properties]', 'fields[productions]', 'filter[dueDate][gt]', 'filter[dueDate][lt]', 'filter[dueDate][timezone]', 'filter[updated_at][gt]', 'filter[updated_at][lt]', 'filter[internalProfileId]', 'filter[isCompleted]', 'include', 'page[size]', 'page[number]', 'sort'],
+  },
+  // POST /tasks
+  'tasksPOST': {
+    method: 'POST',
+    pathTemplate: '/tasks',
+    pathParams: [],
+    queryParams: ['fields[profiles]', 'fields[employees]', 'fields[companies]', 'fields[properties]', 'fields[productions]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /tasks/{TASK_ID}
+  'tasks/{TASK_ID}GET': {
+    method: 'GET',
+    pathTemplate: '/tasks/{TASK_ID}',
+    pathParams: ['TASK_ID'],
+    queryParams: ['fields[profiles]', 'fields[employees]', 'fields[companies]', 'fields[properties]', 'fields[productions]', 'include'],
+  },
+  // PATCH /tasks/{TASK_ID}
+  'tasks/{TASK_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/tasks/{TASK_ID}',
+    pathParams: ['TASK_ID'],
+    queryParams: ['fields[profiles]', 'fields[employees]', 'fields[companies]', 'fields[properties]', 'fields[productions]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /production_days
+  'production_daysGET': {
+    method: 'GET',
+    pathTemplate: '/production_days',
+    pathParams: [],
+    queryParams: ['fields[productions]', 'fields[companies]', 'fields[properties]', 'filter[workDate][gt]', 'filter[workDate][lt]', 'filter[workDate][timezone]', 'filter[updated_at][gt]', 'filter[updated_at][lt]', 'include', 'page[size]', 'page[number]', 'sort'],
+  },
+  // POST /production_days
+  'production_daysPOST': {
+    method: 'POST',
+    pathTemplate: '/production_days',
+    pathParams: [],
+    queryParams: ['fields[productions]', 'fields[divisions]', 'fields[assignedProductionTaskCategories]', 'fields[productionDays]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /production_days/{PRODUCTION_DAYS_ID}
+  'production_days/{PRODUCTION_DAYS_ID}GET': {
+    method: 'GET',
+    pathTemplate: '/production_days/{PRODUCTION_DAYS_ID}',
+    pathParams: ['PRODUCTION_DAYS_ID'],
+    queryParams: ['fields[productions]', 'fields[divisions]', 'fields[assignedProductionTaskCategories]', 'fields[productionDays]', 'include'],
+  },
+  // PATCH /production_days/{PRODUCTION_DAYS_ID}
+  'production_days/{PRODUCTION_DAYS_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/production_days/{PRODUCTION_DAYS_ID}',
+    pathParams: ['PRODUCTION_DAYS_ID'],
+    queryParams: ['fields[productions]', 'fields[divisions]', 'fields[assignedProductionTaskCategories]', 'fields[productionDays]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /production_items
+  'production_itemsGET': {
+    method: 'GET',
+    pathTemplate: '/production_items',
+    pathParams: [],
+    queryParams: ['filter[production]', 'filter[productionOnly]', 'filter[updated_at][gt]', 'filter[updated_at][lt]', 'reports[0]', 'reports[1]', 'reports[2]', 'reports[3]', 'include', 'page[size]', 'page[number]', 'sort'],
+  },
+  // POST /production_items
+  'production_itemsPOST': {
+    method: 'POST',
+    pathTemplate: '/production_items',
+    pathParams: [],
+    queryParams: ['include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /production_items/{PRODUCTION_ITEM_ID}
+  'production_items/{PRODUCTION_ITEM_ID}GET': {
+    method: 'GET',
+    pathTemplate: '/production_items/{PRODUCTION_ITEM_ID}',
+    pathParams: ['PRODUCTION_ITEM_ID'],
+    queryParams: ['include'],
+  },
+  // PATCH /production_items/{PRODUCTION_ITEM_ID}
+  'production_items/{PRODUCTION_ITEM_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/production_items/{PRODUCTION_ITEM_ID}',
+    pathParams: ['PRODUCTION_ITEM_ID'],
+    queryParams: ['include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /budget_types
+  'budget_typesGET': {
+    method: 'GET',
+    pathTemplate: '/budget_types',
+    pathParams: [],
+    queryParams: ['filter[updated_at][gt]', 'filter[updated_at][lt]', 'page[size]', 'page[number]', 'sort'],
+  },
+  // POST /budget_types
+  'budget_typesPOST': {
+    method: 'POST',
+    pathTemplate: '/budget_types',
+    pathParams: [],
+    queryParams: [],
+    bodyContentType: 'application/json',
+  },
+  // GET /budget_types/{BUDGET_TYPE_ID}
+  'budget_types/{BUDGET_TYPE_ID}GET': {
+    method: 'GET',
+    pathTemplate: '/budget_types/{BUDGET_TYPE_ID}',
+    pathParams: ['BUDGET_TYPE_ID'],
+    queryParams: [],
+  },
+  // PATCH /budget_types/{BUDGET_TYPE_ID}
+  'budget_types/{BUDGET_TYPE_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/budget_types/{BUDGET_TYPE_ID}',
+    pathParams: ['BUDGET_TYPE_ID'],
+    queryParams: [],
+    bodyContentType: 'application/json',
+  },
+  // GET /budget
+  'budgetGET': {
+    method: 'GET',
+    pathTemplate: '/budget',
+    pathParams: [],
+    queryParams: ['filter[productionId]', 'filter[updated_at][gt]', 'filter[updated_at][lt]', 'page[size]', 'page[number]'],
+  },
+  // GET /service_agreements
+  'service_agreementsGET': {
+    method: 'GET',
+    pathTemplate: '/service_agreements',
+    pathParams: [],
+    queryParams: ['fields[properties]', 'fields[buildings]', 'fields[companies]', 'fields[profiles]', 'fields[employees]', 'filter[isTerminated]', 'filter[nextInspectionDate][gt]', 'filter[nextInspectionDate][lt]', 'filter[updated_at][gt]', 'filter[updated_at][lt]', 'filter[search]', 'include', 'page[size]', 'page[number]', 'sort'],
+  },
+  // POST /service_agreements
+  'service_agreementsPOST': {
+    method: 'POST',
+    pathTemplate: '/service_agreements',
+    pathParams: [],
+    queryParams: ['fields[companies]', 'fields[properties]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /service_agreements/{SERVICE_AGREEMENT_ID}
+  'service_agreements/{SERVICE_AGREEMENT_ID}GET': {
+    method: 'GET',
+    pathTemplate: '/service_agreements/{SERVICE_AGREEMENT_ID}',
+    pathParams: ['SERVICE_AGREEMENT_ID'],
+    queryParams: ['fields[companies]', 'fields[properties]', 'include'],
+  },
+  // PATCH /service_agreements/{SERVICE_AGREEMENT_ID}
+  'service_agreements/{SERVICE_AGREEMENT_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/service_agreements/{SERVICE_AGREEMENT_ID}',
+    pathParams: ['SERVICE_AGREEMENT_ID'],
+    queryParams: ['fields[companies]', 'fields[properties]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /products
+  'productsGET': {
+    method: 'GET',
+    pathTemplate: '/products',
+    pathParams: [],
+    queryParams: ['fields[production]', 'fields[files]', 'fields[products]', 'filter[productionId]', 'filter[updated_at][gt]', 'filter[updated_at][lt]', 'include', 'page[size]', 'page[number]'],
+  },
+  // POST /products
+  'productsPOST': {
+    method: 'POST',
+    pathTemplate: '/products',
+    pathParams: [],
+    queryParams: ['fields[products]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /products/{PRODUCT_ID}
+  'products/{PRODUCT_ID}GET': {
+    method: 'GET',
+    pathTemplate: '/products/{PRODUCT_ID}',
+    pathParams: ['PRODUCT_ID'],
+    queryParams: ['fields[productions]', 'fields[products]', 'fields[properties]', 'include'],
+  },
+  // PATCH /products/{PRODUCT_ID}
+  'products/{PRODUCT_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/products/{PRODUCT_ID}',
+    pathParams: ['PRODUCT_ID'],
+    queryParams: ['fields[products]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /warranties
+  'warrantiesGET': {
+    method: 'GET',
+    pathTemplate: '/warranties',
+    pathParams: [],
+    queryParams: ['fields[companies]', 'fields[properties]', 'filter[start_date][gt]', 'filter[start_date][lt]', 'filter[updated_at][gt]', 'filter[updated_at][lt]', 'filter[status][0]', 'filter[contractorCompanyId]', 'include', 'page[size]', 'page[number]'],
+  },
+  // POST /warranties
+  'warrantiesPOST': {
+    method: 'POST',
+    pathTemplate: '/warranties',
+    pathParams: [],
+    queryParams: ['fields[companies]', 'fields[properties]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /warranties/{WARRANTY_ID}
+  'warranties/{WARRANTY_ID}GET': {
+    method: 'GET',
+    pathTemplate: '/warranties/{WARRANTY_ID}',
+    pathParams: ['WARRANTY_ID'],
+    queryParams: ['fields[companies]', 'fields[properties]', 'include'],
+  },
+  // PATCH /warranties/{WARRANTY_ID}
+  'warranties/{WARRANTY_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/warranties/{WARRANTY_ID}',
+    pathParams: ['WARRANTY_ID'],
+    queryParams: ['fields[companies]', 'fields[properties]', 'include'],
+    bodyContentType: 'application/json',
+  },
+  // GET /buildings/{BUILDING_ID}
+  'buildings/{BUILDING_ID}GET': {
+    method: 'GET',
+    pathTemplate: '/buildings/{BUILDING_ID}',
+    pathParams: ['BUILDING_ID'],
+    queryParams: ['fields[properties]', 'fields[buildings]', 'include'],
+  },
+  // POST /building_outlines
+  'building_outlinesPOST': {
+    method: 'POST',
+    pathTemplate: '/building_outlines',
+    pathParams: [],
+    queryParams: [],
+    bodyContentType: 'application/json',
+  },
+  // GET /building_outlines/{BUILDING_OUTLINES_ID}
+  'building_outlines/{BUILDING_OUTLINES_ID}GET': {
+    method: 'GET',
+    pathTemplate: '/building_outlines/{BUILDING_OUTLINES_ID}',
+    pathParams: ['BUILDING_OUTLINES_ID'],
+    queryParams: [],
+  },
+  // PATCH /building_outlines/{BUILDING_OUTLINES_ID}
+  'building_outlines/{BUILDING_OUTLINES_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/building_outlines/{BUILDING_OUTLINES_ID}',
+    pathParams: ['BUILDING_OUTLINES_ID'],
+    queryParams: [],
+    bodyContentType: 'application/json',
+  },
+  // POST /building_divisions
+  'building_divisionsPOST': {
+    method: 'POST',
+    pathTemplate: '/building_divisions',
+    pathParams: [],
+    queryParams: [],
+    bodyContentType: 'application/json',
+  },
+  // GET /building_divisions/{BUILDING_DIVISIONS_ID}
+  'building_divisions/{BUILDING_DIVISIONS_ID}GET': {
+    method: 'GET',
+    pathTemplate: '/building_divisions/{BUILDING_DIVISIONS_ID}',
+    pathParams: ['BUILDING_DIVISIONS_ID'],
+    queryParams: ['fields[products]', 'include'],
+  },
+  // PATCH /building_divisions/{BUILDING_DIVISIONS_ID}
+  'building_divisions/{BUILDING_DIVISIONS_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/building_divisions/{BUILDING_DIVISIONS_ID}',
+    pathParams: ['BUILDING_DIVISIONS_ID'],
+    queryParams: [],
+    bodyContentType: 'application/json',
+  },
+  // GET /product_template_tags
+  'product_template_tagsGET': {
+    method: 'GET',
+    pathTemplate: '/product_template_tags',
+    pathParams: [],
+    queryParams: ['filter[updated_at][gt]', 'filter[updated_at][lt]'],
+  },
+  // POST /building_photos
+  'building_photosPOST': {
+    method: 'POST',
+    pathTemplate: '/building_photos',
+    pathParams: [],
+    queryParams: [],
+    bodyContentType: 'application/json',
+  },
+  // GET /building_photos/{BUILDING_PHOTO_ID}
+  'building_photos/{BUILDING_PHOTO_ID}GET': {
+    method: 'GET',
+    pathTemplate: '/building_photos/{BUILDING_PHOTO_ID}',
+    pathParams: ['BUILDING_PHOTO_ID'],
+    queryParams: ['include'],
+  },
+  // PATCH /building_photos/{BUILDING_PHOTO_ID}
+  'building_photos/{BUILDING_PHOTO_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/building_photos/{BUILDING_PHOTO_ID}',
+    pathParams: ['BUILDING_PHOTO_ID'],
+    queryParams: [],
+    bodyContentType: 'application/json',
+  },
+  // POST /production_stage_transitions
+  'production_stage_transitionsPOST': {
+    method: 'POST',
+    pathTemplate: '/production_stage_transitions',
+    pathParams: [],
+    queryParams: [],
+  },
+  // POST /building_scores
+  'building_scoresPOST': {
+    method: 'POST',
+    pathTemplate: '/building_scores',
+    pathParams: [],
+    queryParams: [],
+  },
+  // PATCH /building_scores/{BUILDING_SCORE_ID}
+  'building_scores/{BUILDING_SCORE_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/building_scores/{BUILDING_SCORE_ID}',
+    pathParams: ['BUILDING_SCORE_ID'],
+    queryParams: [],
+    bodyContentType: 'application/json',
+  },
+  // GET /files
+  'filesGET': {
+    method: 'GET',
+    pathTemplate: '/files',
+    pathParams: [],
+    queryParams: [],
+  },
+  // GET /files/{FILE_ID}
+  'files/{FILE_ID}GET': {
+    method: 'GET',
+    pathTemplate: '/files/{FILE_ID}',
+    pathParams: ['FILE_ID'],
+    queryParams: [],
+  },
+  // PATCH /files/{FILE_ID}
+  'files/{FILE_ID}PATCH': {
+    method: 'PATCH',
+    pathTemplate: '/files/{FILE_ID}',
+    pathParams: ['FILE_ID'],
+    queryParams: [],
+    bodyContentType: 'application/json',
+  },
+  // POST /file/url
+  'filesPOST': {
+    method: 'POST',
+    pathTemplate: '/file/url',
+    pathParams: [],
+    queryParams: [],
+    bodyContentType: 'application/json',
+    title: 'Create file',
+  },
+  // GET /model_files
+  'modelFilesGET': {
+    method: 'GET',
+    pathTemplate: '/model_files',
+    pathParams: [],
+    queryParams: ['fields[profiles]', 'fields[employees]', 'fields[buildingDivisions]', 'filter[tag]', 'filter[subjectId]', 'filter[subjectType]', 'filter[updated_at][gt]', 'filter[updated_at][lt]', 'include', 'page[size]', 'page[number]', 'sort'],
+  },
+  // POST /actions
+  'actionsPOST': {
+    method: 'POST',
+    pathTemplate: '/actions',
+    pathParams: [],
+    queryParams: [],
+    bodyContentType: 'application/json',
+    title: 'Run action job',
+  },
+  // POST /notes
+  'notesPOST': {
+    method: 'POST',
+    pathTemplate: '/notes',
+    pathParams: [],
+    queryParams: [],
+    bodyContentType: 'application/json',
+  },
+  // POST /transactions
+  'transactionsPOST': {
+    method: 'POST',
+    pathTemplate: '/transactions',
+    pathParams: [],
+    queryParams: [],
+    bodyContentType: 'application/json',
+  },
+};
+// --- End of generated operations ---
+
+/**
+ * Looks up the operation backing a tool
+ * @param toolName The MCP tool name
+ * @returns The operation definition, or undefined if the tool is unknown
+ */
+export function getOperation(toolName: string): OperationDefinition | undefined {
+  return Object.prototype.hasOwnProperty.call(operations, toolName) ? operations[toolName] : undefined;
+}
+
+/**
+ * Lists the resource types an operation touches: every literal segment of its
+ * path, e.g. `['productions', 'production_materials']` for
+ * `/productions/{PRODUCTION_ID}/production_materials`
+ */
+export function getResourceTypes(operation: OperationDefinition): string[] {
+  return operation.pathTemplate
+    .split('/')
+    .filter(segment => segment && !segment.startsWith('{'));
+}
+
+/**
+ * Checks whether an operation may be retried after a transient failure
+ */
+export function isRetryable(operation: OperationDefinition): boolean {
+  return operation.retry ?? RETRYABLE_METHODS.includes(operation.method);
+}
+
+/**
+ * Checks whether an operation returns a paginated list, i.e. is a GET that
+ * accepts `page[number]`
+ */
+export function isListOperation(operation: OperationDefinition): boolean {
+  return operation.method === 'GET' && operation.queryParams.includes('page[number]');
+}
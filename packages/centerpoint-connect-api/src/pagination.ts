@@ -0,0 +1,162 @@
+/**
+ * Fetch-all support for JSON:API list tools
+ *
+ * List tools accept `fetchAll`, `maxPages` and `maxRecords` on top of their
+ * API parameters. The executor then follows `links.next` (or increments
+ * `page[number]` when the API sends no links) and merges the pages into a
+ * single document.
+ */
+
+import { type Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export const DEFAULT_MAX_PAGES = 20;
+
+export const PAGINATION_PROPERTIES = {
+  fetchAll: {
+    type: 'boolean',
+    description: `Fetch every page of results and merge them into one response (at most ${DEFAULT_MAX_PAGES} pages unless maxPages is set).`,
+  },
+  maxPages: {
+    type: 'number',
+    description: 'Maximum number of pages to fetch. Implies fetchAll.',
+  },
+  maxRecords: {
+    type: 'number',
+    description: 'Maximum number of records to return across all pages. Implies fetchAll.',
+  },
+};
+
+export interface PaginationOptions {
+  maxPages: number;
+  maxRecords?: number;
+}
+
+export interface PaginationReport {
+  pagesFetched: number;
+  recordsFetched: number;
+  /** More records were available than the limits allowed */
+  truncated: boolean;
+}
+
+/** The parts of a JSON:API list document that fetch-all looks at */
+export interface ListDocument {
+  data: any[];
+  included?: any[];
+  links?: Record<string, any>;
+}
+
+export type NextPage = { url: string } | { pageNumber: number };
+
+/**
+ * Adds the fetch-all arguments to a list tool's input schema
+ */
+export function addPaginationArguments(tool: Tool): Tool {
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: { ...tool.inputSchema.properties, ...PAGINATION_PROPERTIES },
+    },
+  };
+}
+
+/**
+ * Reads the fetch-all arguments of a tool call
+ * @returns The limits to apply, or undefined when only one page was requested
+ */
+export function getPaginationOptions(args: Record<string, any>): PaginationOptions | undefined {
+  const { fetchAll, maxPages, maxRecords } = args;
+  if (!fetchAll && maxPages === undefined && maxRecords === undefined) {
+    return undefined;
+  }
+  if (maxPages !== undefined && !(Number.isInteger(maxPages) && maxPages >= 1)) {
+    throw new Error('maxPages must be a positive integer');
+  }
+  if (maxRecords !== undefined && !(Number.isInteger(maxRecords) && maxRecords >= 1)) {
+    throw new Error('maxRecords must be a positive integer');
+  }
+  return { maxPages: maxPages ?? DEFAULT_MAX_PAGES, maxRecords };
+}
+
+export function isListDocument(body: unknown): body is ListDocument {
+  return typeof body === 'object' && body !== null && Array.isArray((body as ListDocument).data);
+}
+
+/**
+ * Works out where the page after this one is
+ * @param document The page just fetched
+ * @param pageNumber Its page number
+ * @param pageSize The requested page size, if known
+ * @returns The next page, or undefined on the last page
+ */
+export function findNextPage(document: ListDocument, pageNumber: number, pageSize?: number): NextPage | undefined {
+  if (document.links && typeof document.links === 'object') {
+    const next = document.links.next;
+    const url = typeof next === 'object' && next !== null ? next.href : next;
+    return typeof url === 'string' && url ? { url } : undefined;
+  }
+  if (document.data.length === 0 || (pageSize !== undefined && document.data.length < pageSize)) {
+    return undefined;
+  }
+  return { pageNumber: pageNumber + 1 };
+}
+
+/**
+ * Merges list pages into one document, deduplicating `included` resources
+ * by type and id
+ */
+export class PageAccumulator {
+  private data: any[] = [];
+  private included = new Map<string, any>();
+  private pagesFetched = 0;
+  private truncated = false;
+
+  constructor(private readonly options: PaginationOptions) {}
+
+  add(document: ListDocument): void {
+    this.pagesFetched++;
+    let records = document.data;
+    if (this.options.maxRecords !== undefined) {
+      const room = this.options.maxRecords - this.data.length;
+      if (records.length > room) {
+        records = records.slice(0, room);
+        this.truncated = true;
+      }
+    }
+    this.data.push(...records);
+
+    for (const resource of document.included ?? []) {
+      const key = `${resource?.type}:${resource?.id}`;
+      if (!this.included.has(key)) {
+        this.included.set(key, resource);
+      }
+    }
+  }
+
+  /**
+   * Checks whether another page would exceed the limits
+   */
+  isFull(): boolean {
+    return this.pagesFetched >= this.options.maxPages ||
+      (this.options.maxRecords !== undefined && this.data.length >= this.options.maxRecords);
+  }
+
+  /**
+   * Records that pages were left unfetched
+   */
+  markTruncated(): void {
+    this.truncated = true;
+  }
+
+  report(): PaginationReport {
+    return { pagesFetched: this.pagesFetched, recordsFetched: this.data.length, truncated: this.truncated };
+  }
+
+  toDocument(): Record<string, unknown> {
+    return {
+      data: this.data,
+      ...(this.included.size > 0 ? { included: [...this.included.values()] } : {}),
+      meta: this.report(),
+    };
+  }
+}
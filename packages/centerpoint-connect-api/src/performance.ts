@@ -2,7 +2,9 @@
  * Performance optimization utilities
  */
 
-import { AxiosRequestConfig, AxiosResponse } from 'axios';
+import * as crypto from 'crypto';
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { config as appConfig } from './config.js';
 
 export interface CacheEntry<T = any> {
   data: T;
@@ -10,6 +12,10 @@ export interface CacheEntry<T = any> {
   etag?: string;
   lastModified?: string;
   expires?: number;
+  status?: number;
+  contentType?: string;
+  /** Resource types the entry depends on, used for invalidation */
+  tags?: string[];
 }
 
 /**
@@ -17,71 +23,133 @@ export interface CacheEntry<T = any> {
  */
 export class ResponseCache {
   private cache = new Map<string, CacheEntry>();
-  private readonly defaultTtl: number;
-  private readonly maxSize: number;
 
-  constructor(defaultTtlMs = 5 * 60 * 1000, maxSize = 1000) {
-    this.defaultTtl = defaultTtlMs;
-    this.maxSize = maxSize;
+  /**
+   * @param defaultTtlMs TTL of entries stored without one, or a function
+   * read on every use so configuration reloads take effect
+   * @param maxSizeSetting Entry limit, or a function read on every store
+   */
+  constructor(
+    private readonly defaultTtlMs: number | (() => number) = 5 * 60 * 1000,
+    private readonly maxSizeSetting: number | (() => number) = 1000
+  ) {}
+
+  private get defaultTtl(): number {
+    return typeof this.defaultTtlMs === 'function' ? this.defaultTtlMs() : this.defaultTtlMs;
+  }
+
+  private get maxSize(): number {
+    return typeof this.maxSizeSetting === 'function' ? this.maxSizeSetting() : this.maxSizeSetting;
   }
 
   private createCacheKey(config: AxiosRequestConfig): string {
-    const key = `${config.method?.toUpperCase() || 'GET'}:${config.url}`;
-    if (config.params) {
+    const key = `${this.tokenIdentity(config)}|${config.method?.toUpperCase() || 'GET'}:${config.url}`;
+    if (config.params && Object.keys(config.params).length > 0) {
       const searchParams = new URLSearchParams(config.params);
+      searchParams.sort();
       return `${key}?${searchParams.toString()}`;
     }
     return key;
   }
 
+  /**
+   * Hashes the request's Authorization header so responses fetched with one
+   * token are never served to a caller using another
+   */
+  private tokenIdentity(config: AxiosRequestConfig): string {
+    const headers = (config.headers || {}) as Record<string, unknown>;
+    const authorization = headers['Authorization'] ?? headers['authorization'];
+    if (!authorization) return 'anonymous';
+    return crypto.createHash('sha256').update(String(authorization)).digest('hex').substring(0, 16);
+  }
+
+  private isExpired(entry: CacheEntry): boolean {
+    const ttl = entry.expires || this.defaultTtl;
+    return Date.now() - entry.timestamp > ttl;
+  }
+
+  private hasValidators(entry: CacheEntry): boolean {
+    return !!(entry.etag || entry.lastModified);
+  }
+
   get(config: AxiosRequestConfig): CacheEntry | null {
     const key = this.createCacheKey(config);
     const entry = this.cache.get(key);
     
     if (!entry) return null;
 
-    // Check if expired
-    const now = Date.now();
-    const ttl = entry.expires || this.defaultTtl;
-    if (now - entry.timestamp > ttl) {
-      this.cache.delete(key);
+    // Check if expired; entries with validators are kept for revalidation
+    if (this.isExpired(entry)) {
+      if (!this.hasValidators(entry)) {
+        this.cache.delete(key);
+      }
       return null;
     }
 
     return entry;
   }
 
-  set(config: AxiosRequestConfig, response: AxiosResponse, ttlMs?: number): void {
-    // Implement LRU eviction if cache is full
-    if (this.cache.size >= this.maxSize) {
-      const oldestKey = this.cache.keys().next().value;
-      if (oldestKey) {
-        this.cache.delete(oldestKey);
-      }
-    }
+  /**
+   * Returns the entry for a request whether or not it has expired
+   */
+  peek(config: AxiosRequestConfig): CacheEntry | null {
+    return this.cache.get(this.createCacheKey(config)) || null;
+  }
 
+  set(config: AxiosRequestConfig, response: AxiosResponse, ttlMs?: number, tags?: string[]): void {
     const key = this.createCacheKey(config);
+    this.cache.delete(key);
+    // Implement LRU eviction if cache is full; a lowered limit evicts down to it
+    while (this.cache.size > 0 && this.cache.size >= this.maxSize) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+
     const entry: CacheEntry = {
       data: response.data,
       timestamp: Date.now(),
       etag: response.headers.etag,
       lastModified: response.headers['last-modified'],
-      expires: ttlMs
+      expires: ttlMs,
+      status: response.status,
+      contentType: response.headers['content-type'],
+      tags
     };
 
     this.cache.set(key, entry);
   }
 
+  /**
+   * Checks whether a request has an expired entry carrying an ETag or
+   * Last-Modified validator, so it can be revalidated with a conditional
+   * request instead of refetched
+   */
   shouldRefresh(config: AxiosRequestConfig): boolean {
-    const entry = this.get(config);
-    if (!entry) return true;
+    const entry = this.peek(config);
+    return !!entry && this.isExpired(entry) && this.hasValidators(entry);
+  }
 
-    // Always refresh if we have etag/last-modified headers to validate
-    return !!(entry.etag || entry.lastModified);
+  /**
+   * Marks an entry fresh again after the server answered 304 Not Modified,
+   * picking up any updated validators from the response
+   * @returns The refreshed entry, or null if it was evicted meanwhile
+   */
+  revalidate(config: AxiosRequestConfig, response: AxiosResponse): CacheEntry | null {
+    const key = this.createCacheKey(config);
+    const entry = this.cache.get(key);
+    if (!entry) return null;
+
+    entry.timestamp = Date.now();
+    entry.etag = response.headers.etag || entry.etag;
+    entry.lastModified = response.headers['last-modified'] || entry.lastModified;
+
+    // Move to the most recently used position
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+    return entry;
   }
 
   addConditionalHeaders(config: AxiosRequestConfig): void {
-    const entry = this.get(config);
+    const entry = this.peek(config);
     if (!entry) return;
 
     config.headers = config.headers || {};
@@ -95,6 +163,21 @@ export class ResponseCache {
     }
   }
 
+  /**
+   * Drops every entry tagged with any of the given resource types
+   * @returns The number of entries removed
+   */
+  invalidateTags(tags: string[]): number {
+    let removed = 0;
+    for (const [key, entry] of this.cache) {
+      if (entry.tags?.some(tag => tags.includes(tag))) {
+        this.cache.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
   clear(): void {
     this.cache.clear();
   }
@@ -179,6 +262,112 @@ export class RequestBatcher {
   }
 }
 
+/**
+ * Retry with exponential backoff and jitter for transient API failures
+ */
+export class RetryPolicy {
+  private static readonly RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+
+  /**
+   * @param retryAttempts Retries after the first attempt
+   * @param baseDelayMs Delay before the first retry, doubled for each further one
+   * @param maxDelayMs Upper bound for a single wait, including Retry-After
+   */
+  constructor(retryAttempts = 3, baseDelayMs = 1000, maxDelayMs = 30000) {
+    this.maxAttempts = retryAttempts + 1;
+    this.baseDelayMs = baseDelayMs;
+    this.maxDelayMs = maxDelayMs;
+  }
+
+  /**
+   * Network errors (no response) and 429/502/503/504 responses are retryable
+   */
+  isRetryableError(error: unknown): boolean {
+    if (!axios.isAxiosError(error)) return false;
+    if (error.code === 'ERR_CANCELED') return false;
+    if (!error.response) return true;
+    return RetryPolicy.RETRYABLE_STATUSES.includes(error.response.status);
+  }
+
+  /**
+   * Computes the wait before the given retry (1-based). A Retry-After header
+   * wins over the backoff schedule.
+   */
+  getDelayMs(retry: number, error: unknown): number {
+    const retryAfterMs = axios.isAxiosError(error) ? this.parseRetryAfter(error.response?.headers?.['retry-after']) : null;
+    if (retryAfterMs !== null) {
+      return retryAfterMs;
+    }
+
+    // Equal jitter: half the exponential delay plus a random share of the other half
+    const exponential = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (retry - 1));
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+
+  private parseRetryAfter(value: unknown): number | null {
+    if (value === undefined || value === null || value === '') return null;
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(String(value));
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Runs the operation, retrying retryable failures until attempts run out
+   * or the server asks to wait longer than maxDelayMs
+   * @param onRetry Called before each wait with the retry number, delay and error
+   * @param signal Aborts a pending wait; the abort reason is thrown
+   */
+  async execute<T>(
+    operation: () => Promise<T>,
+    onRetry?: (retry: number, delayMs: number, error: unknown) => void,
+    signal?: AbortSignal
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        if (attempt >= this.maxAttempts || !this.isRetryableError(error) || signal?.aborted) {
+          throw error;
+        }
+        const delayMs = this.getDelayMs(attempt, error);
+        if (delayMs > this.maxDelayMs) {
+          throw error;
+        }
+        onRetry?.(attempt, delayMs, error);
+        await sleep(delayMs, signal);
+      }
+    }
+  }
+}
+
+/**
+ * Waits for the given time, rejecting early with the signal's reason on abort
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
 /**
  * Request metrics collection
  */
@@ -247,4 +436,11 @@ export class RequestMetrics {
       responseTimes: []
     };
   }
-}
\ No newline at end of file
+}
+
+// Global instances
+export const responseCache = new ResponseCache(
+  () => appConfig.getPerformance().cacheTtlMs,
+  () => appConfig.getPerformance().cacheMaxSize
+);
+export const requestMetrics = new RequestMetrics();
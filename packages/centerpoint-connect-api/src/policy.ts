@@ -0,0 +1,55 @@
+/**
+ * Tool access policy
+ *
+ * Decides which tools a server exposes: read-only mode hides every tool that
+ * is not a GET, and glob-style allow and deny lists filter by tool name. The
+ * same check backs both tools/list and tools/call, so a hidden tool cannot be
+ * called by name either.
+ */
+
+import { type HttpMethod } from './operations.js';
+
+export interface ToolPolicy {
+  readOnly: boolean;
+  /** Tool name globs; when non-empty, only matching tools are available */
+  allow: string[];
+  /** Tool name globs that are never available */
+  deny: string[];
+}
+
+/**
+ * Compiles a tool name glob into a regular expression. `*` matches any run of
+ * characters and `?` a single character; everything else, including the
+ * `{`, `}`, `[` and `/` found in tool names, matches literally.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map(char => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\/]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+function matchesAny(toolName: string, patterns: string[]): boolean {
+  return patterns.some(pattern => globToRegExp(pattern).test(toolName));
+}
+
+/**
+ * Checks whether the policy exposes a tool
+ * @param toolName The MCP tool name
+ * @param method The HTTP method of the tool's operation; undefined for built-in tools, which never write
+ * @param policy The tool policy, usually `config.getTools()`
+ */
+export function isToolAllowed(toolName: string, method: HttpMethod | undefined, policy: ToolPolicy): boolean {
+  if (policy.readOnly && method !== undefined && method !== 'GET') {
+    return false;
+  }
+  if (policy.allow.length > 0 && !matchesAny(toolName, policy.allow)) {
+    return false;
+  }
+  return !matchesAny(toolName, policy.deny);
+}
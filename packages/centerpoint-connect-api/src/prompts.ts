@@ -0,0 +1,242 @@
+/**
+ * Curated prompts for common CenterPoint workflows
+ *
+ * Each prompt expands into step-by-step instructions that name the tools to
+ * call, with the filters, includes and field selections that answer the
+ * question in as few calls as possible. Prompts are only offered while the
+ * tool policy exposes every tool they use.
+ */
+
+import { ErrorCode, McpError, type GetPromptResult, type Prompt } from '@modelcontextprotocol/sdk/types.js';
+
+export interface PromptTemplate {
+  definition: Prompt;
+  /** Tools the instructions call */
+  tools: string[];
+  render: (args: Record<string, string>) => string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Renders a tool call for the instructions
+ */
+export function toolCall(toolName: string, args: Record<string, unknown>): string {
+  return `\`${toolName}\` using:\n\`\`\`json\n${JSON.stringify(args, null, 2)}\n\`\`\``;
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+function requireDate(args: Record<string, string>, name: string): string {
+  const value = args[name];
+  if (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+    throw new McpError(ErrorCode.InvalidParams, `${name} must be a date in YYYY-MM-DD format`);
+  }
+  return value;
+}
+
+export const promptTemplates: Record<string, PromptTemplate> = {
+  company_overview: {
+    definition: {
+      name: 'company_overview',
+      title: 'Company overview',
+      description: "Summarises a customer: account details, sales values and the company's open jobs.",
+      arguments: [{ name: 'companyId', description: 'The CenterPoint company ID', required: true }],
+    },
+    tools: ['companies/{COMPANY_ID}GET', 'productionsGET'],
+    render: ({ companyId }) => [
+      `Give me an overview of CenterPoint company ${companyId}.`,
+      '',
+      `1. Fetch the company with ${toolCall('companies/{COMPANY_ID}GET', {
+        COMPANY_ID: companyId,
+        'fields[companies]': 'name,externalId,manager,quotedValue,openQuotedValue,soldValue',
+        include: 'manager',
+        responseFormat: 'flat',
+      })}`,
+      `2. Find its open jobs with ${toolCall('productionsGET', {
+        'filter[search]': '<the company name from step 1>',
+        'filter[isArchived]': false,
+        'fields[productions]': 'name,status,property,propertyCompany,billedCompany',
+        include: 'property,propertyCompany,billedCompany',
+        fetchAll: true,
+        responseFormat: 'flat',
+      })}`,
+      '   Keep only productions whose propertyCompany or billedCompany is this company and whose status is opened, scheduled or started.',
+      '',
+      'Summarise the account manager, the quoted, open quoted and sold values, and list the open jobs with their property and status. Point out anything that looks stalled.',
+    ].join('\n'),
+  },
+
+  weekly_timesheet_review: {
+    definition: {
+      name: 'weekly_timesheet_review',
+      title: 'Weekly timesheet review',
+      description: 'Reviews the time entries clocked in between two dates and flags entries that need attention.',
+      arguments: [
+        { name: 'start', description: 'First day of the review, YYYY-MM-DD', required: true },
+        { name: 'end', description: 'Day after the last day of the review, YYYY-MM-DD; defaults to a week after start', required: false },
+      ],
+    },
+    tools: ['work_time_entriesGET'],
+    render: args => {
+      const start = requireDate(args, 'start');
+      const end = args.end ? requireDate(args, 'end') : addDays(start, 7);
+      return [
+        `Prepare a timesheet review for ${start} up to ${end}.`,
+        '',
+        `1. Fetch every entry with ${toolCall('work_time_entriesGET', {
+          'filter[inAt][gt]': start,
+          'filter[inAt][lt]': end,
+          'filter[isTimekeeping]': true,
+          'fields[workTimeEntries]': 'inAt,outAt,lunchBreakMinutes,active_hours',
+          include: 'employee,production',
+          sort: 'inAt',
+          fetchAll: true,
+          responseFormat: 'flat',
+        })}`,
+        '',
+        'Report the total active hours per employee and per production. Then flag, with the entry ID:',
+        '- entries without an outAt (still clocked in)',
+        '- shifts longer than 12 hours or employees over 40 hours for the period',
+        '- overlapping entries for the same employee',
+        '- shifts over 6 hours without a lunch break',
+        'If the response says it was truncated, say so and suggest narrowing the dates.',
+      ].join('\n');
+    },
+  },
+
+  production_status_report: {
+    definition: {
+      name: 'production_status_report',
+      title: 'Production status report',
+      description: 'Reports where a production (job) stands: stage, property, customer, purchase orders and materials.',
+      arguments: [{ name: 'productionId', description: 'The CenterPoint production ID', required: true }],
+    },
+    tools: [
+      'productions/{PRODUCTION_ID}GET',
+      'productions/{PRODUCTION_ID}/purchase_ordersGET',
+      'productions/{PRODUCTION_ID}/production_materialsGET',
+    ],
+    render: ({ productionId }) => [
+      `Write a status report for CenterPoint production ${productionId}.`,
+      '',
+      `1. Fetch the production with ${toolCall('productions/{PRODUCTION_ID}GET', {
+        PRODUCTION_ID: productionId,
+        include: 'property,propertyCompany,billedCompany',
+        responseFormat: 'flat',
+      })}`,
+      `2. Fetch its purchase orders with ${toolCall('productions/{PRODUCTION_ID}/purchase_ordersGET', {
+        PRODUCTION_ID: productionId,
+        responseFormat: 'flat',
+      })}`,
+      `3. Fetch its materials with ${toolCall('productions/{PRODUCTION_ID}/production_materialsGET', {
+        PRODUCTION_ID: productionId,
+        responseFormat: 'table',
+      })}`,
+      '',
+      'Report the status and workflow stage, the property and customer, key dates, open purchase orders and the materials list. Finish with risks and next steps.',
+    ].join('\n'),
+  },
+
+  overdue_tasks: {
+    definition: {
+      name: 'overdue_tasks',
+      title: 'Overdue tasks',
+      description: 'Lists the incomplete tasks of a profile that are past their due date.',
+      arguments: [{ name: 'profileId', description: 'The internal profile ID the tasks are assigned to', required: true }],
+    },
+    tools: ['tasksGET'],
+    render: ({ profileId }) => [
+      `List the overdue tasks for profile ${profileId} as of ${today()}.`,
+      '',
+      `1. Fetch them with ${toolCall('tasksGET', {
+        'filter[internalProfileId]': profileId,
+        'filter[isCompleted]': false,
+        'filter[dueDate][lt]': today(),
+        'fields[tasks]': 'event,description,dueDate,fromCompany,fromProfile,toCompany',
+        include: 'fromCompany,toCompany',
+        sort: 'dueDate',
+        fetchAll: true,
+        responseFormat: 'flat',
+      })}`,
+      '',
+      'Group the tasks by company, oldest first, with how many days each is overdue. Suggest which ones to chase first.',
+    ].join('\n'),
+  },
+
+  service_ticket_note: {
+    definition: {
+      name: 'service_ticket_note',
+      title: 'Service ticket note',
+      description: 'Drafts a note on a service ticket and previews it before anything is saved.',
+      arguments: [
+        { name: 'productionId', description: 'The production (service ticket) ID', required: true },
+        { name: 'employeeId', description: 'The employee writing the note', required: true },
+        { name: 'summary', description: 'What happened, in your own words', required: true },
+      ],
+    },
+    tools: ['productions/{PRODUCTION_ID}GET', 'notesPOST'],
+    render: ({ productionId, employeeId, summary }) => [
+      `Draft a note for service ticket ${productionId} from this summary:`,
+      '',
+      summary,
+      '',
+      `1. Read the ticket for context with ${toolCall('productions/{PRODUCTION_ID}GET', {
+        PRODUCTION_ID: productionId,
+        include: 'property,propertyCompany',
+        responseFormat: 'flat',
+      })}`,
+      '2. Write a short, factual note: a title of at most 8 words and a body covering the work done, findings and follow-up.',
+      `3. Preview it with ${toolCall('notesPOST', {
+        requestBody: {
+          data: {
+            type: 'notes',
+            attributes: { title: '<title>', body: '<body>', isOfficeOnly: false },
+            relationships: {
+              causer: { data: { type: 'employees', id: employeeId } },
+              subject: { data: { type: 'productions', id: productionId } },
+            },
+          },
+        },
+        dryRun: true,
+      })}`,
+      '4. Show me the draft and only call notesPOST without dryRun once I approve it.',
+    ].join('\n'),
+  },
+};
+
+/**
+ * Looks up a prompt template
+ * @returns The template, or undefined if there is no prompt by that name
+ */
+export function getPromptTemplate(name: string): PromptTemplate | undefined {
+  return Object.prototype.hasOwnProperty.call(promptTemplates, name) ? promptTemplates[name] : undefined;
+}
+
+/**
+ * Expands a prompt template
+ * @throws McpError for unknown prompts and missing or invalid arguments
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}): GetPromptResult {
+  const template = getPromptTemplate(name);
+  if (!template) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+  for (const argument of template.definition.arguments ?? []) {
+    if (argument.required && !args[argument.name]?.trim()) {
+      throw new McpError(ErrorCode.InvalidParams, `Missing required argument for prompt '${name}': ${argument.name}`);
+    }
+  }
+  return {
+    description: template.definition.description,
+    messages: [{ role: 'user', content: { type: 'text', text: template.render(args) } }],
+  };
+}
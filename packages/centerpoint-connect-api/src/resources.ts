@@ -0,0 +1,195 @@
+/**
+ * CenterPoint records as MCP resources
+ *
+ * Companies, productions and properties are addressable as
+ * `centerpoint://<type>/{id}` and read through their single-record GET
+ * operations, so a client can attach a specific customer or job to a
+ * conversation. resources/list pages through the records of each type
+ * updated in the last RECENT_DAYS days. Callers pass the record types whose
+ * tools the tool policy exposes.
+ */
+
+import {
+  ErrorCode,
+  McpError,
+  type ListResourcesResult,
+  type ReadResourceResult,
+  type Resource,
+  type ResourceTemplate,
+} from '@modelcontextprotocol/sdk/types.js';
+import axios from 'axios';
+
+import { type ExecutionOptions, fetchOperation, formatApiError } from './executor.js';
+import { getOperation } from './operations.js';
+import { findNextPage, isListDocument } from './pagination.js';
+
+export const RESOURCE_SCHEME = 'centerpoint';
+
+/** How far back resources/list looks for updated records */
+export const RECENT_DAYS = 30;
+
+/** Records per resources/list page */
+export const LIST_PAGE_SIZE = 50;
+
+/** JSON-RPC error code for unknown resources, as recommended by the MCP specification */
+export const RESOURCE_NOT_FOUND = -32002;
+
+export interface ResourceKind {
+  /** JSON:API resource type, also the first segment of the URI */
+  type: string;
+  /** Singular name used in template names and fallback titles */
+  name: string;
+  /** Tool listing the records */
+  listTool: string;
+  /** Tool reading one record */
+  getTool: string;
+  /** Path parameter of the single-record tool */
+  idParam: string;
+}
+
+export const resourceKinds: ResourceKind[] = [
+  { type: 'companies', name: 'company', listTool: 'companiesGET', getTool: 'companies/{COMPANY_ID}GET', idParam: 'COMPANY_ID' },
+  { type: 'productions', name: 'production', listTool: 'productionsGET', getTool: 'productions/{PRODUCTION_ID}GET', idParam: 'PRODUCTION_ID' },
+  { type: 'properties', name: 'property', listTool: 'propertiesGET', getTool: 'properties/{PROPERTY_ID}GET', idParam: 'PROPERTY_ID' },
+];
+
+/** Position of resources/list in the record types and their pages */
+interface ListCursor {
+  kind: number;
+  page: number;
+  /** `filter[updated_at][gt]` fixed on the first page, so later pages see the same window */
+  since: string;
+}
+
+export function resourceUri(type: string, id: string): string {
+  return `${RESOURCE_SCHEME}://${type}/${encodeURIComponent(id)}`;
+}
+
+export function getResourceTemplates(kinds: ResourceKind[] = resourceKinds): ResourceTemplate[] {
+  return kinds.map(kind => ({
+    uriTemplate: `${RESOURCE_SCHEME}://${kind.type}/{id}`,
+    name: kind.name,
+    title: `CenterPoint ${kind.name}`,
+    description: `A CenterPoint ${kind.name} by id, as returned by ${kind.getTool}`,
+    mimeType: 'application/json',
+  }));
+}
+
+/**
+ * Splits a resource URI into its record type and id
+ * @returns undefined for URIs that do not address a supported record
+ */
+export function parseResourceUri(uri: string, kinds: ResourceKind[] = resourceKinds): { kind: ResourceKind; id: string } | undefined {
+  const match = new RegExp(`^${RESOURCE_SCHEME}://([^/]+)/([^/?#]+)$`).exec(uri);
+  const kind = match && kinds.find(candidate => candidate.type === match[1]);
+  if (!match || !kind) {
+    return undefined;
+  }
+  return { kind, id: decodeURIComponent(match[2]) };
+}
+
+/**
+ * Reads one record
+ * @throws McpError with RESOURCE_NOT_FOUND for unknown URIs and records
+ */
+export async function readResource(
+  uri: string,
+  kinds: ResourceKind[] = resourceKinds,
+  options: ExecutionOptions = {}
+): Promise<ReadResourceResult> {
+  const target = parseResourceUri(uri, kinds);
+  if (!target) {
+    throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+  }
+  const { kind, id } = target;
+
+  try {
+    const { data } = await fetchOperation(kind.getTool, getOperation(kind.getTool)!, { [kind.idParam]: id }, options);
+    return {
+      contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }],
+    };
+  } catch (error) {
+    throw toMcpError(error, uri);
+  }
+}
+
+/**
+ * Lists recently updated records, one API page per call; the cursor walks
+ * through the pages of each record type in turn
+ */
+export async function listResources(
+  cursor?: string,
+  kinds: ResourceKind[] = resourceKinds,
+  options: ExecutionOptions = {}
+): Promise<ListResourcesResult> {
+  const position = cursor ? decodeCursor(cursor, kinds) : { kind: 0, page: 1, since: recentSince() };
+  const kind = kinds[position.kind];
+  if (!kind) {
+    return { resources: [] };
+  }
+
+  let document: unknown;
+  try {
+    ({ data: document } = await fetchOperation(kind.listTool, getOperation(kind.listTool)!, {
+      'filter[updated_at][gt]': position.since,
+      'page[number]': position.page,
+      'page[size]': LIST_PAGE_SIZE,
+    }, options));
+  } catch (error) {
+    throw toMcpError(error);
+  }
+  if (!isListDocument(document)) {
+    throw new McpError(ErrorCode.InternalError, `Unexpected response listing ${kind.type}`);
+  }
+
+  const resources: Resource[] = document.data.map(record => toResource(kind, record));
+  let next: ListCursor | undefined;
+  if (findNextPage(document, position.page, LIST_PAGE_SIZE)) {
+    next = { ...position, page: position.page + 1 };
+  } else if (position.kind + 1 < kinds.length) {
+    next = { kind: position.kind + 1, page: 1, since: position.since };
+  }
+  return next ? { resources, nextCursor: encodeCursor(next) } : { resources };
+}
+
+function toResource(kind: ResourceKind, record: any): Resource {
+  const id = String(record.id);
+  const attributes = record.attributes ?? {};
+  const label = attributes.name ?? attributes.title;
+  return {
+    uri: resourceUri(kind.type, id),
+    name: label ? String(label) : `${kind.name} ${id}`,
+    mimeType: 'application/json',
+  };
+}
+
+function recentSince(): string {
+  return new Date(Date.now() - RECENT_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+function encodeCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(cursor: string, kinds: ResourceKind[]): ListCursor {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (Number.isInteger(position.kind) && kinds[position.kind] && Number.isInteger(position.page) && position.page >= 1 && typeof position.since === 'string') {
+      return position;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new McpError(ErrorCode.InvalidParams, 'Invalid cursor');
+}
+
+function toMcpError(error: any, uri?: string): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+  if (uri && axios.isAxiosError(error) && error.response?.status === 404) {
+    return new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+  }
+  const message = axios.isAxiosError(error) ? formatApiError(error) : error instanceof Error ? error.message : String(error);
+  return new McpError(ErrorCode.InternalError, message);
+}
@@ -0,0 +1,123 @@
+/**
+ * Schema lint for the tool input schemas
+ *
+ * Flags schemas that contradict themselves or their descriptions: enums and
+ * defaults that do not match the declared type, documented value lists that
+ * the type cannot hold or that are not declared as an `enum`, `filter[is...]`
+ * flags that are neither booleans nor enums, and date range filters without a
+ * date format.
+ * Range filters that document named presets ("Values: Today, This Week")
+ * accept those as well as dates, so they need neither an enum nor a format.
+ */
+
+import { type Tool } from '@modelcontextprotocol/sdk/types.js';
+
+import { parseDocumentedValues } from './completions.js';
+
+export interface SchemaLintIssue {
+  toolName: string;
+  /** Where the property sits in the input schema, e.g. `requestBody.data.type` */
+  path: string;
+  message: string;
+}
+
+type JsonSchema = Record<string, any>;
+
+const DATE_FORMATS = ['date', 'date-time'];
+
+/**
+ * Lints the input schemas of a set of tools
+ * @returns Every issue found, in tool order
+ */
+export function lintToolSchemas(tools: Tool[]): SchemaLintIssue[] {
+  return tools.flatMap(tool =>
+    lintSchema(tool.inputSchema, '(root)').map(({ path, message }) => ({ toolName: tool.name, path, message }))
+  );
+}
+
+/**
+ * Renders issues one per line, for the command line
+ */
+export function formatLintIssues(issues: SchemaLintIssue[]): string {
+  return issues.map(issue => `${issue.toolName} ${issue.path}: ${issue.message}`).join('\n');
+}
+
+function lintSchema(schema: JsonSchema, path: string): Array<Omit<SchemaLintIssue, 'toolName'>> {
+  const issues: Array<Omit<SchemaLintIssue, 'toolName'>> = [];
+  const report = (message: string) => issues.push({ path, message });
+  const types: string[] = schema.type === undefined ? [] : [].concat(schema.type);
+  const name = path.split('.').pop() ?? path;
+
+  if (Array.isArray(schema.enum) && types.length > 0) {
+    const invalid = schema.enum.filter((value: unknown) => !matchesType(value, types));
+    if (invalid.length > 0) {
+      report(`enum values ${JSON.stringify(invalid)} do not match type ${JSON.stringify(schema.type)}`);
+    }
+  }
+
+  if (schema.default !== undefined) {
+    if (types.length > 0 && !matchesType(schema.default, types)) {
+      report(`default ${JSON.stringify(schema.default)} does not match type ${JSON.stringify(schema.type)}`);
+    } else if (Array.isArray(schema.enum) && !schema.enum.includes(schema.default)) {
+      report(`default ${JSON.stringify(schema.default)} is not one of the enum values`);
+    }
+  }
+
+  if (schema.maxLength !== undefined && !types.includes('string')) {
+    report('maxLength is only checked on strings');
+  }
+  if ((schema.minimum !== undefined || schema.maximum !== undefined) && !types.some(type => type === 'number' || type === 'integer')) {
+    report('minimum and maximum are only checked on numbers');
+  }
+
+  const rangeFilter = /^filter\[.+\]\[(gt|gte|lt|lte)\]$/.test(name);
+  const documented = parseDocumentedValues(schema.description)?.map(option => option.value);
+  if (documented) {
+    if (types.includes('number') || types.includes('integer')) {
+      const invalid = documented.filter(value => Number.isNaN(Number(value)));
+      if (invalid.length > 0) {
+        report(`documents non-numeric values ${JSON.stringify(invalid)} but is typed ${JSON.stringify(schema.type)}`);
+      }
+    } else if (types.includes('boolean') && !types.includes('string')) {
+      // A boolean cannot carry a documented `null`; such a filter also takes a string, limited by an enum
+      const invalid = documented.filter(value => !['true', 'false'].includes(value));
+      if (invalid.length > 0) {
+        report(`documents non-boolean values ${JSON.stringify(invalid)} but is typed boolean`);
+      }
+    } else if (documented.every(value => ['true', 'false'].includes(value))) {
+      report(`documents the values ${documented.join(', ')} but is not typed boolean`);
+    } else if (!Array.isArray(schema.enum) && !rangeFilter) {
+      report(`documents the values ${documented.join(', ')} but declares no enum`);
+    }
+  }
+
+  if (/^filter\[(is|has)[A-Z]/.test(name) && !types.includes('boolean') && !Array.isArray(schema.enum)) {
+    report('flag filters should be typed boolean or declare an enum');
+  }
+  if (rangeFilter && !documented && !DATE_FORMATS.includes(schema.format)) {
+    report('range filters should declare format date or date-time');
+  }
+
+  for (const [property, child] of Object.entries<JsonSchema>(schema.properties ?? {})) {
+    issues.push(...lintSchema(child, path === '(root)' ? property : `${path}.${property}`));
+  }
+  if (schema.items && typeof schema.items === 'object') {
+    issues.push(...lintSchema(schema.items, `${path}[]`));
+  }
+  return issues;
+}
+
+function matchesType(value: unknown, types: string[]): boolean {
+  return types.some(type => {
+    switch (type) {
+      case 'string': return typeof value === 'string';
+      case 'number': return typeof value === 'number';
+      case 'integer': return Number.isInteger(value);
+      case 'boolean': return typeof value === 'boolean';
+      case 'null': return value === null;
+      case 'array': return Array.isArray(value);
+      case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+      default: return false;
+    }
+  });
+}
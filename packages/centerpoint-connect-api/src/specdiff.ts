@@ -0,0 +1,243 @@
+/**
+ * OpenAPI drift detection
+ *
+ * Compares the tools a newer OpenAPI document would generate against those
+ * generated from the checked-in document: added, removed and changed
+ * operations, query parameters, enums and request body fields. Changes that
+ * can break existing callers (removals, narrowed types or enums, new required
+ * inputs) are marked as breaking so an upgrade can be gated on them.
+ * Both documents are compared without our overrides, so an upstream change to
+ * a property we override still shows up, followed by a note that the override
+ * needs a look. Operations the generator cannot turn into tools are listed
+ * rather than failing the comparison.
+ */
+
+import {
+  type GeneratedTool,
+  type GeneratorOverrides,
+  type OpenApiDocument,
+  type UnsupportedOperation,
+  findProperty,
+  generateTools,
+} from './generator.js';
+
+export interface SpecChange {
+  toolName: string;
+  /** What changed, e.g. "query parameter filter[type] removed" */
+  description: string;
+  breaking: boolean;
+}
+
+type JsonSchema = Record<string, any>;
+
+/** Arguments the generator adds to every tool rather than reading from the document */
+const GENERATED_PROPERTIES = ['Authorization'];
+
+/**
+ * Lists the differences between the checked-in document and a newer one
+ * @param baseline The document the current tools were generated from
+ * @param spec The newer OpenAPI document
+ * @param overrides Our overrides, checked against the upstream changes they cover
+ */
+export function diffSpec(baseline: OpenApiDocument, spec: OpenApiDocument, overrides: GeneratorOverrides): SpecChange[] {
+  const noOverrides: GeneratorOverrides = { tools: {} };
+  const knownUnsupported = new Set<string>();
+  const unsupported: UnsupportedOperation[] = [];
+  const current = generateTools(baseline, noOverrides, { onUnsupported: ({ path, method }) => knownUnsupported.add(`${method} ${path}`) });
+  const next = new Map(generateTools(spec, noOverrides, { onUnsupported: operation => unsupported.push(operation) })
+    .map(entry => [entry.tool.name, entry]));
+  const currentNames = new Set(current.map(entry => entry.tool.name));
+  const changes: SpecChange[] = [];
+
+  for (const entry of current) {
+    const updated = next.get(entry.tool.name);
+    if (!updated) {
+      changes.push({ toolName: entry.tool.name, description: `operation ${describe(entry)} removed`, breaking: true });
+    } else {
+      changes.push(...diffTool(entry, updated), ...checkOverrides(entry, updated, overrides));
+    }
+  }
+  for (const [name, entry] of next) {
+    if (!currentNames.has(name)) {
+      changes.push({ toolName: name, description: `operation ${describe(entry)} added`, breaking: false });
+    }
+  }
+  for (const { path, method, reason } of unsupported) {
+    if (!knownUnsupported.has(`${method} ${path}`)) {
+      changes.push({ toolName: `${method} ${path}`, description: `operation cannot be generated: ${reason}`, breaking: false });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Renders changes for the command line, breaking changes first
+ */
+export function formatSpecChanges(changes: SpecChange[]): string {
+  if (changes.length === 0) {
+    return 'No changes';
+  }
+  const breaking = changes.filter(change => change.breaking);
+  const other = changes.filter(change => !change.breaking);
+  const section = (title: string, list: SpecChange[]) =>
+    list.length > 0 ? [`${title} (${list.length}):`, ...list.map(change => `  ${change.toolName}: ${change.description}`)] : [];
+  return [...section('Breaking changes', breaking), ...section('Other changes', other)].join('\n');
+}
+
+function describe({ operation }: GeneratedTool): string {
+  return `${operation.method} ${operation.pathTemplate}`;
+}
+
+function diffTool(current: GeneratedTool, next: GeneratedTool): SpecChange[] {
+  const changes: SpecChange[] = [];
+  const toolName = current.tool.name;
+  const report = (description: string, breaking: boolean) => changes.push({ toolName, description, breaking });
+
+  if (describe(current) !== describe(next)) {
+    report(`operation moved from ${describe(current)} to ${describe(next)}`, true);
+  }
+  const { bodyContentType } = current.operation;
+  if (bodyContentType && next.operation.bodyContentType && bodyContentType !== next.operation.bodyContentType) {
+    report(`request body content type changed from ${bodyContentType} to ${next.operation.bodyContentType}`, true);
+  }
+
+  const currentProperties = properties(current);
+  const nextProperties = properties(next);
+  const nextRequired: string[] = next.tool.inputSchema.required ?? [];
+  const currentRequired: string[] = current.tool.inputSchema.required ?? [];
+
+  for (const name of current.operation.queryParams) {
+    if (!next.operation.queryParams.includes(name)) {
+      report(`query parameter ${name} removed`, true);
+    }
+  }
+  for (const name of next.operation.queryParams) {
+    if (!current.operation.queryParams.includes(name)) {
+      report(`query parameter ${name} added${nextRequired.includes(name) ? ' (required)' : ''}`, nextRequired.includes(name));
+    }
+  }
+  for (const name of [...current.operation.pathParams, ...current.operation.queryParams]) {
+    if (!nextProperties[name]) {
+      continue;
+    }
+    const label = `${current.operation.pathParams.includes(name) ? 'path' : 'query'} parameter ${name}`;
+    changes.push(...diffSchema(toolName, label, currentProperties[name], nextProperties[name]));
+    if (nextRequired.includes(name) && !currentRequired.includes(name)) {
+      report(`${label} is now required`, true);
+    }
+  }
+
+  const currentBody = currentProperties.requestBody;
+  const nextBody = nextProperties.requestBody;
+  if (currentBody && nextBody) {
+    changes.push(...diffBody(toolName, 'requestBody', currentBody, nextBody));
+  } else if (currentBody) {
+    report('request body removed', true);
+  } else if (nextBody) {
+    report(`request body added${nextRequired.includes('requestBody') ? ' (required)' : ''}`, nextRequired.includes('requestBody'));
+  }
+  return changes;
+}
+
+/**
+ * Notes each schema override whose property changed upstream or is gone,
+ * since the override would hide the change from callers
+ */
+function checkOverrides(current: GeneratedTool, next: GeneratedTool, overrides: GeneratorOverrides): SpecChange[] {
+  const toolName = current.tool.name;
+  const changes: SpecChange[] = [];
+  for (const path of Object.keys(overrides.tools[toolName]?.schema ?? {})) {
+    const before = findProperty(current.tool, path);
+    if (!before) {
+      continue;
+    }
+    const after = findProperty(next.tool, path);
+    if (!after) {
+      changes.push({ toolName, description: `override for ${path} no longer applies`, breaking: false });
+    } else if (diffBody(toolName, path, before[0][before[1]], after[0][after[1]]).length > 0) {
+      changes.push({ toolName, description: `override for ${path} hides an upstream change; check it still fits`, breaking: false });
+    }
+  }
+  return changes;
+}
+
+function properties(entry: GeneratedTool): Record<string, JsonSchema> {
+  const all = (entry.tool.inputSchema.properties ?? {}) as Record<string, JsonSchema>;
+  return Object.fromEntries(Object.entries(all).filter(([name]) => !GENERATED_PROPERTIES.includes(name)));
+}
+
+/**
+ * Compares the type and enum of one schema
+ */
+function diffSchema(toolName: string, label: string, current: JsonSchema, next: JsonSchema): SpecChange[] {
+  const changes: SpecChange[] = [];
+  const currentTypes = types(current);
+  const nextTypes = types(next);
+  if (currentTypes.join() !== nextTypes.join()) {
+    // Accepting more types is safe; dropping one breaks callers that send it
+    const breaking = currentTypes.length === 0 ? nextTypes.length > 0 : !currentTypes.every(type => nextTypes.includes(type));
+    changes.push({
+      toolName,
+      description: `${label} type changed from ${currentTypes.join('|') || 'any'} to ${nextTypes.join('|') || 'any'}`,
+      breaking,
+    });
+  }
+
+  const currentEnum: unknown[] | undefined = current.enum;
+  const nextEnum: unknown[] | undefined = next.enum;
+  if (JSON.stringify(currentEnum) !== JSON.stringify(nextEnum)) {
+    const removed = currentEnum && nextEnum ? currentEnum.filter(value => !nextEnum.includes(value)) : [];
+    const added = currentEnum && nextEnum ? nextEnum.filter(value => !currentEnum.includes(value)) : [];
+    let description: string;
+    if (!currentEnum) {
+      description = `${label} now only accepts ${JSON.stringify(nextEnum)}`;
+    } else if (!nextEnum) {
+      description = `${label} no longer restricted to ${JSON.stringify(currentEnum)}`;
+    } else {
+      const parts = [
+        ...(added.length > 0 ? [`added ${JSON.stringify(added)}`] : []),
+        ...(removed.length > 0 ? [`removed ${JSON.stringify(removed)}`] : []),
+      ];
+      description = `${label} enum changed: ${parts.join(', ') || 'reordered'}`;
+    }
+    changes.push({ toolName, description, breaking: !currentEnum || removed.length > 0 });
+  }
+  return changes;
+}
+
+/**
+ * Compares request body schemas field by field
+ */
+function diffBody(toolName: string, path: string, current: JsonSchema, next: JsonSchema): SpecChange[] {
+  const changes = diffSchema(toolName, `body field ${path}`, current, next);
+  const currentFields: Record<string, JsonSchema> = current.properties ?? {};
+  const nextFields: Record<string, JsonSchema> = next.properties ?? {};
+  const currentRequired: string[] = current.required ?? [];
+  const nextRequired: string[] = next.required ?? [];
+
+  for (const [field, schema] of Object.entries(currentFields)) {
+    const fieldPath = `${path}.${field}`;
+    if (!nextFields[field]) {
+      changes.push({ toolName, description: `body field ${fieldPath} removed`, breaking: true });
+      continue;
+    }
+    changes.push(...diffBody(toolName, fieldPath, schema, nextFields[field]));
+    if (nextRequired.includes(field) && !currentRequired.includes(field)) {
+      changes.push({ toolName, description: `body field ${fieldPath} is now required`, breaking: true });
+    }
+  }
+  for (const field of Object.keys(nextFields)) {
+    if (!currentFields[field]) {
+      const required = nextRequired.includes(field);
+      changes.push({ toolName, description: `body field ${path}.${field} added${required ? ' (required)' : ''}`, breaking: required });
+    }
+  }
+  if (current.items && next.items) {
+    changes.push(...diffBody(toolName, `${path}[]`, current.items, next.items));
+  }
+  return changes;
+}
+
+function types(schema: JsonSchema): string[] {
+  return schema.type === undefined ? [] : [].concat(schema.type).sort();
+}
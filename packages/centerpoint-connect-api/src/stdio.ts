@@ -0,0 +1,42 @@
+/**
+ * Stdio transport entrypoint
+ *
+ * Serves a single MCP server over stdin/stdout, the way desktop MCP clients
+ * launch local servers, and shuts it down cleanly when the client goes away.
+ */
+
+import { type Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+
+import { logger } from './logging.js';
+
+/**
+ * Connects the server to a stdio transport and installs shutdown handlers
+ * for SIGINT, SIGTERM and stdin closing
+ * @param server The server returned by createServer
+ * @returns Resolves once the transport is connected
+ */
+export async function runStdioServer(server: Server): Promise<void> {
+  const transport = new StdioServerTransport();
+  let shuttingDown = false;
+
+  const shutdown = async (reason: string): Promise<void> => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    logger.info(`Shutting down MCP server (${reason})`);
+    try {
+      await server.close();
+    } catch (error) {
+      logger.error('Error while closing MCP server', { error: error as Error });
+    }
+    process.exit(0);
+  };
+
+  process.once('SIGINT', () => void shutdown('SIGINT'));
+  process.once('SIGTERM', () => void shutdown('SIGTERM'));
+  process.stdin.once('end', () => void shutdown('stdin closed'));
+  process.stdin.once('close', () => void shutdown('stdin closed'));
+
+  await server.connect(transport);
+  logger.info('MCP server listening on stdio');
+}
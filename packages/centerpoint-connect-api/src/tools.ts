@@ -0,0 +1,7700 @@
+// Generated by `npm run dev-tools generate-tools` from openapi/centerpoint-connect-api.json
+// with the local changes in openapi/overrides.json applied. Do not edit by hand.
+
+import { type Tool } from "@modelcontextprotocol/sdk/types.js";
+
+// --- Tool Definitions (for ListTools response) ---
+export const toolsList: Tool[] = [
+
+  // Tool: companiesGET (GET /companies)
+  {
+    name: "companiesGET",
+    description: `Get companies`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[companies]": {
+                "type": "string",
+                "description": "Fields: manager,name,externalId \n\n On-Demand Fields: quotedValue,openQuotedValue,soldValue,modelFileTagCounts"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "filter[type]": {
+                "type": "string"
+            },
+            "filter[manager]": {
+                "type": "string"
+            },
+            "filter[salesStatus]": {
+                "type": "string",
+                "enum": [
+                    "Sold",
+                    "Lead",
+                    "Candidate",
+                    "Client"
+                ],
+                "description": "Values: Sold, Lead, Candidate, or Client"
+            },
+            "filter[location]": {
+                "type": "number"
+            },
+            "filter[zipcodeRange][zipcode]": {
+                "type": "number"
+            },
+            "filter[zipcodeRange][range]": {
+                "type": "number"
+            },
+            "filter[custom.customerType]": {
+                "type": "string",
+                "enum": [
+                    "Admin",
+                    "Company",
+                    "Contractor",
+                    "Corporate",
+                    "Residential",
+                    "Vendor"
+                ],
+                "description": "Values: Admin, Company, Contractor, Corporate, Residential or Vendor"
+            },
+            "filter[search]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "filter[updated_at][gt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[updated_at][lt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "page[size]": {
+                "type": "number"
+            },
+            "page[number]": {
+                "type": "number"
+            },
+            "sort": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: companiesPOST (POST /companies)
+  {
+    name: "companiesPOST",
+    description: `Create company`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "data": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string"
+                            },
+                            "attributes": {
+                                "type": "object",
+                                "properties": {
+                                    "name": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "type": {
+                                        "type": "string",
+                                        "enum": [
+                                            "Admin",
+                                            "Company",
+                                            "Contractor",
+                                            "Corporate",
+                                            "Residential",
+                                            "Vendor"
+                                        ]
+                                    },
+                                    "salesStatus": {
+                                        "type": "string",
+                                        "enum": [
+                                            "Lead",
+                                            "Quoted",
+                                            "Sold",
+                                            "Dead"
+                                        ]
+                                    },
+                                    "timezone": {
+                                        "type": "string",
+                                        "enum": [
+                                            "America/Anchorage",
+                                            "America/Chicago",
+                                            "America/Denver",
+                                            "America/Detroit",
+                                            "America/Los_Angeles",
+                                            "America/New_York",
+                                            "America/Phoenix",
+                                            "Pacific/Honolulu"
+                                        ]
+                                    },
+                                    "is_billing": {
+                                        "type": "boolean",
+                                        "enum": [
+                                            true,
+                                            false
+                                        ]
+                                    },
+                                    "is_active": {
+                                        "type": "boolean",
+                                        "enum": [
+                                            true,
+                                            false
+                                        ]
+                                    },
+                                    "email": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "streetAddress": {
+                                        "type": "string",
+                                        "maxLength": 150
+                                    },
+                                    "subpremise": {
+                                        "type": "string",
+                                        "maxLength": 100
+                                    },
+                                    "locality": {
+                                        "type": "string",
+                                        "maxLength": 100
+                                    },
+                                    "county": {
+                                        "type": "string",
+                                        "maxLength": 100
+                                    },
+                                    "region": {
+                                        "type": "string",
+                                        "maxLength": 100
+                                    },
+                                    "postalCode": {
+                                        "type": "string",
+                                        "maxLength": 10
+                                    },
+                                    "country": {
+                                        "type": "string",
+                                        "maxLength": 2,
+                                        "default": "us"
+                                    },
+                                    "latitude": {
+                                        "type": "number",
+                                        "format": "float"
+                                    },
+                                    "longitude": {
+                                        "type": "number",
+                                        "format": "float"
+                                    },
+                                    "placeId": {
+                                        "type": "string"
+                                    },
+                                    "externalId": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "importId": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "managerId": {
+                                        "type": "number"
+                                    },
+                                    "website": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "imageId": {
+                                        "type": "number"
+                                    },
+                                    "closeRate": {
+                                        "type": "number",
+                                        "format": "float",
+                                        "maximum": 1,
+                                        "minimum": 0
+                                    },
+                                    "options": {
+                                        "type": "object",
+                                        "properties": {
+                                            "taxLabelOverride": {
+                                                "type": "string"
+                                            },
+                                            "billingAddress": {
+                                                "type": "string"
+                                            },
+                                            "isCreditHold": {
+                                                "type": "boolean"
+                                            },
+                                            "isTaxExempt": {
+                                                "type": "boolean"
+                                            },
+                                            "serviceBillingInstructions": {
+                                                "type": "string"
+                                            },
+                                            "serviceWorkInstructions": {
+                                                "type": "string"
+                                            },
+                                            "laborRates": {
+                                                "type": "string"
+                                            }
+                                        }
+                                    },
+                                    "custom": {
+                                        "type": "object",
+                                        "properties": {
+                                            "customerType": {
+                                                "type": "string"
+                                            },
+                                            "companyphonenumber": {
+                                                "type": "string"
+                                            }
+                                        }
+                                    }
+                                },
+                                "required": [
+                                    "name",
+                                    "type",
+                                    "salesStatus",
+                                    "timezone"
+                                ]
+                            }
+                        },
+                        "required": [
+                            "type",
+                            "attributes"
+                        ]
+                    }
+                },
+                "required": [
+                    "data"
+                ],
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: companies/{COMPANY_ID}GET (GET /companies/{COMPANY_ID})
+  {
+    name: "companies/{COMPANY_ID}GET",
+    description: `Get single company`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "COMPANY_ID": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "COMPANY_ID"
+        ]
+    }
+  },
+  // Tool: companies/{COMPANY_ID}DELETE (DELETE /companies/{COMPANY_ID})
+  {
+    name: "companies/{COMPANY_ID}DELETE",
+    description: `Delete company`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "COMPANY_ID": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "COMPANY_ID"
+        ]
+    }
+  },
+  // Tool: companies/{COMPANY_ID}PATCH (PATCH /companies/{COMPANY_ID})
+  {
+    name: "companies/{COMPANY_ID}PATCH",
+    description: `Update company`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "COMPANY_ID": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "COMPANY_ID"
+        ]
+    }
+  },
+  // Tool: cost_codesGET (GET /cost_codes)
+  {
+    name: "cost_codesGET",
+    description: `Get Cost codes`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "filter[updated_at][gt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[updated_at][lt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "include": {
+                "type": "string"
+            },
+            "page[size]": {
+                "type": "number"
+            },
+            "page[number]": {
+                "type": "number"
+            },
+            "sort": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: cost_codesPOST (POST /cost_codes)
+  {
+    name: "cost_codesPOST",
+    description: `Create Cost codes`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "data": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string"
+                            },
+                            "attributes": {
+                                "type": "object",
+                                "properties": {
+                                    "name": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "code": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "workTimeEntryType": {
+                                        "type": "string",
+                                        "enum": [
+                                            "Travel",
+                                            "Labor",
+                                            "NonBillable"
+                                        ]
+                                    }
+                                },
+                                "required": [
+                                    "name",
+                                    "code"
+                                ]
+                            },
+                            "relationships": {
+                                "type": "object",
+                                "properties": {
+                                    "budgetType": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                },
+                                                "required": [
+                                                    "id",
+                                                    "type"
+                                                ]
+                                            }
+                                        },
+                                        "required": [
+                                            "data"
+                                        ]
+                                    }
+                                }
+                            }
+                        },
+                        "required": [
+                            "type",
+                            "attributes"
+                        ]
+                    }
+                },
+                "required": [
+                    "data"
+                ],
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: cost_codes/{COST_CODE_ID}GET (GET /cost_codes/{COST_CODE_ID})
+  {
+    name: "cost_codes/{COST_CODE_ID}GET",
+    description: `Get  Single Cost codes`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "COST_CODE_ID": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "COST_CODE_ID"
+        ]
+    }
+  },
+  // Tool: cost_codes/{COST_CODE_ID}DELETE (DELETE /cost_codes/{COST_CODE_ID})
+  {
+    name: "cost_codes/{COST_CODE_ID}DELETE",
+    description: `Delete  Cost codes`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "COST_CODE_ID": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "COST_CODE_ID"
+        ]
+    }
+  },
+  // Tool: cost_codes/{COST_CODE_ID}PATCH (PATCH /cost_codes/{COST_CODE_ID})
+  {
+    name: "cost_codes/{COST_CODE_ID}PATCH",
+    description: `Update  Cost codes`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "COST_CODE_ID": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "COST_CODE_ID"
+        ]
+    }
+  },
+  // Tool: employeesGET (GET /employees)
+  {
+    name: "employeesGET",
+    description: `Get employees`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[profiles]": {
+                "type": "string",
+                "description": "Fields: name,externalId,email \n\n On-Demand Fields: lists,menus,adjustable_permissions"
+            },
+            "fields[workTimeEntries]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "fields[productions]": {
+                "type": "string"
+            },
+            "filter[companyId]": {
+                "type": "number"
+            },
+            "filter[isActive]": {
+                "type": "boolean"
+            },
+            "filter[search]": {
+                "type": "string"
+            },
+            "filter[updated_at][gt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[updated_at][lt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "include": {
+                "type": "string"
+            },
+            "page[size]": {
+                "type": "number"
+            },
+            "page[number]": {
+                "type": "number"
+            },
+            "sort": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: employeesPOST (POST /employees)
+  {
+    name: "employeesPOST",
+    description: `Create employee`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "data": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string"
+                            },
+                            "attributes": {
+                                "type": "object",
+                                "properties": {
+                                    "name": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "visible": {
+                                        "type": "boolean",
+                                        "default": false,
+                                        "enum": [
+                                            true,
+                                            false
+                                        ]
+                                    },
+                                    "timezone": {
+                                        "type": "string"
+                                    },
+                                    "accountId": {
+                                        "type": "number"
+                                    },
+                                    "companyId": {
+                                        "type": "number"
+                                    },
+                                    "primaryContractorId": {
+                                        "type": "number"
+                                    },
+                                    "primaryBuildingId": {
+                                        "type": "number"
+                                    },
+                                    "externalId": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "importId": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "managerId": {
+                                        "type": "number"
+                                    },
+                                    "locationId": {
+                                        "type": "number"
+                                    },
+                                    "closeRate": {
+                                        "type": "number",
+                                        "format": "decimal",
+                                        "minimum": 0,
+                                        "maximum": 1
+                                    },
+                                    "options": {
+                                        "type": "object",
+                                        "properties": {
+                                            "billingAddress": {
+                                                "type": "string"
+                                            },
+                                            "isCreditHold": {
+                                                "type": "boolean"
+                                            },
+                                            "isTaxExempt": {
+                                                "type": "boolean"
+                                            },
+                                            "serviceBillingInstructions": {
+                                                "type": "string"
+                                            },
+                                            "serviceWorkInstructions": {
+                                                "type": "string"
+                                            },
+                                            "interactivePropertyUrl": {
+                                                "type": "string"
+                                            },
+                                            "taxCodeIds": {
+                                                "type": "array",
+                                                "items": {
+                                                    "type": "number"
+                                                }
+                                            }
+                                        }
+                                    },
+                                    "custom": {
+                                        "type": "object",
+                                        "properties": {
+                                            "roofSize": {
+                                                "type": "string"
+                                            }
+                                        }
+                                    }
+                                },
+                                "required": [
+                                    "name",
+                                    "visible",
+                                    "timezone"
+                                ]
+                            }
+                        },
+                        "required": [
+                            "type",
+                            "attributes"
+                        ]
+                    }
+                },
+                "required": [
+                    "data"
+                ],
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: employees/{EMPLOYEE_ID}GET (GET /employees/{EMPLOYEE_ID})
+  {
+    name: "employees/{EMPLOYEE_ID}GET",
+    description: `Get Single employee`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "EMPLOYEE_ID": {
+                "type": "string"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "EMPLOYEE_ID"
+        ]
+    }
+  },
+  // Tool: employees/{EMPLOYEE_ID}DELETE (DELETE /employees/{EMPLOYEE_ID})
+  {
+    name: "employees/{EMPLOYEE_ID}DELETE",
+    description: `Delete Purchase Orders`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "EMPLOYEE_ID": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "EMPLOYEE_ID"
+        ]
+    }
+  },
+  // Tool: employees/{EMPLOYEE_ID}PATCH (PATCH /employees/{EMPLOYEE_ID})
+  {
+    name: "employees/{EMPLOYEE_ID}PATCH",
+    description: `Update employee`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "EMPLOYEE_ID": {
+                "type": "string"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "EMPLOYEE_ID"
+        ]
+    }
+  },
+  // Tool: invoicesGET (GET /invoices)
+  {
+    name: "invoicesGET",
+    description: `Get invoice`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[productions]": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "filter[lastSentAt]": {
+                "type": "string",
+                "enum": [
+                    "lastSentAt",
+                    "invoiceDate"
+                ],
+                "description": "Value: lastSentAt,invoiceDate"
+            },
+            "filter[productionDomain]": {
+                "type": "string",
+                "enum": [
+                    "Service",
+                    "Production"
+                ],
+                "description": "Values: Service,Production"
+            },
+            "filter[productionWorkProfileId]": {
+                "type": "number"
+            },
+            "filter[productionTruckId]": {
+                "type": "string"
+            },
+            "filter[invoiceType]": {
+                "type": "string",
+                "enum": [
+                    "Leak",
+                    "Scope",
+                    "Warranty",
+                    "Inspection",
+                    "Non-Billable",
+                    "Rooftop Maintenance",
+                    "Snow Removal"
+                ],
+                "description": "Values: Leak, Scope, Warranty, Inspection, Non-Billable, Rooftop Maintenance, Snow Removal"
+            },
+            "filter[productionAccountManager]": {
+                "type": "number"
+            },
+            "filter[productionArchived]": {
+                "type": [
+                    "boolean",
+                    "string"
+                ],
+                "enum": [
+                    false,
+                    "null"
+                ],
+                "description": "Values: false,null"
+            },
+            "filter[hasBeenInvoiced]": {
+                "type": "boolean",
+                "description": "Values: if productionDomain is 'service' then true Otherwise null"
+            },
+            "filter[updated_at][gt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[updated_at][lt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "aggregates[subtotal][0]": {
+                "type": "string"
+            },
+            "aggregates[amount][0]": {
+                "type": "string"
+            },
+            "aggregates[margin][0]": {
+                "type": "string"
+            },
+            "aggregates[cost][0]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "sort": {
+                "type": "string"
+            },
+            "page[size]": {
+                "type": "number"
+            },
+            "page[number]": {
+                "type": "number"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: invoicesPOST (POST /invoices)
+  {
+    name: "invoicesPOST",
+    description: `Create invoice`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "data": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string"
+                            },
+                            "attributes": {
+                                "type": "object",
+                                "properties": {
+                                    "productionId": {
+                                        "type": "number"
+                                    },
+                                    "profileId": {
+                                        "type": "number"
+                                    },
+                                    "name": {
+                                        "type": "string",
+                                        "maxLength": 5
+                                    },
+                                    "uniqueKey": {
+                                        "type": "string",
+                                        "maxLength": 8
+                                    },
+                                    "uuid": {
+                                        "type": "string",
+                                        "format": "uuid",
+                                        "maxLength": 36
+                                    },
+                                    "amount": {
+                                        "type": "number",
+                                        "format": "decimal"
+                                    },
+                                    "invoiceDate": {
+                                        "type": "string",
+                                        "format": "date"
+                                    },
+                                    "dueDate": {
+                                        "type": "string",
+                                        "format": "date"
+                                    },
+                                    "lastSentAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "options": {
+                                        "type": "object",
+                                        "properties": {
+                                            "view": {
+                                                "type": "string"
+                                            },
+                                            "items": {
+                                                "type": "array",
+                                                "items": {
+                                                    "type": "object",
+                                                    "properties": {
+                                                        "type": {
+                                                            "type": "string"
+                                                        },
+                                                        "description": {
+                                                            "type": "string"
+                                                        },
+                                                        "workQuantity": {
+                                                            "type": "number"
+                                                        },
+                                                        "quantity": {
+                                                            "type": "number"
+                                                        },
+                                                        "unitCost": {
+                                                            "type": "number"
+                                                        },
+                                                        "unitPrice": {
+                                                            "type": "number"
+                                                        },
+                                                        "units": {
+                                                            "type": "string"
+                                                        },
+                                                        "costTotal": {
+                                                            "type": "number"
+                                                        },
+                                                        "total": {
+                                                            "type": "number"
+                                                        },
+                                                        "isVisible": {
+                                                            "type": "boolean"
+                                                        },
+                                                        "isTaxable": {
+                                                            "type": "boolean"
+                                                        },
+                                                        "workDate": {
+                                                            "type": "string",
+                                                            "format": "date"
+                                                        }
+                                                    }
+                                                }
+                                            },
+                                            "custom": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "job": {
+                                                        "type": [
+                                                            "string",
+                                                            "null"
+                                                        ]
+                                                    }
+                                                }
+                                            },
+                                            "total": {
+                                                "type": "number"
+                                            },
+                                            "margin": {
+                                                "type": "number"
+                                            },
+                                            "taxable": {
+                                                "type": "number"
+                                            },
+                                            "taxRate": {
+                                                "type": "number"
+                                            },
+                                            "subtotal": {
+                                                "type": "number"
+                                            },
+                                            "costTotal": {
+                                                "type": "number"
+                                            },
+                                            "signature": {
+                                                "type": "number"
+                                            },
+                                            "jobHours": {
+                                                "type": "number"
+                                            },
+                                            "checkoutName": {
+                                                "type": "number"
+                                            },
+                                            "costSubtotal": {
+                                                "type": "number"
+                                            },
+                                            "isTaxExempt": {
+                                                "type": "boolean"
+                                            },
+                                            "taxAmount": {
+                                                "type": "number"
+                                            },
+                                            "billingAddress": {
+                                                "type": "string"
+                                            },
+                                            "propertyAddress": {
+                                                "type": "string"
+                                            },
+                                            "profit": {
+                                                "type": "number"
+                                            },
+                                            "paymentTerms": {
+                                                "type": "string"
+                                            },
+                                            "profitPerHour": {
+                                                "type": "number"
+                                            },
+                                            "taxCodes": {
+                                                "type": "string"
+                                            },
+                                            "description": {
+                                                "type": "string"
+                                            },
+                                            "descriptionFontSize": {
+                                                "type": "string"
+                                            },
+                                            "isTaxOverride": {
+                                                "type": "boolean"
+                                            },
+                                            "isTaxCode": {
+                                                "type": "boolean"
+                                            }
+                                        }
+                                    },
+                                    "profit": {
+                                        "type": "number"
+                                    },
+                                    "materialTotal": {
+                                        "type": "number"
+                                    },
+                                    "materialCostTotal": {
+                                        "type": "number"
+                                    },
+                                    "laborTravelTotal": {
+                                        "type": "number"
+                                    },
+                                    "laborTravelCostTotal": {
+                                        "type": "number"
+                                    },
+                                    "otherTotal": {
+                                        "type": "number"
+                                    },
+                                    "otherCostTotal": {
+                                        "type": "number"
+                                    },
+                                    "paidAmount": {
+                                        "type": "number"
+                                    },
+                                    "invoiceNumber": {
+                                        "type": "string"
+                                    },
+                                    "previouslyInvoiced": {
+                                        "type": "number"
+                                    },
+                                    "previouslyInvoicedRate": {
+                                        "type": "number"
+                                    },
+                                    "invoiceRate": {
+                                        "type": "number"
+                                    },
+                                    "taxLabelOverride": {
+                                        "type": "string"
+                                    }
+                                },
+                                "required": [
+                                    "productionId"
+                                ]
+                            },
+                            "relationships": {
+                                "type": "object",
+                                "properties": {
+                                    "production": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                },
+                                                "required": [
+                                                    "id",
+                                                    "type"
+                                                ]
+                                            }
+                                        },
+                                        "required": [
+                                            "data"
+                                        ]
+                                    }
+                                },
+                                "required": [
+                                    "production"
+                                ]
+                            }
+                        },
+                        "required": [
+                            "type",
+                            "attributes",
+                            "relationships"
+                        ]
+                    }
+                },
+                "required": [
+                    "data"
+                ],
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: invoices/{INVOICE_ID}GET (GET /invoices/{INVOICE_ID})
+  {
+    name: "invoices/{INVOICE_ID}GET",
+    description: `Get Single invoice`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "INVOICE_ID": {
+                "type": "string"
+            },
+            "fields[transactions]": {
+                "type": "string"
+            },
+            "fields[productionDays]": {
+                "type": "string"
+            },
+            "fields[products]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "INVOICE_ID"
+        ]
+    }
+  },
+  // Tool: invoices/{INVOICE_ID}PATCH (PATCH /invoices/{INVOICE_ID})
+  {
+    name: "invoices/{INVOICE_ID}PATCH",
+    description: `Update invoice`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "INVOICE_ID": {
+                "type": "string"
+            },
+            "fields[transactions]": {
+                "type": "string"
+            },
+            "fields[productionDays]": {
+                "type": "string"
+            },
+            "fields[products]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "INVOICE_ID"
+        ]
+    }
+  },
+  // Tool: materialsGET (GET /materials)
+  {
+    name: "materialsGET",
+    description: `Get Materials`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[materials]": {
+                "type": "string"
+            },
+            "filter[isChild]": {
+                "type": "boolean"
+            },
+            "filter[manufacturer]": {
+                "type": "boolean"
+            },
+            "filter[updated_at][gt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[updated_at][lt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "include": {
+                "type": "string"
+            },
+            "page[size]": {
+                "type": "number"
+            },
+            "page[number]": {
+                "type": "number"
+            },
+            "sort": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: materialsPOST (POST /materials)
+  {
+    name: "materialsPOST",
+    description: `Create Materials`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "data": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string"
+                            },
+                            "attributes": {
+                                "type": "object",
+                                "properties": {
+                                    "name": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "domain": {
+                                        "type": "string",
+                                        "enum": [
+                                            "Service",
+                                            "Sales"
+                                        ]
+                                    },
+                                    "externalId": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "units": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "unitPrice": {
+                                        "type": "number",
+                                        "format": "float"
+                                    },
+                                    "description": {
+                                        "type": "string"
+                                    },
+                                    "correction": {
+                                        "type": "string"
+                                    },
+                                    "corrected": {
+                                        "type": "string"
+                                    }
+                                },
+                                "required": [
+                                    "name"
+                                ]
+                            }
+                        },
+                        "required": [
+                            "type",
+                            "attributes"
+                        ]
+                    }
+                },
+                "required": [
+                    "data"
+                ],
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: materials/{MATERIAL_ID}GET (GET /materials/{MATERIAL_ID})
+  {
+    name: "materials/{MATERIAL_ID}GET",
+    description: `Get Single Materials`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "MATERIAL_ID": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "MATERIAL_ID"
+        ]
+    }
+  },
+  // Tool: materials/{MATERIAL_ID}DELETE (DELETE /materials/{MATERIAL_ID})
+  {
+    name: "materials/{MATERIAL_ID}DELETE",
+    description: `Delete Materials`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "MATERIAL_ID": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "MATERIAL_ID"
+        ]
+    }
+  },
+  // Tool: materials/{MATERIAL_ID}PATCH (PATCH /materials/{MATERIAL_ID})
+  {
+    name: "materials/{MATERIAL_ID}PATCH",
+    description: `Update Materials`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "MATERIAL_ID": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "MATERIAL_ID"
+        ]
+    }
+  },
+  // Tool: opportunitiesGET (GET /opportunities)
+  {
+    name: "opportunitiesGET",
+    description: `**Recommended not to exceed page[size]=100 records per page.**`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[productions]": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "fields[leadTypes]": {
+                "type": "string"
+            },
+            "fields[workflowStages]": {
+                "type": "string"
+            },
+            "fields[buildingDivisions]": {
+                "type": "string"
+            },
+            "filter[latestStageTransitionedAt]": {
+                "type": "string",
+                "enum": [
+                    "latestStageTransitionedAt",
+                    "leadOpenedAt",
+                    "openedAt",
+                    "leadQuotedAt",
+                    "leadSoldAt",
+                    "projectedCloseDate",
+                    "salesDates"
+                ],
+                "description": "Values: latestStageTransitionedAt,leadOpenedAt,openedAt,leadQuotedAt,leadSoldAt,projectedCloseDate,salesDates"
+            },
+            "filter[salesProfile]": {
+                "type": "string"
+            },
+            "filter[opportunityType]": {
+                "type": "string"
+            },
+            "filter[isArchived]": {
+                "type": "boolean",
+                "description": "Values: false, true"
+            },
+            "filter[forecastedAt]": {
+                "type": [
+                    "boolean",
+                    "string"
+                ],
+                "enum": [
+                    true,
+                    "null"
+                ],
+                "description": "Values: true, null"
+            },
+            "filter[status]": {
+                "type": "string",
+                "enum": [
+                    "lead_opened",
+                    "lead_pending",
+                    "lead_quoted",
+                    "lead_sold",
+                    "lead_dead"
+                ],
+                "description": "Values: lead_opened,lead_pending,lead_quoted,lead_sold, lead_dead"
+            },
+            "filter[workflowStageId]": {
+                "type": "string",
+                "enum": [
+                    "4",
+                    "5",
+                    "6",
+                    "7",
+                    "8",
+                    "9",
+                    "10",
+                    "11",
+                    "12",
+                    "13"
+                ],
+                "description": "Values: Finalize Repairs=4, Quote Repairs=5, Pre-Approve Replacement=6, Estimate=7, Finalize Replacement=8, Quote Replacement=9, Presentation=10, Pending=11, Accepted=12, Declined=13"
+            },
+            "filter[leadType]": {
+                "type": "string",
+                "enum": [
+                    "43",
+                    "42"
+                ],
+                "description": "Values: 43,42"
+            },
+            "filter[custom.division]": {
+                "type": "string"
+            },
+            "filter[search]": {
+                "type": "string"
+            },
+            "filter[isOpportunity]": {
+                "type": "boolean"
+            },
+            "reports[0]": {
+                "type": "string"
+            },
+            "reports[1]": {
+                "type": "string"
+            },
+            "reports[2]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "page[size]": {
+                "type": "number"
+            },
+            "page[number]": {
+                "type": "number"
+            },
+            "sort": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: opportunitiesPOST (POST /opportunities)
+  {
+    name: "opportunitiesPOST",
+    description: `Create opportunity`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[productions]": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[documents]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[buildingDivisions]": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "fields[primaryProposal]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "data": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string"
+                            },
+                            "attributes": {
+                                "type": "object",
+                                "properties": {
+                                    "domain": {
+                                        "type": "string",
+                                        "enum": [
+                                            "Production",
+                                            "Sales",
+                                            "Service"
+                                        ]
+                                    },
+                                    "opportunityType": {
+                                        "type": "string",
+                                        "maxLength": 100
+                                    },
+                                    "type": {
+                                        "type": "string",
+                                        "enum": [
+                                            "Dumpsters",
+                                            "Metal",
+                                            "New Construction",
+                                            "Re-Roof",
+                                            "Sales",
+                                            "Service"
+                                        ]
+                                    },
+                                    "dueDate": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "oldDueDate": {
+                                        "type": "string",
+                                        "format": "date"
+                                    },
+                                    "dueDateHasTime": {
+                                        "type": "boolean",
+                                        "default": false,
+                                        "enum": [
+                                            true,
+                                            false
+                                        ]
+                                    },
+                                    "status": {
+                                        "type": "string",
+                                        "enum": [
+                                            "lead_pending",
+                                            "lead_quoted",
+                                            "lead_dead"
+                                        ]
+                                    },
+                                    "estimateTotals": {
+                                        "type": "object",
+                                        "properties": {
+                                            "material": {
+                                                "type": "number"
+                                            },
+                                            "labor": {
+                                                "type": "number"
+                                            },
+                                            "laborHours": {
+                                                "type": "number"
+                                            },
+                                            "other": {
+                                                "type": "number"
+                                            },
+                                            "taxable": {
+                                                "type": "number"
+                                            },
+                                            "tax": {
+                                                "type": "number"
+                                            },
+                                            "cost": {
+                                                "type": "number"
+                                            },
+                                            "margin": {
+                                                "type": "number"
+                                            },
+                                            "price": {
+                                                "type": "number"
+                                            }
+                                        }
+                                    },
+                                    "workProfileId": {
+                                        "type": "number"
+                                    },
+                                    "service_workflow": {
+                                        "type": "object"
+                                    },
+                                    "projectedCloseDate": {
+                                        "type": "string",
+                                        "format": "date"
+                                    },
+                                    "contractorCompanyId": {
+                                        "type": "number"
+                                    },
+                                    "leadTypeId": {
+                                        "type": "number"
+                                    },
+                                    "forecastedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "latestStageTransitionedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "leadOpenedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "leadPendingAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "leadQuotedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "leadSoldAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "leadDeadAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "workflowType": {
+                                        "type": "string"
+                                    },
+                                    "workType": {
+                                        "type": "string",
+                                        "enum": [
+                                            "Leak",
+                                            "Scope",
+                                            "Warranty",
+                                            "Inspection",
+                                            "Non-Billable",
+                                            "Rooftop Maintenance",
+                                            "Snow Removal"
+                                        ]
+                                    },
+                                    "options": {
+                                        "type": "object",
+                                        "properties": {
+                                            "notifications": {
+                                                "type": "string",
+                                                "enum": [
+                                                    "On",
+                                                    "Off"
+                                                ]
+                                            },
+                                            "contractorNTE": {
+                                                "type": "string"
+                                            },
+                                            "nte": {
+                                                "type": "string"
+                                            },
+                                            "truckId": {
+                                                "type": "string"
+                                            },
+                                            "attachmentId": {
+                                                "type": "string"
+                                            },
+                                            "signatureData": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "isChecked": {
+                                                        "type": "boolean"
+                                                    },
+                                                    "name": {
+                                                        "type": "string"
+                                                    },
+                                                    "file": {
+                                                        "type": "string"
+                                                    },
+                                                    "date": {
+                                                        "type": "string"
+                                                    },
+                                                    "purchaseOrder": {
+                                                        "type": "string"
+                                                    }
+                                                }
+                                            }
+                                        }
+                                    },
+                                    "name": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "namePrefix": {
+                                        "type": "string",
+                                        "maxLength": 6
+                                    },
+                                    "nameNumber": {
+                                        "type": "number",
+                                        "format": "int32"
+                                    },
+                                    "description": {
+                                        "type": "string"
+                                    },
+                                    "invoicePurchaseOrder": {
+                                        "type": "string",
+                                        "maxLength": 50
+                                    },
+                                    "price": {
+                                        "type": "number",
+                                        "format": "float",
+                                        "minimum": 0,
+                                        "maximum": 9999999999.99
+                                    },
+                                    "workRate": {
+                                        "type": "number",
+                                        "format": "float",
+                                        "minimum": 0,
+                                        "maximum": 9999999999.99
+                                    },
+                                    "startDate": {
+                                        "type": "string",
+                                        "format": "date"
+                                    },
+                                    "estimatedStartDate": {
+                                        "type": "string",
+                                        "format": "date"
+                                    },
+                                    "startTime": {
+                                        "type": "string",
+                                        "format": "time"
+                                    },
+                                    "endDate": {
+                                        "type": "string",
+                                        "format": "date"
+                                    },
+                                    "archivedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "heldAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "serviceApprovedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "isApprovalRequired": {
+                                        "type": "boolean",
+                                        "enum": [
+                                            true,
+                                            false
+                                        ]
+                                    },
+                                    "cost": {
+                                        "type": "number",
+                                        "format": "float",
+                                        "minimum": 0,
+                                        "maximum": 9999999999.99
+                                    },
+                                    "markAsScheduled": {
+                                        "type": "boolean"
+                                    },
+                                    "multipleDays": {
+                                        "type": "boolean"
+                                    },
+                                    "custom": {
+                                        "type": "object"
+                                    },
+                                    "openedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "scheduledAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "startedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "completedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "invoicedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "closedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    }
+                                },
+                                "required": [
+                                    "domain"
+                                ]
+                            },
+                            "relationships": {
+                                "type": "object",
+                                "properties": {
+                                    "billedCompany": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                }
+                                            }
+                                        }
+                                    },
+                                    "property": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                }
+                                            }
+                                        }
+                                    }
+                                }
+                            }
+                        },
+                        "required": [
+                            "type",
+                            "attributes"
+                        ]
+                    }
+                },
+                "required": [
+                    "data"
+                ],
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: opportunities/{OPPORTUNITY_ID}GET (GET /opportunities/{OPPORTUNITY_ID})
+  {
+    name: "opportunities/{OPPORTUNITY_ID}GET",
+    description: `Get Single production`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "OPPORTUNITY_ID": {
+                "type": "string"
+            },
+            "fields[productions]": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[documents]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[buildingDivisions]": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "fields[primaryProposal]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "OPPORTUNITY_ID"
+        ]
+    }
+  },
+  // Tool: opportunities/{OPPORTUNITY_ID}DELETE (DELETE /opportunities/{OPPORTUNITY_ID})
+  {
+    name: "opportunities/{OPPORTUNITY_ID}DELETE",
+    description: `Delete production`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "OPPORTUNITY_ID": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "OPPORTUNITY_ID"
+        ]
+    }
+  },
+  // Tool: opportunities/{OPPORTUNITY_ID}PATCH (PATCH /opportunities/{OPPORTUNITY_ID})
+  {
+    name: "opportunities/{OPPORTUNITY_ID}PATCH",
+    description: `Update opportunity`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "OPPORTUNITY_ID": {
+                "type": "string"
+            },
+            "fields[productions]": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[documents]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[buildingDivisions]": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "fields[primaryProposal]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "OPPORTUNITY_ID"
+        ]
+    }
+  },
+  // Tool: product_templatesGET (GET /product_templates)
+  {
+    name: "product_templatesGET",
+    description: `Get Repair Library`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "filter[domain]": {
+                "type": "string",
+                "enum": [
+                    "Service",
+                    "Sales"
+                ],
+                "description": "Values: Service, Sales"
+            },
+            "filter[updated_at][gt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[updated_at][lt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "include": {
+                "type": "string"
+            },
+            "page[size]": {
+                "type": "number"
+            },
+            "page[number]": {
+                "type": "number"
+            },
+            "sort": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: product_templatesPOST (POST /product_templates)
+  {
+    name: "product_templatesPOST",
+    description: `Create Repair Library`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "data": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string"
+                            },
+                            "attributes": {
+                                "type": "object",
+                                "properties": {
+                                    "name": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "domain": {
+                                        "type": "string",
+                                        "enum": [
+                                            "Service",
+                                            "Sales"
+                                        ]
+                                    },
+                                    "externalId": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "units": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "unitPrice": {
+                                        "type": "number",
+                                        "format": "float"
+                                    },
+                                    "description": {
+                                        "type": "string"
+                                    },
+                                    "correction": {
+                                        "type": "string"
+                                    },
+                                    "corrected": {
+                                        "type": "string"
+                                    }
+                                },
+                                "required": [
+                                    "name"
+                                ]
+                            }
+                        },
+                        "required": [
+                            "type",
+                            "attributes"
+                        ]
+                    }
+                },
+                "required": [
+                    "data"
+                ],
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: product_templates/{PRODUCT_TEMPLATE_ID}GET (GET /product_templates/{PRODUCT_TEMPLATE_ID})
+  {
+    name: "product_templates/{PRODUCT_TEMPLATE_ID}GET",
+    description: `Get Single Repair Library`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "PRODUCT_TEMPLATE_ID": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "PRODUCT_TEMPLATE_ID"
+        ]
+    }
+  },
+  // Tool: product_templates/{PRODUCT_TEMPLATE_ID}DELETE (DELETE /product_templates/{PRODUCT_TEMPLATE_ID})
+  {
+    name: "product_templates/{PRODUCT_TEMPLATE_ID}DELETE",
+    description: `Delete Repair Library`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "PRODUCT_TEMPLATE_ID": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "PRODUCT_TEMPLATE_ID"
+        ]
+    }
+  },
+  // Tool: product_templates/{PRODUCT_TEMPLATE_ID}PATCH (PATCH /product_templates/{PRODUCT_TEMPLATE_ID})
+  {
+    name: "product_templates/{PRODUCT_TEMPLATE_ID}PATCH",
+    description: `Update Repair Library`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "PRODUCT_TEMPLATE_ID": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "PRODUCT_TEMPLATE_ID"
+        ]
+    }
+  },
+  // Tool: production_materialsGET (GET /production_materials)
+  {
+    name: "production_materialsGET",
+    description: `Get Material Usage`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[productionMaterials]": {
+                "type": "string",
+                "description": "Fields: name,cost \n\n On-Demand Feilds: price"
+            },
+            "fields[productions]": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[materials]": {
+                "type": "string"
+            },
+            "filter[createdAt][gt]": {
+                "type": "string",
+                "description": "Values: Today, This Week, This Month, 3 Months, This Year, Custom, All Time"
+            },
+            "filter[createdAt][lt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[createdAt][timezone]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "page[size]": {
+                "type": "number"
+            },
+            "page[number]": {
+                "type": "number"
+            },
+            "sort": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: production_materialsPOST (POST /production_materials)
+  {
+    name: "production_materialsPOST",
+    description: `Create Material Usage`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[productionMaterials]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "data": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string"
+                            },
+                            "attributes": {
+                                "type": "object",
+                                "properties": {
+                                    "name": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "quantity": {
+                                        "type": "number",
+                                        "format": "float"
+                                    },
+                                    "units": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "unit_cost": {
+                                        "type": "number",
+                                        "format": "float"
+                                    },
+                                    "cost": {
+                                        "type": "number",
+                                        "format": "float"
+                                    }
+                                },
+                                "required": [
+                                    "name",
+                                    "quantity"
+                                ]
+                            },
+                            "relationships": {
+                                "type": "object",
+                                "properties": {
+                                    "production": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                },
+                                                "required": [
+                                                    "id",
+                                                    "type"
+                                                ]
+                                            }
+                                        },
+                                        "required": [
+                                            "data"
+                                        ]
+                                    }
+                                },
+                                "required": [
+                                    "production"
+                                ]
+                            }
+                        },
+                        "required": [
+                            "type",
+                            "attributes",
+                            "relationships"
+                        ]
+                    }
+                },
+                "required": [
+                    "data"
+                ],
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: production_materials/{PRODUCTION_MATERIAL_ID}DELETE (DELETE /production_materials/{PRODUCTION_MATERIAL_ID})
+  {
+    name: "production_materials/{PRODUCTION_MATERIAL_ID}DELETE",
+    description: `Delete Material Usage`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "PRODUCTION_MATERIAL_ID": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "PRODUCTION_MATERIAL_ID"
+        ]
+    }
+  },
+  // Tool: production_materials/{PRODUCTION_MATERIAL_ID}PATCH (PATCH /production_materials/{PRODUCTION_MATERIAL_ID})
+  {
+    name: "production_materials/{PRODUCTION_MATERIAL_ID}PATCH",
+    description: `Update Material Usage`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "PRODUCTION_MATERIAL_ID": {
+                "type": "string"
+            },
+            "fields[productionMaterials]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "PRODUCTION_MATERIAL_ID"
+        ]
+    }
+  },
+  // Tool: productionsGET (GET /productions)
+  {
+    name: "productionsGET",
+    description: `**Recommended not to exceed page[size]=100 records per page.**`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[productions]": {
+                "type": "string",
+                "description": "Fields: property,propertyCompany,billedCompany \n\n On-Demand Fields: modelFileTagCounts"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "fields[buildingDivisions]": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "fields[locations]": {
+                "type": "string"
+            },
+            "fields[subcontractorProfiles]": {
+                "type": "string"
+            },
+            "fields[workflowStages]": {
+                "type": "string"
+            },
+            "filter[latestStageTransitionedAt]": {
+                "type": "string",
+                "enum": [
+                    "latestStageTransitionedAt",
+                    "openedAt",
+                    "completedAt"
+                ],
+                "description": "Values:  latestStageTransitionedAt,openedAt,completedAt"
+            },
+            "filter[location]": {
+                "type": "string"
+            },
+            "filter[isArchived]": {
+                "type": "boolean"
+            },
+            "filter[domain]": {
+                "type": "string"
+            },
+            "filter[worker]": {
+                "type": "string"
+            },
+            "filter[status]": {
+                "type": "string",
+                "enum": [
+                    "opened",
+                    "scheduled",
+                    "started",
+                    "completed",
+                    "closed"
+                ],
+                "description": "Values: opened, scheduled, started, completed, closed"
+            },
+            "filter[workflowStageId]": {
+                "type": "string",
+                "enum": [
+                    "23",
+                    "24",
+                    "25",
+                    "26",
+                    "27",
+                    "28",
+                    "29",
+                    "30",
+                    "31",
+                    "32",
+                    "33",
+                    "34",
+                    "35"
+                ],
+                "description": "Values: New Project=23, Job # & Invoice=24, Order Materials=25, Logistics=26,   Deposit Paid=27, Scheduled=28, In Progress=29, Complete=30, Final Invoice=31, Final=32, Warranty Inspection Requested=33, Warranty Received=34, Closed=35"
+            },
+            "filter[search]": {
+                "type": "string"
+            },
+            "filter[updated_at][gt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[updated_at][lt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "include": {
+                "type": "string"
+            },
+            "page[size]": {
+                "type": "number"
+            },
+            "page[number]": {
+                "type": "number"
+            },
+            "sort": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: productions/{PRODUCTION_ID}GET (GET /productions/{PRODUCTION_ID})
+  {
+    name: "productions/{PRODUCTION_ID}GET",
+    description: `Get Single production`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "PRODUCTION_ID": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[productionDays]": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "PRODUCTION_ID"
+        ]
+    }
+  },
+  // Tool: productions/{PRODUCTION_ID}DELETE (DELETE /productions/{PRODUCTION_ID})
+  {
+    name: "productions/{PRODUCTION_ID}DELETE",
+    description: `Delete production`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "PRODUCTION_ID": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "PRODUCTION_ID"
+        ]
+    }
+  },
+  // Tool: productions/{PRODUCTION_ID}PATCH (PATCH /productions/{PRODUCTION_ID})
+  {
+    name: "productions/{PRODUCTION_ID}PATCH",
+    description: `Update production`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "PRODUCTION_ID": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[productionDays]": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "PRODUCTION_ID"
+        ]
+    }
+  },
+  // Tool: productions/{PRODUCTION_ID}/production_materialsGET (GET /productions/{PRODUCTION_ID}/production_materials)
+  {
+    name: "productions/{PRODUCTION_ID}/production_materialsGET",
+    description: `Get Single Materials`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "PRODUCTION_ID": {
+                "type": "string"
+            },
+            "page[size]": {
+                "type": "number"
+            },
+            "page[number]": {
+                "type": "number"
+            },
+            "sort": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "PRODUCTION_ID"
+        ]
+    }
+  },
+  // Tool: productions/{PRODUCTION_ID}/purchase_ordersGET (GET /productions/{PRODUCTION_ID}/purchase_orders)
+  {
+    name: "productions/{PRODUCTION_ID}/purchase_ordersGET",
+    description: `Get Single Purchase Orders`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "PRODUCTION_ID": {
+                "type": "string"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "page[size]": {
+                "type": "number"
+            },
+            "page[number]": {
+                "type": "number"
+            },
+            "sort": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "PRODUCTION_ID"
+        ]
+    }
+  },
+  // Tool: profilesGET (GET /profiles)
+  {
+    name: "profilesGET",
+    description: `Get contacts`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "filter[company.type]": {
+                "type": "string",
+                "enum": [
+                    "company",
+                    "corporate",
+                    "vendor",
+                    "residential"
+                ],
+                "description": "Values: company, corporate, vendor, residential"
+            },
+            "filter[company.saleStatus]": {
+                "type": "string",
+                "enum": [
+                    "Lead",
+                    "Sold",
+                    "Quoted",
+                    "Dead"
+                ],
+                "description": "Values: Lead, Sold, Quoted, Dead"
+            },
+            "filter[company.managerId]": {
+                "type": "number"
+            },
+            "include": {
+                "type": "string"
+            },
+            "filter[updated_at][gt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[updated_at][lt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "page[size]": {
+                "type": "number"
+            },
+            "page[number]": {
+                "type": "number"
+            },
+            "sort": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: profilesPOST (POST /profiles)
+  {
+    name: "profilesPOST",
+    description: `Create contact`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "data": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string"
+                            },
+                            "attributes": {
+                                "type": "object",
+                                "properties": {
+                                    "name": {
+                                        "type": "string",
+                                        "maxLength": 50
+                                    },
+                                    "companyId": {
+                                        "type": "number"
+                                    },
+                                    "userId": {
+                                        "type": "number"
+                                    },
+                                    "userRoleId": {
+                                        "type": "number"
+                                    },
+                                    "groupId": {
+                                        "type": "number"
+                                    },
+                                    "externalId": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "importId": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "email": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "position": {
+                                        "type": "string",
+                                        "maxLength": 50
+                                    },
+                                    "office": {
+                                        "type": "string",
+                                        "maxLength": 12
+                                    },
+                                    "officeExt": {
+                                        "type": "string",
+                                        "maxLength": 8
+                                    },
+                                    "mobile": {
+                                        "type": "string",
+                                        "maxLength": 12
+                                    },
+                                    "fax": {
+                                        "type": "string",
+                                        "maxLength": 12
+                                    },
+                                    "imageId": {
+                                        "type": "number"
+                                    },
+                                    "isActive": {
+                                        "type": "boolean",
+                                        "default": true,
+                                        "enum": [
+                                            true,
+                                            false
+                                        ]
+                                    },
+                                    "allProperties": {
+                                        "type": "integer",
+                                        "default": 0,
+                                        "enum": [
+                                            1,
+                                            0
+                                        ]
+                                    },
+                                    "isBilling": {
+                                        "type": "integer",
+                                        "default": 0,
+                                        "enum": [
+                                            1,
+                                            0
+                                        ]
+                                    },
+                                    "options": {
+                                        "type": "object",
+                                        "properties": {
+                                            "truckId": {
+                                                "type": "string"
+                                            },
+                                            "laborCost": {
+                                                "type": "number"
+                                            },
+                                            "propertyIds": {
+                                                "type": "array",
+                                                "items": {
+                                                    "type": "number"
+                                                }
+                                            },
+                                            "serviceNotifications": {
+                                                "type": "object"
+                                            },
+                                            "serviceNotificationsProperty": {
+                                                "type": "object"
+                                            },
+                                            "serviceNotificationsCompany": {
+                                                "type": "object"
+                                            },
+                                            "serviceNotificationsTexas": {
+                                                "type": "object"
+                                            },
+                                            "serviceNotificationsNonTexas": {
+                                                "type": "object"
+                                            },
+                                            "serviceNotificationsCorporate": {
+                                                "type": "object"
+                                            },
+                                            "serviceNotificationsNonCorporate": {
+                                                "type": "object"
+                                            },
+                                            "productionNotifications": {
+                                                "type": "object"
+                                            },
+                                            "productionNotificationsCorporate": {
+                                                "type": "object"
+                                            },
+                                            "productionNotificationsNonCorporate": {
+                                                "type": "object"
+                                            },
+                                            "productionNotificationsCompany": {
+                                                "type": "object"
+                                            },
+                                            "productionNotificationsProperty": {
+                                                "type": "object"
+                                            },
+                                            "allowedFileLibraryTags": {
+                                                "type": "array",
+                                                "items": {
+                                                    "type": "string"
+                                                }
+                                            },
+                                            "allowedMenuItems": {
+                                                "type": "array",
+                                                "items": {
+                                                    "type": "string"
+                                                }
+                                            },
+                                            "emailSignature": {
+                                                "type": "string"
+                                            }
+                                        }
+                                    },
+                                    "timezone": {
+                                        "type": "string"
+                                    },
+                                    "lists": {
+                                        "type": "object",
+                                        "properties": {
+                                            "accountManagers": {
+                                                "type": "boolean"
+                                            },
+                                            "projectManagers": {
+                                                "type": "boolean"
+                                            },
+                                            "serviceHelpers": {
+                                                "type": "boolean"
+                                            },
+                                            "technicians": {
+                                                "type": "boolean"
+                                            }
+                                        }
+                                    },
+                                    "adjustablePermissions": {
+                                        "type": "object",
+                                        "properties": {
+                                            "timekeeping.update": {
+                                                "type": "boolean"
+                                            },
+                                            "drawings.pricing.update": {
+                                                "type": "boolean"
+                                            },
+                                            "account.download": {
+                                                "type": "boolean"
+                                            }
+                                        }
+                                    },
+                                    "custom": {
+                                        "type": "object"
+                                    }
+                                },
+                                "required": [
+                                    "name"
+                                ]
+                            }
+                        },
+                        "required": [
+                            "type",
+                            "attributes"
+                        ]
+                    }
+                },
+                "required": [
+                    "data"
+                ],
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: profiles/{PROFILE_ID}GET (GET /profiles/{PROFILE_ID})
+  {
+    name: "profiles/{PROFILE_ID}GET",
+    description: `Get Single contact`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "PROFILE_ID": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "PROFILE_ID"
+        ]
+    }
+  },
+  // Tool: profiles/{PROFILE_ID}DELETE (DELETE /profiles/{PROFILE_ID})
+  {
+    name: "profiles/{PROFILE_ID}DELETE",
+    description: `Delete contact`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "PROFILE_ID": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "PROFILE_ID"
+        ]
+    }
+  },
+  // Tool: profiles/{PROFILE_ID}PATCH (PATCH /profiles/{PROFILE_ID})
+  {
+    name: "profiles/{PROFILE_ID}PATCH",
+    description: `Update contact`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "PROFILE_ID": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "PROFILE_ID"
+        ]
+    }
+  },
+  // Tool: propertiesGET (GET /properties)
+  {
+    name: "propertiesGET",
+    description: `Get properties`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[properties]": {
+                "type": "string",
+                "description": "Fields: manager,company,primaryContractor \n\n On-Demand Fields: modelFileTagCounts"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[locations]": {
+                "type": "string"
+            },
+            "filter[type]": {
+                "type": "string"
+            },
+            "filter[location]": {
+                "type": "string"
+            },
+            "filter[roofSize]": {
+                "type": "string"
+            },
+            "filter[search]": {
+                "type": "string"
+            },
+            "filter[updated_at][gt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[updated_at][lt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "include": {
+                "type": "string"
+            },
+            "page[size]": {
+                "type": "number"
+            },
+            "page[number]": {
+                "type": "number"
+            },
+            "sort": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: propertiesPOST (POST /properties)
+  {
+    name: "propertiesPOST",
+    description: `Create property`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[properties]": {
+                "type": "string"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "data": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string"
+                            },
+                            "attributes": {
+                                "type": "object",
+                                "properties": {
+                                    "name": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "visible": {
+                                        "type": "boolean",
+                                        "default": false,
+                                        "enum": [
+                                            true,
+                                            false
+                                        ]
+                                    },
+                                    "timezone": {
+                                        "type": "string"
+                                    },
+                                    "accountId": {
+                                        "type": "number"
+                                    },
+                                    "companyId": {
+                                        "type": "number"
+                                    },
+                                    "primaryContractorId": {
+                                        "type": "number"
+                                    },
+                                    "primaryBuildingId": {
+                                        "type": "number"
+                                    },
+                                    "externalId": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "importId": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "managerId": {
+                                        "type": "number"
+                                    },
+                                    "locationId": {
+                                        "type": "number"
+                                    },
+                                    "closeRate": {
+                                        "type": "number",
+                                        "format": "decimal",
+                                        "minimum": 0,
+                                        "maximum": 1
+                                    },
+                                    "options": {
+                                        "type": "object",
+                                        "properties": {
+                                            "billingAddress": {
+                                                "type": "string"
+                                            },
+                                            "isCreditHold": {
+                                                "type": "boolean"
+                                            },
+                                            "isTaxExempt": {
+                                                "type": "boolean"
+                                            },
+                                            "serviceBillingInstructions": {
+                                                "type": "string"
+                                            },
+                                            "serviceWorkInstructions": {
+                                                "type": "string"
+                                            },
+                                            "interactivePropertyUrl": {
+                                                "type": "string"
+                                            },
+                                            "taxCodeIds": {
+                                                "type": "array",
+                                                "items": {
+                                                    "type": "number"
+                                                }
+                                            }
+                                        }
+                                    },
+                                    "custom": {
+                                        "type": "object",
+                                        "properties": {
+                                            "roofSize": {
+                                                "type": "string"
+                                            }
+                                        }
+                                    }
+                                },
+                                "required": [
+                                    "name",
+                                    "visible",
+                                    "timezone"
+                                ]
+                            }
+                        },
+                        "required": [
+                            "type",
+                            "attributes"
+                        ]
+                    }
+                },
+                "required": [
+                    "data"
+                ],
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: properties/{PROPERTY_ID}GET (GET /properties/{PROPERTY_ID})
+  {
+    name: "properties/{PROPERTY_ID}GET",
+    description: `Get Single property`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "PROPERTY_ID": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "PROPERTY_ID"
+        ]
+    }
+  },
+  // Tool: properties/{PROPERTY_ID}DELETE (DELETE /properties/{PROPERTY_ID})
+  {
+    name: "properties/{PROPERTY_ID}DELETE",
+    description: `Delete property`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "PROPERTY_ID": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "PROPERTY_ID"
+        ]
+    }
+  },
+  // Tool: properties/{PROPERTY_ID}PATCH (PATCH /properties/{PROPERTY_ID})
+  {
+    name: "properties/{PROPERTY_ID}PATCH",
+    description: `Update property`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "PROPERTY_ID": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "PROPERTY_ID"
+        ]
+    }
+  },
+  // Tool: purchase_ordersGET (GET /purchase_orders)
+  {
+    name: "purchase_ordersGET",
+    description: `Get Purchase Orders`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "filter[productionDomain]": {
+                "type": "string",
+                "enum": [
+                    "Service",
+                    "Production"
+                ],
+                "description": "Values: Service, Production"
+            },
+            "filter[workDate][gt]": {
+                "type": "string",
+                "format": "date"
+            },
+            "filter[workDate][lt]": {
+                "type": "string",
+                "format": "date"
+            },
+            "filter[workDate][timezone]": {
+                "type": "string"
+            },
+            "filter[updated_at][gt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[updated_at][lt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "include": {
+                "type": "string"
+            },
+            "page[size]": {
+                "type": "number"
+            },
+            "page[number]": {
+                "type": "number"
+            },
+            "sort": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: purchase_ordersPOST (POST /purchase_orders)
+  {
+    name: "purchase_ordersPOST",
+    description: `Create Purchase Orders`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "data": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string"
+                            },
+                            "attributes": {
+                                "type": "object",
+                                "properties": {
+                                    "workDate": {
+                                        "type": "string",
+                                        "format": "date"
+                                    },
+                                    "price": {
+                                        "type": "number",
+                                        "format": "float"
+                                    },
+                                    "externalId": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "name": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "description": {
+                                        "type": "string"
+                                    },
+                                    "approvedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    }
+                                },
+                                "required": [
+                                    "workDate",
+                                    "price",
+                                    "externalId"
+                                ]
+                            },
+                            "relationships": {
+                                "type": "object",
+                                "properties": {
+                                    "production": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                },
+                                                "required": [
+                                                    "id",
+                                                    "type"
+                                                ]
+                                            }
+                                        },
+                                        "required": [
+                                            "data"
+                                        ]
+                                    },
+                                    "budget": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                },
+                                                "required": [
+                                                    "id",
+                                                    "type"
+                                                ]
+                                            }
+                                        },
+                                        "required": [
+                                            "data"
+                                        ]
+                                    }
+                                }
+                            }
+                        },
+                        "required": [
+                            "type",
+                            "attributes"
+                        ]
+                    }
+                },
+                "required": [
+                    "data"
+                ],
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: purchase_orders/{PURCHASE_ORDER_ID}DELETE (DELETE /purchase_orders/{PURCHASE_ORDER_ID})
+  {
+    name: "purchase_orders/{PURCHASE_ORDER_ID}DELETE",
+    description: `Delete Purchase Orders`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "PURCHASE_ORDER_ID": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "PURCHASE_ORDER_ID"
+        ]
+    }
+  },
+  // Tool: purchase_orders/{PURCHASE_ORDER_ID}PATCH (PATCH /purchase_orders/{PURCHASE_ORDER_ID})
+  {
+    name: "purchase_orders/{PURCHASE_ORDER_ID}PATCH",
+    description: `Update Purchase Orders`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "PURCHASE_ORDER_ID": {
+                "type": "string"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "PURCHASE_ORDER_ID"
+        ]
+    }
+  },
+  // Tool: servicesGET (GET /services)
+  {
+    name: "servicesGET",
+    description: `**Recommended not to exceed page[size]=100 records per page.**`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[productions]": {
+                "type": "string",
+                "description": "Fields: property,propertyCompany,billedCompany \n\n On-Demand Fields: total_change_order,total_approved_change_order,estimated_cost"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "fields[buildingDivisions]": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "fields[locations]": {
+                "type": "string"
+            },
+            "fields[subcontractorProfiles]": {
+                "type": "string"
+            },
+            "fields[workflowStages]": {
+                "type": "string"
+            },
+            "filter[latestStageTransitionedAt]": {
+                "type": "string",
+                "enum": [
+                    "latestStageTransitionedAt",
+                    "openedAt",
+                    "completedAt",
+                    "invoicedAt",
+                    "createdAt"
+                ],
+                "description": "Values:  latestStageTransitionedAt,openedAt,completedAt,invoicedAt,createdAt"
+            },
+            "filter[isArchived]": {
+                "type": [
+                    "boolean",
+                    "string"
+                ],
+                "enum": [
+                    false,
+                    "null"
+                ],
+                "description": "Values: false,null"
+            },
+            "filter[domain]": {
+                "type": "string"
+            },
+            "filter[isHeld]": {
+                "type": "string",
+                "enum": [
+                    "true",
+                    "null"
+                ],
+                "description": "Values: true,null"
+            },
+            "filter[workflowStageId]": {
+                "type": "string",
+                "enum": [
+                    "14",
+                    "15",
+                    "16",
+                    "17",
+                    "18",
+                    "19",
+                    "20",
+                    "21",
+                    "22"
+                ],
+                "description": "Values: New Service=14,Accepted=15,Scheduled=16,En Route=17,In Progress=18,Completed=19,Authorized=20,Invoiced=21,Closed=22"
+            },
+            "filter[workType]": {
+                "type": "string",
+                "enum": [
+                    "Leak",
+                    "Scope",
+                    "Warranty",
+                    "Inspection",
+                    "Non-Billable",
+                    "Rooftop Maintenance",
+                    "Snow Removal"
+                ],
+                "description": "Values: Leak,Scope,Warranty,Inspection,Non-Billable,Rooftop Maintenance,Snow Removal"
+            },
+            "filter[managerId]": {
+                "type": "string"
+            },
+            "filter[worker]": {
+                "type": "string"
+            },
+            "filter[location]": {
+                "type": "string"
+            },
+            "filter[custom.division]": {
+                "type": "string"
+            },
+            "filter[search]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "page[size]": {
+                "type": "number"
+            },
+            "page[number]": {
+                "type": "number"
+            },
+            "sort": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: servicesPOST (POST /services)
+  {
+    name: "servicesPOST",
+    description: `Create service`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[productions]": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "fields[invoices]": {
+                "type": "string"
+            },
+            "fields[buildingDivisions]": {
+                "type": "string"
+            },
+            "fields[relatedProductions]": {
+                "type": "string"
+            },
+            "fields[productTemplateTags]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "data": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string"
+                            },
+                            "attributes": {
+                                "type": "object",
+                                "properties": {
+                                    "domain": {
+                                        "type": "string",
+                                        "enum": [
+                                            "Production",
+                                            "Sales",
+                                            "Service"
+                                        ]
+                                    },
+                                    "opportunityType": {
+                                        "type": "string",
+                                        "maxLength": 100
+                                    },
+                                    "type": {
+                                        "type": "string",
+                                        "enum": [
+                                            "Dumpsters",
+                                            "Metal",
+                                            "New Construction",
+                                            "Re-Roof",
+                                            "Sales",
+                                            "Service"
+                                        ]
+                                    },
+                                    "dueDate": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "oldDueDate": {
+                                        "type": "string",
+                                        "format": "date"
+                                    },
+                                    "dueDateHasTime": {
+                                        "type": "boolean",
+                                        "default": false,
+                                        "enum": [
+                                            true,
+                                            false
+                                        ]
+                                    },
+                                    "status": {
+                                        "type": "string",
+                                        "enum": [
+                                            "lead_pending",
+                                            "lead_quoted",
+                                            "lead_dead"
+                                        ]
+                                    },
+                                    "estimateTotals": {
+                                        "type": "object",
+                                        "properties": {
+                                            "material": {
+                                                "type": "number"
+                                            },
+                                            "labor": {
+                                                "type": "number"
+                                            },
+                                            "laborHours": {
+                                                "type": "number"
+                                            },
+                                            "other": {
+                                                "type": "number"
+                                            },
+                                            "taxable": {
+                                                "type": "number"
+                                            },
+                                            "tax": {
+                                                "type": "number"
+                                            },
+                                            "cost": {
+                                                "type": "number"
+                                            },
+                                            "margin": {
+                                                "type": "number"
+                                            },
+                                            "price": {
+                                                "type": "number"
+                                            }
+                                        }
+                                    },
+                                    "workProfileId": {
+                                        "type": "number"
+                                    },
+                                    "service_workflow": {
+                                        "type": "object"
+                                    },
+                                    "projectedCloseDate": {
+                                        "type": "string",
+                                        "format": "date"
+                                    },
+                                    "contractorCompanyId": {
+                                        "type": "number"
+                                    },
+                                    "leadTypeId": {
+                                        "type": "number"
+                                    },
+                                    "forecastedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "latestStageTransitionedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "leadOpenedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "leadPendingAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "leadQuotedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "leadSoldAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "leadDeadAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "workflowType": {
+                                        "type": "string"
+                                    },
+                                    "workType": {
+                                        "type": "string",
+                                        "enum": [
+                                            "Leak",
+                                            "Scope",
+                                            "Warranty",
+                                            "Inspection",
+                                            "Non-Billable",
+                                            "Rooftop Maintenance",
+                                            "Snow Removal"
+                                        ]
+                                    },
+                                    "options": {
+                                        "type": "object",
+                                        "properties": {
+                                            "notifications": {
+                                                "type": "string",
+                                                "enum": [
+                                                    "On",
+                                                    "Off"
+                                                ]
+                                            },
+                                            "contractorNTE": {
+                                                "type": "string"
+                                            },
+                                            "nte": {
+                                                "type": "string"
+                                            },
+                                            "truckId": {
+                                                "type": "string"
+                                            },
+                                            "attachmentId": {
+                                                "type": "string"
+                                            },
+                                            "signatureData": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "isChecked": {
+                                                        "type": "boolean"
+                                                    },
+                                                    "name": {
+                                                        "type": "string"
+                                                    },
+                                                    "file": {
+                                                        "type": "string"
+                                                    },
+                                                    "date": {
+                                                        "type": "string"
+                                                    },
+                                                    "purchaseOrder": {
+                                                        "type": "string"
+                                                    }
+                                                }
+                                            }
+                                        }
+                                    },
+                                    "name": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "namePrefix": {
+                                        "type": "string",
+                                        "maxLength": 6
+                                    },
+                                    "nameNumber": {
+                                        "type": "number",
+                                        "format": "int32"
+                                    },
+                                    "description": {
+                                        "type": "string"
+                                    },
+                                    "invoicePurchaseOrder": {
+                                        "type": "string",
+                                        "maxLength": 50
+                                    },
+                                    "price": {
+                                        "type": "number",
+                                        "format": "float",
+                                        "minimum": 0,
+                                        "maximum": 9999999999.99
+                                    },
+                                    "workRate": {
+                                        "type": "number",
+                                        "format": "float",
+                                        "minimum": 0,
+                                        "maximum": 9999999999.99
+                                    },
+                                    "startDate": {
+                                        "type": "string",
+                                        "format": "date"
+                                    },
+                                    "estimatedStartDate": {
+                                        "type": "string",
+                                        "format": "date"
+                                    },
+                                    "startTime": {
+                                        "type": "string",
+                                        "format": "time"
+                                    },
+                                    "endDate": {
+                                        "type": "string",
+                                        "format": "date"
+                                    },
+                                    "archivedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "heldAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "serviceApprovedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "isApprovalRequired": {
+                                        "type": "boolean",
+                                        "enum": [
+                                            true,
+                                            false
+                                        ]
+                                    },
+                                    "cost": {
+                                        "type": "number",
+                                        "format": "float",
+                                        "minimum": 0,
+                                        "maximum": 9999999999.99
+                                    },
+                                    "markAsScheduled": {
+                                        "type": "boolean"
+                                    },
+                                    "multipleDays": {
+                                        "type": "boolean"
+                                    },
+                                    "custom": {
+                                        "type": "object"
+                                    },
+                                    "openedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "scheduledAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "startedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "completedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "invoicedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "closedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    }
+                                },
+                                "required": [
+                                    "domain"
+                                ]
+                            },
+                            "relationships": {
+                                "type": "object",
+                                "properties": {
+                                    "billedCompany": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                }
+                                            }
+                                        }
+                                    },
+                                    "property": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                }
+                                            }
+                                        }
+                                    }
+                                }
+                            }
+                        },
+                        "required": [
+                            "type",
+                            "attributes"
+                        ]
+                    }
+                },
+                "required": [
+                    "data"
+                ],
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: services/{SERVICE_ID}GET (GET /services/{SERVICE_ID})
+  {
+    name: "services/{SERVICE_ID}GET",
+    description: `Get Single service`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "SERVICE_ID": {
+                "type": "string"
+            },
+            "fields[productions]": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[documents]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[buildingDivisions]": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "fields[primaryProposal]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "SERVICE_ID"
+        ]
+    }
+  },
+  // Tool: services/{SERVICE_ID}DELETE (DELETE /services/{SERVICE_ID})
+  {
+    name: "services/{SERVICE_ID}DELETE",
+    description: `Delete service`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "SERVICE_ID": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "SERVICE_ID"
+        ]
+    }
+  },
+  // Tool: services/{SERVICE_ID}PATCH (PATCH /services/{SERVICE_ID})
+  {
+    name: "services/{SERVICE_ID}PATCH",
+    description: `Update service`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "SERVICE_ID": {
+                "type": "string"
+            },
+            "fields[productions]": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "fields[invoices]": {
+                "type": "string"
+            },
+            "fields[buildingDivisions]": {
+                "type": "string"
+            },
+            "fields[relatedProductions]": {
+                "type": "string"
+            },
+            "fields[productTemplateTags]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "SERVICE_ID"
+        ]
+    }
+  },
+  // Tool: tax_codesGET (GET /tax_codes)
+  {
+    name: "tax_codesGET",
+    description: `Get Tax Codes`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "filter[updated_at][gt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[updated_at][lt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "page[size]": {
+                "type": "number"
+            },
+            "page[number]": {
+                "type": "number"
+            },
+            "sort": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: tax_codesPOST (POST /tax_codes)
+  {
+    name: "tax_codesPOST",
+    description: `Create Tax Codes`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "data": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string"
+                            },
+                            "attributes": {
+                                "type": "object",
+                                "properties": {
+                                    "title": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "code": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "percent": {
+                                        "type": "number",
+                                        "format": "float",
+                                        "minimum": 0,
+                                        "maximum": 9999999.999,
+                                        "default": 0
+                                    }
+                                },
+                                "required": [
+                                    "title",
+                                    "code"
+                                ]
+                            }
+                        },
+                        "required": [
+                            "type",
+                            "attributes"
+                        ]
+                    }
+                },
+                "required": [
+                    "data"
+                ],
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: tax_codes/{TAX_CODE_ID}GET (GET /tax_codes/{TAX_CODE_ID})
+  {
+    name: "tax_codes/{TAX_CODE_ID}GET",
+    description: `Get Single Tax Codes`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "TAX_CODE_ID": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "TAX_CODE_ID"
+        ]
+    }
+  },
+  // Tool: tax_codes/{TAX_CODE_ID}DELETE (DELETE /tax_codes/{TAX_CODE_ID})
+  {
+    name: "tax_codes/{TAX_CODE_ID}DELETE",
+    description: `Delete Tax Codes`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "TAX_CODE_ID": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "TAX_CODE_ID"
+        ]
+    }
+  },
+  // Tool: tax_codes/{TAX_CODE_ID}PATCH (PATCH /tax_codes/{TAX_CODE_ID})
+  {
+    name: "tax_codes/{TAX_CODE_ID}PATCH",
+    description: `Update Tax Codes`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "TAX_CODE_ID": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "TAX_CODE_ID"
+        ]
+    }
+  },
+  // Tool: work_time_entriesGET (GET /work_time_entries)
+  {
+    name: "work_time_entriesGET",
+    description: `Get timekeeping`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[workTimeEntries]": {
+                "type": "string",
+                "description": "Feilds: lunchBreakMinutes,inAt,outAt  \n\n On-Demand Fields: active_hours"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "fields[productions]": {
+                "type": "string"
+            },
+            "filter[inAt][gt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[inAt][lt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[inAt][timezone]": {
+                "type": "string"
+            },
+            "filter[updated_at][gt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[updated_at][lt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[isTimekeeping]": {
+                "type": "boolean"
+            },
+            "include": {
+                "type": "string"
+            },
+            "page[size]": {
+                "type": "number"
+            },
+            "page[number]": {
+                "type": "number"
+            },
+            "sort": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: work_time_entriesPOST (POST /work_time_entries)
+  {
+    name: "work_time_entriesPOST",
+    description: `Create timekeeping`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[employees]": {
+                "type": "string"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[productions]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: work_time_entries/{WORK_TIME_ENTRIES_ID}GET (GET /work_time_entries/{WORK_TIME_ENTRIES_ID})
+  {
+    name: "work_time_entries/{WORK_TIME_ENTRIES_ID}GET",
+    description: `Get Single timekeeping`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "WORK_TIME_ENTRIES_ID": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[productions]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "WORK_TIME_ENTRIES_ID"
+        ]
+    }
+  },
+  // Tool: work_time_entries/{WORK_TIME_ENTRIES_ID}DELETE (DELETE /work_time_entries/{WORK_TIME_ENTRIES_ID})
+  {
+    name: "work_time_entries/{WORK_TIME_ENTRIES_ID}DELETE",
+    description: `Delete timekeeping`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "WORK_TIME_ENTRIES_ID": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "WORK_TIME_ENTRIES_ID"
+        ]
+    }
+  },
+  // Tool: work_time_entries/{WORK_TIME_ENTRIES_ID}PATCH (PATCH /work_time_entries/{WORK_TIME_ENTRIES_ID})
+  {
+    name: "work_time_entries/{WORK_TIME_ENTRIES_ID}PATCH",
+    description: `Update timekeeping`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "WORK_TIME_ENTRIES_ID": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[productions]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "WORK_TIME_ENTRIES_ID"
+        ]
+    }
+  },
+  // Tool: tasksGET (GET /tasks)
+  {
+    name: "tasksGET",
+    description: `Get tasks`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[tasks]": {
+                "type": "string",
+                "description": "Fields: fromCompany, fromProfile, toCompany"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "fields[productions]": {
+                "type": "string"
+            },
+            "filter[dueDate][gt]": {
+                "type": "string",
+                "format": "date"
+            },
+            "filter[dueDate][lt]": {
+                "type": "string",
+                "format": "date"
+            },
+            "filter[dueDate][timezone]": {
+                "type": "string"
+            },
+            "filter[updated_at][gt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[updated_at][lt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[internalProfileId]": {
+                "type": "string"
+            },
+            "filter[isCompleted]": {
+                "type": "boolean"
+            },
+            "include": {
+                "type": "string"
+            },
+            "page[size]": {
+                "type": "number"
+            },
+            "page[number]": {
+                "type": "number"
+            },
+            "sort": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: tasksPOST (POST /tasks)
+  {
+    name: "tasksPOST",
+    description: `Create task`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "fields[productions]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "data": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string"
+                            },
+                            "attributes": {
+                                "type": "object",
+                                "properties": {
+                                    "event": {
+                                        "type": "string",
+                                        "maxLength": 25,
+                                        "enum": [
+                                            "To Do",
+                                            "Call",
+                                            "Drop",
+                                            "Meeting",
+                                            "Inspection",
+                                            "Measure",
+                                            "Repair Bid",
+                                            "Property Approval"
+                                        ]
+                                    },
+                                    "dueDate": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "description": {
+                                        "type": "string"
+                                    },
+                                    "duration": {
+                                        "type": "number",
+                                        "minimum": 0
+                                    },
+                                    "completedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "completeNotes": {
+                                        "type": "string"
+                                    }
+                                },
+                                "required": [
+                                    "event",
+                                    "dueDate"
+                                ]
+                            },
+                            "relationships": {
+                                "type": "object",
+                                "properties": {
+                                    "fromProfile": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                },
+                                                "required": [
+                                                    "id",
+                                                    "type"
+                                                ]
+                                            }
+                                        },
+                                        "required": [
+                                            "data"
+                                        ]
+                                    },
+                                    "toCompany": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                },
+                                                "required": [
+                                                    "id",
+                                                    "type"
+                                                ]
+                                            }
+                                        },
+                                        "required": [
+                                            "data"
+                                        ]
+                                    },
+                                    "toProfile": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                }
+                                            }
+                                        }
+                                    },
+                                    "property": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                }
+                                            }
+                                        }
+                                    },
+                                    "attendees": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "array",
+                                                "items": {
+                                                    "type": "object",
+                                                    "properties": {
+                                                        "id": {
+                                                            "type": "string"
+                                                        },
+                                                        "type": {
+                                                            "type": "string"
+                                                        }
+                                                    }
+                                                }
+                                            }
+                                        }
+                                    }
+                                },
+                                "required": [
+                                    "fromProfile"
+                                ]
+                            }
+                        },
+                        "required": [
+                            "type",
+                            "attributes",
+                            "relationships"
+                        ]
+                    }
+                },
+                "required": [
+                    "data"
+                ],
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: tasks/{TASK_ID}GET (GET /tasks/{TASK_ID})
+  {
+    name: "tasks/{TASK_ID}GET",
+    description: `Get single task`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "TASK_ID": {
+                "type": "number"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "fields[productions]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "TASK_ID"
+        ]
+    }
+  },
+  // Tool: tasks/{TASK_ID}PATCH (PATCH /tasks/{TASK_ID})
+  {
+    name: "tasks/{TASK_ID}PATCH",
+    description: `Update task`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "TASK_ID": {
+                "type": "number"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "fields[productions]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "TASK_ID"
+        ]
+    }
+  },
+  // Tool: production_daysGET (GET /production_days)
+  {
+    name: "production_daysGET",
+    description: `Get production days`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[productions]": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "filter[workDate][gt]": {
+                "type": "string",
+                "format": "date"
+            },
+            "filter[workDate][lt]": {
+                "type": "string",
+                "format": "date"
+            },
+            "filter[workDate][timezone]": {
+                "type": "string"
+            },
+            "filter[updated_at][gt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[updated_at][lt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "include": {
+                "type": "string"
+            },
+            "page[size]": {
+                "type": "number"
+            },
+            "page[number]": {
+                "type": "number"
+            },
+            "sort": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: production_daysPOST (POST /production_days)
+  {
+    name: "production_daysPOST",
+    description: `Create production days`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[productions]": {
+                "type": "string"
+            },
+            "fields[divisions]": {
+                "type": "string"
+            },
+            "fields[assignedProductionTaskCategories]": {
+                "type": "string"
+            },
+            "fields[productionDays]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "data": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string"
+                            },
+                            "attributes": {
+                                "type": "object",
+                                "properties": {
+                                    "workDate": {
+                                        "type": "string",
+                                        "format": "date"
+                                    },
+                                    "measurement": {
+                                        "type": "number"
+                                    },
+                                    "isVisible": {
+                                        "type": "boolean",
+                                        "enum": [
+                                            true,
+                                            false
+                                        ]
+                                    },
+                                    "options": {
+                                        "type": "object",
+                                        "properties": {
+                                            "notes": {
+                                                "type": "string"
+                                            },
+                                            "sendNow": {
+                                                "type": "boolean"
+                                            },
+                                            "beforePhotos": {
+                                                "type": "array",
+                                                "items": {
+                                                    "type": "object",
+                                                    "properties": {
+                                                        "fileId": {
+                                                            "type": "number"
+                                                        },
+                                                        "url": {
+                                                            "type": "string"
+                                                        },
+                                                        "thumbnailUrl": {
+                                                            "type": "string"
+                                                        },
+                                                        "title": {
+                                                            "type": "string"
+                                                        },
+                                                        "width": {
+                                                            "type": "number"
+                                                        },
+                                                        "height": {
+                                                            "type": "number"
+                                                        },
+                                                        "createdAt": {
+                                                            "type": "string",
+                                                            "format": "date-time"
+                                                        }
+                                                    }
+                                                }
+                                            },
+                                            "afterPhotos": {
+                                                "type": "array",
+                                                "items": {
+                                                    "type": "object",
+                                                    "properties": {
+                                                        "fileId": {
+                                                            "type": "number"
+                                                        },
+                                                        "url": {
+                                                            "type": "string"
+                                                        },
+                                                        "thumbnailUrl": {
+                                                            "type": "string"
+                                                        },
+                                                        "title": {
+                                                            "type": "string"
+                                                        },
+                                                        "width": {
+                                                            "type": "number"
+                                                        },
+                                                        "height": {
+                                                            "type": "number"
+                                                        },
+                                                        "createdAt": {
+                                                            "type": "string",
+                                                            "format": "date-time"
+                                                        }
+                                                    }
+                                                }
+                                            }
+                                        }
+                                    },
+                                    "custom": {
+                                        "type": "object"
+                                    }
+                                },
+                                "required": [
+                                    "workDate",
+                                    "measurement"
+                                ]
+                            },
+                            "relationships": {
+                                "type": "object",
+                                "properties": {
+                                    "production": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                },
+                                                "required": [
+                                                    "id",
+                                                    "type"
+                                                ]
+                                            }
+                                        },
+                                        "required": [
+                                            "data"
+                                        ]
+                                    },
+                                    "divisions": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "array",
+                                                "items": {
+                                                    "type": "object",
+                                                    "properties": {
+                                                        "id": {
+                                                            "type": "string"
+                                                        },
+                                                        "type": {
+                                                            "type": "string"
+                                                        }
+                                                    },
+                                                    "required": [
+                                                        "id",
+                                                        "type"
+                                                    ]
+                                                }
+                                            }
+                                        },
+                                        "required": [
+                                            "data"
+                                        ]
+                                    }
+                                },
+                                "required": [
+                                    "production"
+                                ]
+                            }
+                        },
+                        "required": [
+                            "type",
+                            "attributes",
+                            "relationships"
+                        ]
+                    }
+                },
+                "required": [
+                    "data"
+                ],
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: production_days/{PRODUCTION_DAYS_ID}GET (GET /production_days/{PRODUCTION_DAYS_ID})
+  {
+    name: "production_days/{PRODUCTION_DAYS_ID}GET",
+    description: `Get single production days`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "PRODUCTION_DAYS_ID": {
+                "type": "number"
+            },
+            "fields[productions]": {
+                "type": "string"
+            },
+            "fields[divisions]": {
+                "type": "string"
+            },
+            "fields[assignedProductionTaskCategories]": {
+                "type": "string"
+            },
+            "fields[productionDays]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "PRODUCTION_DAYS_ID"
+        ]
+    }
+  },
+  // Tool: production_days/{PRODUCTION_DAYS_ID}PATCH (PATCH /production_days/{PRODUCTION_DAYS_ID})
+  {
+    name: "production_days/{PRODUCTION_DAYS_ID}PATCH",
+    description: `Update production days`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "PRODUCTION_DAYS_ID": {
+                "type": "number"
+            },
+            "fields[productions]": {
+                "type": "string"
+            },
+            "fields[divisions]": {
+                "type": "string"
+            },
+            "fields[assignedProductionTaskCategories]": {
+                "type": "string"
+            },
+            "fields[productionDays]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "PRODUCTION_DAYS_ID"
+        ]
+    }
+  },
+  // Tool: production_itemsGET (GET /production_items)
+  {
+    name: "production_itemsGET",
+    description: `Get production items`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "filter[production]": {
+                "type": "number"
+            },
+            "filter[productionOnly]": {
+                "type": "boolean"
+            },
+            "filter[updated_at][gt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[updated_at][lt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "reports[0]": {
+                "type": "string"
+            },
+            "reports[1]": {
+                "type": "string"
+            },
+            "reports[2]": {
+                "type": "string"
+            },
+            "reports[3]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "page[size]": {
+                "type": "number"
+            },
+            "page[number]": {
+                "type": "number"
+            },
+            "sort": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: production_itemsPOST (POST /production_items)
+  {
+    name: "production_itemsPOST",
+    description: `Create production items`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "data": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string"
+                            },
+                            "attributes": {
+                                "type": "object",
+                                "properties": {
+                                    "type": {
+                                        "type": "string",
+                                        "maxLength": 10
+                                    },
+                                    "name": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "quantity": {
+                                        "type": "number",
+                                        "format": "float",
+                                        "minimum": 0,
+                                        "maximum": 9999999999.99
+                                    },
+                                    "units": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "unitCost": {
+                                        "type": "number",
+                                        "format": "float",
+                                        "minimum": 0,
+                                        "maximum": 9999999999.99
+                                    },
+                                    "cost": {
+                                        "type": "number",
+                                        "format": "float",
+                                        "minimum": 0,
+                                        "maximum": 9999999999.99
+                                    },
+                                    "isTaxable": {
+                                        "type": "boolean",
+                                        "enum": [
+                                            true,
+                                            false
+                                        ]
+                                    },
+                                    "isGenerated": {
+                                        "type": "boolean",
+                                        "enum": [
+                                            true,
+                                            false
+                                        ]
+                                    }
+                                }
+                            },
+                            "relationships": {
+                                "type": "object",
+                                "properties": {
+                                    "material": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                },
+                                                "required": [
+                                                    "id",
+                                                    "type"
+                                                ]
+                                            }
+                                        },
+                                        "required": [
+                                            "data"
+                                        ]
+                                    },
+                                    "production": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                },
+                                                "required": [
+                                                    "id",
+                                                    "type"
+                                                ]
+                                            }
+                                        },
+                                        "required": [
+                                            "data"
+                                        ]
+                                    },
+                                    "costCode": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                },
+                                                "required": [
+                                                    "id",
+                                                    "type"
+                                                ]
+                                            }
+                                        },
+                                        "required": [
+                                            "data"
+                                        ]
+                                    }
+                                }
+                            }
+                        },
+                        "required": [
+                            "type"
+                        ]
+                    }
+                },
+                "required": [
+                    "data"
+                ],
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: production_items/{PRODUCTION_ITEM_ID}GET (GET /production_items/{PRODUCTION_ITEM_ID})
+  {
+    name: "production_items/{PRODUCTION_ITEM_ID}GET",
+    description: `Get single production items`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "PRODUCTION_ITEM_ID": {
+                "type": "number"
+            },
+            "include": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "PRODUCTION_ITEM_ID"
+        ]
+    }
+  },
+  // Tool: production_items/{PRODUCTION_ITEM_ID}PATCH (PATCH /production_items/{PRODUCTION_ITEM_ID})
+  {
+    name: "production_items/{PRODUCTION_ITEM_ID}PATCH",
+    description: `Update production items`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "PRODUCTION_ITEM_ID": {
+                "type": "number"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "PRODUCTION_ITEM_ID"
+        ]
+    }
+  },
+  // Tool: budget_typesGET (GET /budget_types)
+  {
+    name: "budget_typesGET",
+    description: `Get budget type`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "filter[updated_at][gt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[updated_at][lt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "page[size]": {
+                "type": "number"
+            },
+            "page[number]": {
+                "type": "number"
+            },
+            "sort": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: budget_typesPOST (POST /budget_types)
+  {
+    name: "budget_typesPOST",
+    description: `Create budget type`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "data": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string"
+                            },
+                            "attributes": {
+                                "type": "object",
+                                "properties": {
+                                    "name": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "code": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "color": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    }
+                                },
+                                "required": [
+                                    "name",
+                                    "code"
+                                ]
+                            },
+                            "relationships": {
+                                "type": "object"
+                            }
+                        },
+                        "required": [
+                            "type",
+                            "attributes"
+                        ]
+                    }
+                },
+                "required": [
+                    "data"
+                ],
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: budget_types/{BUDGET_TYPE_ID}GET (GET /budget_types/{BUDGET_TYPE_ID})
+  {
+    name: "budget_types/{BUDGET_TYPE_ID}GET",
+    description: `Get single budget type`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "BUDGET_TYPE_ID": {
+                "type": "number"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "BUDGET_TYPE_ID"
+        ]
+    }
+  },
+  // Tool: budget_types/{BUDGET_TYPE_ID}PATCH (PATCH /budget_types/{BUDGET_TYPE_ID})
+  {
+    name: "budget_types/{BUDGET_TYPE_ID}PATCH",
+    description: `Update budget type`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "BUDGET_TYPE_ID": {
+                "type": "number"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "BUDGET_TYPE_ID"
+        ]
+    }
+  },
+  // Tool: budgetGET (GET /budget)
+  {
+    name: "budgetGET",
+    description: `Get budget`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "filter[productionId]": {
+                "type": "number"
+            },
+            "filter[updated_at][gt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[updated_at][lt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "page[size]": {
+                "type": "number"
+            },
+            "page[number]": {
+                "type": "number"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: service_agreementsGET (GET /service_agreements)
+  {
+    name: "service_agreementsGET",
+    description: `Get service agreements`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[properties]": {
+                "type": "string"
+            },
+            "fields[buildings]": {
+                "type": "string"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "filter[isTerminated]": {
+                "type": [
+                    "boolean",
+                    "string"
+                ],
+                "enum": [
+                    false,
+                    "null"
+                ],
+                "description": "Values: false,null"
+            },
+            "filter[nextInspectionDate][gt]": {
+                "type": "string",
+                "format": "date"
+            },
+            "filter[nextInspectionDate][lt]": {
+                "type": "string",
+                "format": "date"
+            },
+            "filter[updated_at][gt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[updated_at][lt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[search]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "page[size]": {
+                "type": "number"
+            },
+            "page[number]": {
+                "type": "number"
+            },
+            "sort": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: service_agreementsPOST (POST /service_agreements)
+  {
+    name: "service_agreementsPOST",
+    description: `Create service agreements`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "data": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string"
+                            },
+                            "attributes": {
+                                "type": "object",
+                                "properties": {
+                                    "startDate": {
+                                        "type": "string",
+                                        "format": "date"
+                                    },
+                                    "name": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "frequency": {
+                                        "type": "string",
+                                        "enum": [
+                                            "monthly",
+                                            "biannually",
+                                            "quarterly",
+                                            "annually",
+                                            "tri-annual"
+                                        ]
+                                    },
+                                    "price": {
+                                        "type": "number",
+                                        "format": "float",
+                                        "minimum": 0,
+                                        "maximum": 9999999999.99
+                                    },
+                                    "nextInspectionDate": {
+                                        "type": "string"
+                                    },
+                                    "terminatedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "note": {
+                                        "type": "string"
+                                    },
+                                    "custom": {
+                                        "type": "object"
+                                    }
+                                },
+                                "required": [
+                                    "startDate",
+                                    "name",
+                                    "frequency"
+                                ]
+                            },
+                            "relationships": {
+                                "type": "object",
+                                "properties": {
+                                    "company": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                },
+                                                "required": [
+                                                    "id",
+                                                    "type"
+                                                ]
+                                            }
+                                        },
+                                        "required": [
+                                            "data"
+                                        ]
+                                    },
+                                    "property": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                },
+                                                "required": [
+                                                    "id",
+                                                    "type"
+                                                ]
+                                            }
+                                        },
+                                        "required": [
+                                            "data"
+                                        ]
+                                    },
+                                    "profile": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                }
+                                            }
+                                        }
+                                    },
+                                    "file": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                }
+                                            }
+                                        }
+                                    }
+                                },
+                                "required": [
+                                    "company",
+                                    "property"
+                                ]
+                            }
+                        },
+                        "required": [
+                            "type",
+                            "attributes",
+                            "relationships"
+                        ]
+                    }
+                },
+                "required": [
+                    "data"
+                ],
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: service_agreements/{SERVICE_AGREEMENT_ID}GET (GET /service_agreements/{SERVICE_AGREEMENT_ID})
+  {
+    name: "service_agreements/{SERVICE_AGREEMENT_ID}GET",
+    description: `Get single service agreements`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "SERVICE_AGREEMENT_ID": {
+                "type": "number"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "SERVICE_AGREEMENT_ID"
+        ]
+    }
+  },
+  // Tool: service_agreements/{SERVICE_AGREEMENT_ID}PATCH (PATCH /service_agreements/{SERVICE_AGREEMENT_ID})
+  {
+    name: "service_agreements/{SERVICE_AGREEMENT_ID}PATCH",
+    description: `Update service agreements`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "SERVICE_AGREEMENT_ID": {
+                "type": "number"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "SERVICE_AGREEMENT_ID"
+        ]
+    }
+  },
+  // Tool: productsGET (GET /products)
+  {
+    name: "productsGET",
+    description: `Get products`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[production]": {
+                "type": "string"
+            },
+            "fields[files]": {
+                "type": "string"
+            },
+            "fields[products]": {
+                "type": "string"
+            },
+            "filter[productionId]": {
+                "type": "number"
+            },
+            "filter[updated_at][gt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[updated_at][lt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "include": {
+                "type": "string"
+            },
+            "page[size]": {
+                "type": "number"
+            },
+            "page[number]": {
+                "type": "number"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: productsPOST (POST /products)
+  {
+    name: "productsPOST",
+    description: `Create products`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[products]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "data": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string"
+                            },
+                            "attributes": {
+                                "type": "object",
+                                "properties": {
+                                    "beforePhotos": {
+                                        "type": "array"
+                                    },
+                                    "afterPhotos": {
+                                        "type": "array"
+                                    },
+                                    "staticMapUrl": {
+                                        "type": "string"
+                                    },
+                                    "name": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "units": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "unitPrice": {
+                                        "type": "number"
+                                    },
+                                    "quantity": {
+                                        "type": "number"
+                                    },
+                                    "price": {
+                                        "type": "number"
+                                    },
+                                    "description": {
+                                        "type": "string"
+                                    },
+                                    "correction": {
+                                        "type": "string"
+                                    },
+                                    "corrected": {
+                                        "type": "string"
+                                    },
+                                    "priority": {
+                                        "type": "number",
+                                        "maximum": 1
+                                    },
+                                    "locations": {
+                                        "type": "object"
+                                    },
+                                    "completedAt": {
+                                        "type": "string",
+                                        "format": "date"
+                                    }
+                                },
+                                "required": [
+                                    "name"
+                                ]
+                            },
+                            "relationships": {
+                                "type": "object",
+                                "properties": {
+                                    "buildingDivision": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object"
+                                            }
+                                        }
+                                    },
+                                    "file": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object"
+                                            }
+                                        }
+                                    },
+                                    "template": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                },
+                                                "required": [
+                                                    "id",
+                                                    "type"
+                                                ]
+                                            }
+                                        }
+                                    }
+                                }
+                            }
+                        },
+                        "required": [
+                            "type",
+                            "attributes"
+                        ]
+                    }
+                },
+                "required": [
+                    "data"
+                ],
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: products/{PRODUCT_ID}GET (GET /products/{PRODUCT_ID})
+  {
+    name: "products/{PRODUCT_ID}GET",
+    description: `Get single service repairs`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "PRODUCT_ID": {
+                "type": "number"
+            },
+            "fields[productions]": {
+                "type": "string"
+            },
+            "fields[products]": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "PRODUCT_ID"
+        ]
+    }
+  },
+  // Tool: products/{PRODUCT_ID}PATCH (PATCH /products/{PRODUCT_ID})
+  {
+    name: "products/{PRODUCT_ID}PATCH",
+    description: `Update service repairs`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "PRODUCT_ID": {
+                "type": "number"
+            },
+            "fields[products]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "PRODUCT_ID"
+        ]
+    }
+  },
+  // Tool: warrantiesGET (GET /warranties)
+  {
+    name: "warrantiesGET",
+    description: `Get warranties`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "filter[start_date][gt]": {
+                "type": "string",
+                "description": "Values: Today, This Week, This Month, 3 Months, This Year, Custom, All Time"
+            },
+            "filter[start_date][lt]": {
+                "type": "string",
+                "format": "date"
+            },
+            "filter[updated_at][gt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[updated_at][lt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[status][0]": {
+                "type": "string",
+                "enum": [
+                    "active",
+                    "expired"
+                ],
+                "description": "Values: active, expired"
+            },
+            "filter[contractorCompanyId]": {
+                "type": "number"
+            },
+            "include": {
+                "type": "string"
+            },
+            "page[size]": {
+                "type": "number"
+            },
+            "page[number]": {
+                "type": "number"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: warrantiesPOST (POST /warranties)
+  {
+    name: "warrantiesPOST",
+    description: `Create warranties`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "data": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string"
+                            },
+                            "attributes": {
+                                "type": "object",
+                                "properties": {
+                                    "name": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "startDate": {
+                                        "type": "string",
+                                        "format": "date"
+                                    },
+                                    "endDate": {
+                                        "type": "string",
+                                        "format": "date"
+                                    },
+                                    "years": {
+                                        "type": "number",
+                                        "maximum": 12
+                                    },
+                                    "manufacturer": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    }
+                                },
+                                "required": [
+                                    "name",
+                                    "startDate",
+                                    "endDate",
+                                    "years"
+                                ]
+                            },
+                            "relationships": {
+                                "type": "object",
+                                "properties": {
+                                    "property": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                },
+                                                "required": [
+                                                    "id",
+                                                    "type"
+                                                ]
+                                            }
+                                        },
+                                        "required": [
+                                            "data"
+                                        ]
+                                    },
+                                    "company": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                },
+                                                "required": [
+                                                    "id",
+                                                    "type"
+                                                ]
+                                            }
+                                        },
+                                        "required": [
+                                            "data"
+                                        ]
+                                    },
+                                    "contractorCompany": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                }
+                                            }
+                                        }
+                                    },
+                                    "file": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                }
+                                            }
+                                        }
+                                    }
+                                },
+                                "required": [
+                                    "property",
+                                    "company"
+                                ]
+                            }
+                        },
+                        "required": [
+                            "type",
+                            "attributes",
+                            "relationships"
+                        ]
+                    }
+                },
+                "required": [
+                    "data"
+                ],
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: warranties/{WARRANTY_ID}GET (GET /warranties/{WARRANTY_ID})
+  {
+    name: "warranties/{WARRANTY_ID}GET",
+    description: `Get single warranties`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "WARRANTY_ID": {
+                "type": "number"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "WARRANTY_ID"
+        ]
+    }
+  },
+  // Tool: warranties/{WARRANTY_ID}PATCH (PATCH /warranties/{WARRANTY_ID})
+  {
+    name: "warranties/{WARRANTY_ID}PATCH",
+    description: `Update warranties`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "WARRANTY_ID": {
+                "type": "number"
+            },
+            "fields[companies]": {
+                "type": "string"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "WARRANTY_ID"
+        ]
+    }
+  },
+  // Tool: buildings/{BUILDING_ID}GET (GET /buildings/{BUILDING_ID})
+  {
+    name: "buildings/{BUILDING_ID}GET",
+    description: `Get single building`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "BUILDING_ID": {
+                "type": "number"
+            },
+            "fields[properties]": {
+                "type": "string"
+            },
+            "fields[buildings]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "BUILDING_ID"
+        ]
+    }
+  },
+  // Tool: building_outlinesPOST (POST /building_outlines)
+  {
+    name: "building_outlinesPOST",
+    description: `Create building outlines`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "data": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string"
+                            },
+                            "attributes": {
+                                "type": "object",
+                                "properties": {
+                                    "label": {
+                                        "type": "string"
+                                    },
+                                    "outline": {
+                                        "type": "object",
+                                        "properties": {
+                                            "center": {
+                                                "type": "string"
+                                            },
+                                            "zoom": {
+                                                "type": "string"
+                                            },
+                                            "paths": {
+                                                "type": "string"
+                                            },
+                                            "label": {
+                                                "type": "string"
+                                            }
+                                        }
+                                    },
+                                    "aerialId": {
+                                        "type": "number"
+                                    }
+                                },
+                                "required": [
+                                    "outline"
+                                ]
+                            },
+                            "relationships": {
+                                "type": "object",
+                                "properties": {
+                                    "building": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                },
+                                                "required": [
+                                                    "id",
+                                                    "type"
+                                                ]
+                                            }
+                                        },
+                                        "required": [
+                                            "data"
+                                        ]
+                                    },
+                                    "buildingDivision": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                },
+                                                "required": [
+                                                    "id",
+                                                    "type"
+                                                ]
+                                            }
+                                        },
+                                        "required": [
+                                            "data"
+                                        ]
+                                    }
+                                }
+                            }
+                        },
+                        "required": [
+                            "type",
+                            "attributes"
+                        ]
+                    }
+                },
+                "required": [
+                    "data"
+                ],
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: building_outlines/{BUILDING_OUTLINES_ID}GET (GET /building_outlines/{BUILDING_OUTLINES_ID})
+  {
+    name: "building_outlines/{BUILDING_OUTLINES_ID}GET",
+    description: `Get single building outlines`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "BUILDING_OUTLINES_ID": {
+                "type": "number"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "BUILDING_OUTLINES_ID"
+        ]
+    }
+  },
+  // Tool: building_outlines/{BUILDING_OUTLINES_ID}PATCH (PATCH /building_outlines/{BUILDING_OUTLINES_ID})
+  {
+    name: "building_outlines/{BUILDING_OUTLINES_ID}PATCH",
+    description: `Update building outlines`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "BUILDING_OUTLINES_ID": {
+                "type": "number"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "BUILDING_OUTLINES_ID"
+        ]
+    }
+  },
+  // Tool: building_divisionsPOST (POST /building_divisions)
+  {
+    name: "building_divisionsPOST",
+    description: `Create building divisions`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "data": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string"
+                            },
+                            "attributes": {
+                                "type": "object",
+                                "properties": {
+                                    "name": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "measurement": {
+                                        "type": "number"
+                                    },
+                                    "pitchRise": {
+                                        "type": "number"
+                                    },
+                                    "averageWallHeight": {
+                                        "type": "number"
+                                    },
+                                    "score": {
+                                        "type": "number",
+                                        "maximum": 127
+                                    },
+                                    "installYear": {
+                                        "type": "number"
+                                    },
+                                    "replaceYear": {
+                                        "type": "number"
+                                    },
+                                    "replaceUnitPrice": {
+                                        "type": "number",
+                                        "maximum": 999
+                                    },
+                                    "replacePrice": {
+                                        "type": "number"
+                                    },
+                                    "recommendation": {
+                                        "type": "string"
+                                    },
+                                    "budgetImportance": {
+                                        "type": "number"
+                                    },
+                                    "replacementBudgetedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    }
+                                },
+                                "required": [
+                                    "name"
+                                ]
+                            },
+                            "relationships": {
+                                "type": "object",
+                                "properties": {
+                                    "productTemplateTag": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                }
+                                            }
+                                        }
+                                    },
+                                    "outlines": {
+                                        "type": "array",
+                                        "items": {
+                                            "type": "object",
+                                            "properties": {
+                                                "id": {
+                                                    "type": "string"
+                                                },
+                                                "type": {
+                                                    "type": "string"
+                                                }
+                                            }
+                                        }
+                                    }
+                                }
+                            }
+                        },
+                        "required": [
+                            "type",
+                            "attributes"
+                        ]
+                    }
+                },
+                "required": [
+                    "data"
+                ],
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: building_divisions/{BUILDING_DIVISIONS_ID}GET (GET /building_divisions/{BUILDING_DIVISIONS_ID})
+  {
+    name: "building_divisions/{BUILDING_DIVISIONS_ID}GET",
+    description: `Get single building divisions`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "BUILDING_DIVISIONS_ID": {
+                "type": "number"
+            },
+            "fields[products]": {
+                "type": "string"
+            },
+            "include": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "BUILDING_DIVISIONS_ID"
+        ]
+    }
+  },
+  // Tool: building_divisions/{BUILDING_DIVISIONS_ID}PATCH (PATCH /building_divisions/{BUILDING_DIVISIONS_ID})
+  {
+    name: "building_divisions/{BUILDING_DIVISIONS_ID}PATCH",
+    description: `Update building divisions`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "BUILDING_DIVISIONS_ID": {
+                "type": "number"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "BUILDING_DIVISIONS_ID"
+        ]
+    }
+  },
+  // Tool: product_template_tagsGET (GET /product_template_tags)
+  {
+    name: "product_template_tagsGET",
+    description: `Get product template tags`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "filter[updated_at][gt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[updated_at][lt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: building_photosPOST (POST /building_photos)
+  {
+    name: "building_photosPOST",
+    description: `Create building photos`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "data": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string"
+                            },
+                            "attributes": {
+                                "type": "object",
+                                "properties": {
+                                    "type": {
+                                        "type": "string",
+                                        "enum": [
+                                            "corner",
+                                            "testcut",
+                                            "general",
+                                            "video",
+                                            "pulltest"
+                                        ]
+                                    },
+                                    "name": {
+                                        "type": "string",
+                                        "maxLength": 255
+                                    },
+                                    "description": {
+                                        "type": "string"
+                                    },
+                                    "latitude": {
+                                        "type": "number",
+                                        "format": "decimal"
+                                    },
+                                    "longitude": {
+                                        "type": "number",
+                                        "format": "decimal"
+                                    }
+                                },
+                                "required": [
+                                    "type"
+                                ]
+                            },
+                            "relationships": {
+                                "type": "object",
+                                "properties": {
+                                    "building": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                },
+                                                "required": [
+                                                    "id",
+                                                    "type"
+                                                ]
+                                            }
+                                        },
+                                        "required": [
+                                            "data"
+                                        ]
+                                    },
+                                    "image": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                },
+                                                "required": [
+                                                    "id",
+                                                    "type"
+                                                ]
+                                            }
+                                        },
+                                        "required": [
+                                            "data"
+                                        ]
+                                    },
+                                    "buildingDivision": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                }
+                                            }
+                                        }
+                                    }
+                                },
+                                "required": [
+                                    "building",
+                                    "image"
+                                ]
+                            }
+                        },
+                        "required": [
+                            "type",
+                            "attributes",
+                            "relationships"
+                        ]
+                    }
+                },
+                "required": [
+                    "data"
+                ],
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: building_photos/{BUILDING_PHOTO_ID}GET (GET /building_photos/{BUILDING_PHOTO_ID})
+  {
+    name: "building_photos/{BUILDING_PHOTO_ID}GET",
+    description: `Get single building photos`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "BUILDING_PHOTO_ID": {
+                "type": "number"
+            },
+            "include": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "BUILDING_PHOTO_ID"
+        ]
+    }
+  },
+  // Tool: building_photos/{BUILDING_PHOTO_ID}PATCH (PATCH /building_photos/{BUILDING_PHOTO_ID})
+  {
+    name: "building_photos/{BUILDING_PHOTO_ID}PATCH",
+    description: `Update building photos`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "BUILDING_PHOTO_ID": {
+                "type": "number"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "BUILDING_PHOTO_ID"
+        ]
+    }
+  },
+  // Tool: production_stage_transitionsPOST (POST /production_stage_transitions)
+  {
+    name: "production_stage_transitionsPOST",
+    description: `Create production stage transitions`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: building_scoresPOST (POST /building_scores)
+  {
+    name: "building_scoresPOST",
+    description: `Create building scores`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: building_scores/{BUILDING_SCORE_ID}PATCH (PATCH /building_scores/{BUILDING_SCORE_ID})
+  {
+    name: "building_scores/{BUILDING_SCORE_ID}PATCH",
+    description: `Update building scores`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "BUILDING_SCORE_ID": {
+                "type": "string"
+            },
+            "requestBody": {
+                "type": "string",
+                "description": "Request body (content type: application/json)"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "BUILDING_SCORE_ID"
+        ]
+    }
+  },
+  // Tool: filesGET (GET /files)
+  {
+    name: "filesGET",
+    description: `Get files`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: files/{FILE_ID}GET (GET /files/{FILE_ID})
+  {
+    name: "files/{FILE_ID}GET",
+    description: `Get single file`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "FILE_ID": {
+                "type": "number"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "FILE_ID"
+        ]
+    }
+  },
+  // Tool: files/{FILE_ID}PATCH (PATCH /files/{FILE_ID})
+  {
+    name: "files/{FILE_ID}PATCH",
+    description: `Update file`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "FILE_ID": {
+                "type": "number"
+            },
+            "requestBody": {
+                "type": "object",
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "FILE_ID"
+        ]
+    }
+  },
+  // Tool: filesPOST (POST /file/url)
+  {
+    name: "filesPOST",
+    description: `Create files`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "name": {
+                        "type": "string"
+                    },
+                    "file": {
+                        "type": "string",
+                        "description": "Base64 encoded file content."
+                    },
+                    "subject": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string",
+                                "enum": [
+                                    "properties",
+                                    "companies",
+                                    "productions"
+                                ]
+                            },
+                            "id": {
+                                "type": "string"
+                            }
+                        },
+                        "required": [
+                            "type",
+                            "id"
+                        ]
+                    },
+                    "tags": {
+                        "type": "array"
+                    },
+                    "thumbnailSize": {
+                        "type": "number"
+                    },
+                    "title": {
+                        "type": "string",
+                        "maxLength": 255
+                    },
+                    "description": {
+                        "type": "string"
+                    }
+                },
+                "required": [
+                    "file",
+                    "subject"
+                ],
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: modelFilesGET (GET /model_files)
+  {
+    name: "modelFilesGET",
+    description: `Get model files`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "fields[profiles]": {
+                "type": "string"
+            },
+            "fields[employees]": {
+                "type": "string"
+            },
+            "fields[buildingDivisions]": {
+                "type": "string"
+            },
+            "filter[tag]": {
+                "type": "string",
+                "enum": [
+                    "Photos"
+                ],
+                "description": "Values: Photos"
+            },
+            "filter[subjectId]": {
+                "type": "number"
+            },
+            "filter[subjectType]": {
+                "type": "string",
+                "enum": [
+                    "companies",
+                    "properties",
+                    "productions"
+                ],
+                "description": "Value: companies,properties,productions"
+            },
+            "filter[updated_at][gt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "filter[updated_at][lt]": {
+                "type": "string",
+                "format": "date-time"
+            },
+            "include": {
+                "type": "string"
+            },
+            "page[size]": {
+                "type": "number"
+            },
+            "page[number]": {
+                "type": "number"
+            },
+            "sort": {
+                "type": "string"
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: actionsPOST (POST /actions)
+  {
+    name: "actionsPOST",
+    description: `This endpoint is used for multiple purposes, and you can find various examples of its usage. Each job name comes with a different payload, depending on the specific operation being performed.`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "data": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string"
+                            },
+                            "attributes": {
+                                "type": "object",
+                                "properties": {
+                                    "creatorId": {
+                                        "type": "number"
+                                    },
+                                    "job": {
+                                        "type": "string",
+                                        "enum": [
+                                            "generate_budgets_from_production_items_by_budget_type",
+                                            "generate_budgets_from_production_items",
+                                            "bulk_insert_budget"
+                                        ]
+                                    },
+                                    "status": {
+                                        "type": "string"
+                                    },
+                                    "options": {
+                                        "type": "object",
+                                        "properties": {
+                                            "productionId": {
+                                                "type": "number"
+                                            }
+                                        },
+                                        "required": [
+                                            "productionId"
+                                        ]
+                                    },
+                                    "shouldQueue": {
+                                        "type": "boolean"
+                                    },
+                                    "details": {
+                                        "type": "object"
+                                    },
+                                    "finishedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "createdAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    },
+                                    "updatedAt": {
+                                        "type": "string",
+                                        "format": "date-time"
+                                    }
+                                },
+                                "required": [
+                                    "job",
+                                    "options"
+                                ]
+                            },
+                            "relationships": {
+                                "type": "object"
+                            }
+                        },
+                        "required": [
+                            "type",
+                            "attributes",
+                            "relationships"
+                        ]
+                    }
+                },
+                "required": [
+                    "data"
+                ],
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+  // Tool: notesPOST (POST /notes)
+  {
+    name: "notesPOST",
+    description: `Creates a note attached to a production (service ticket). The \`causer\` must be an employee ID and the \`subject\` must be a production ID.`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "data": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string"
+                            },
+                            "attributes": {
+                                "type": "object",
+                                "properties": {
+                                    "description": {
+                                        "type": "string"
+                                    },
+                                    "isOfficeOnly": {
+                                        "type": "boolean"
+                                    },
+                                    "title": {
+                                        "type": "string"
+                                    },
+                                    "body": {
+                                        "type": "string"
+                                    },
+                                    "isVisible": {
+                                        "type": "boolean"
+                                    },
+                                    "isPinned": {
+                                        "type": "boolean"
+                                    }
+                                }
+                            },
+                            "relationships": {
+                                "type": "object",
+                                "properties": {
+                                    "causer": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                }
+                                            }
+                                        }
+                                    },
+                                    "subject": {
+                                        "type": "object",
+                                        "properties": {
+                                            "data": {
+                                                "type": "object",
+                                                "properties": {
+                                                    "id": {
+                                                        "type": "string"
+                                                    },
+                                                    "type": {
+                                                        "type": "string"
+                                                    }
+                                                }
+                                            }
+                                        }
+                                    }
+                                }
+                            }
+                        }
+                    }
+                },
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        },
+        "required": [
+            "requestBody"
+        ]
+    }
+  },
+  // Tool: transactionsPOST (POST /transactions)
+  {
+    name: "transactionsPOST",
+    description: `Create invoice payments`,
+    inputSchema:     {
+        "type": "object",
+        "properties": {
+            "requestBody": {
+                "type": "object",
+                "properties": {
+                    "data": {
+                        "type": "object",
+                        "properties": {
+                            "type": {
+                                "type": "string"
+                            },
+                            "attributes": {
+                                "type": "object",
+                                "properties": {
+                                    "amount": {
+                                        "type": "number",
+                                        "format": "float",
+                                        "minimum": 0,
+                                        "maximum": 9999999999.99
+                                    },
+                                    "paymentMethod": {
+                                        "type": "string"
+                                    },
+                                    "notes": {
+                                        "type": "string"
+                                    },
+                                    "receivedDate": {
+                                        "type": "string",
+                                        "format": "date"
+                                    },
+                                    "invoiceId": {
+                                        "type": "string"
+                                    }
+                                },
+                                "required": [
+                                    "amount",
+                                    "paymentMethod",
+                                    "invoiceId"
+                                ]
+                            },
+                            "relationships": {
+                                "type": "object"
+                            }
+                        },
+                        "required": [
+                            "type",
+                            "attributes"
+                        ]
+                    }
+                },
+                "required": [
+                    "data"
+                ],
+                "description": "The JSON request body."
+            },
+            "Authorization": {
+                "type": "string",
+                "description": "Optional API token for authentication. If not provided, will use CENTERPOINT_API_TOKEN environment variable."
+            }
+        }
+    }
+  },
+];
@@ -0,0 +1,183 @@
+/**
+ * Tool argument validators
+ *
+ * Compiles the JSON Schema subset used by the tool input schemas into Zod
+ * schemas: `type` (including `integer`, `null` and type arrays), `properties`,
+ * `required`, `additionalProperties`, `items`, `enum`, `maxLength`, `minimum`
+ * and `maximum`, plus the `date` and `date-time` formats. A `default` is
+ * filled in for a missing argument, as the generated validators did before.
+ * `description`, other formats and `title` are annotations and are not
+ * enforced.
+ * Any other keyword is a compile error, so
+ * a schema the compiler does not understand fails loudly instead of
+ * disabling validation.
+ */
+
+import { type Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+type JsonSchema = Record<string, any>;
+
+const ANNOTATION_KEYWORDS = ['description', 'format', 'title', 'examples'];
+
+const VALIDATION_KEYWORDS = [
+  'type', 'properties', 'required', 'additionalProperties', 'items', 'enum', 'maxLength', 'minimum', 'maximum', 'default',
+];
+
+const TYPES = ['object', 'array', 'string', 'number', 'integer', 'boolean', 'null'];
+
+/**
+ * Formats checked on strings. `date-time` also accepts a bare date, so a day
+ * can be passed to the range filters.
+ */
+const FORMATS: Record<string, { pattern: RegExp; description: string }> = {
+  date: { pattern: /^\d{4}-\d{2}-\d{2}$/, description: 'a date (YYYY-MM-DD)' },
+  'date-time': {
+    pattern: /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/,
+    description: 'a date or date-time (YYYY-MM-DD or ISO 8601)',
+  },
+};
+
+/**
+ * Compiles a JSON Schema into a Zod schema
+ * @param schema The JSON Schema
+ * @param path Where the schema sits in the tool's input schema, for error messages
+ * @throws If the schema uses a keyword or type outside the supported subset
+ */
+export function compileSchema(schema: unknown, path = '(root)'): z.ZodTypeAny {
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    throw new Error(`Schema at ${path} must be an object`);
+  }
+  const json = schema as JsonSchema;
+  for (const keyword of Object.keys(json)) {
+    if (!VALIDATION_KEYWORDS.includes(keyword) && !ANNOTATION_KEYWORDS.includes(keyword)) {
+      throw new Error(`Unsupported JSON Schema keyword '${keyword}' at ${path}`);
+    }
+  }
+
+  const types: string[] = json.type === undefined ? [] : Array.isArray(json.type) ? json.type : [json.type];
+  for (const type of types) {
+    if (!TYPES.includes(type)) {
+      throw new Error(`Unsupported JSON Schema type '${type}' at ${path}`);
+    }
+  }
+
+  let compiled: z.ZodTypeAny;
+  if (types.length === 0) {
+    compiled = z.unknown();
+  } else {
+    const branches = types.map(type => compileType(type, json, path));
+    compiled = branches.length === 1 ? branches[0] : z.union(branches as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+  }
+
+  if (json.enum !== undefined) {
+    compiled = withEnum(compiled, json.enum, path);
+  }
+  if (json.default !== undefined) {
+    compiled = compiled.default(json.default);
+  }
+  return compiled;
+}
+
+function compileType(type: string, json: JsonSchema, path: string): z.ZodTypeAny {
+  switch (type) {
+    case 'object':
+      return compileObject(json, path);
+    case 'array':
+      return z.array(json.items === undefined ? z.unknown() : compileSchema(json.items, `${path}[]`));
+    case 'string': {
+      let string = z.string();
+      if (json.maxLength !== undefined) string = string.max(json.maxLength);
+      const format = Object.prototype.hasOwnProperty.call(FORMATS, json.format) ? FORMATS[json.format] : undefined;
+      if (format) {
+        string = string.regex(format.pattern, { message: `Expected ${format.description}` });
+      }
+      return string;
+    }
+    case 'number':
+    case 'integer': {
+      let number = type === 'integer' ? z.number().int() : z.number();
+      if (json.minimum !== undefined) number = number.min(json.minimum);
+      if (json.maximum !== undefined) number = number.max(json.maximum);
+      return number;
+    }
+    case 'boolean':
+      return z.boolean();
+    default:
+      return z.null();
+  }
+}
+
+function compileObject(json: JsonSchema, path: string): z.ZodTypeAny {
+  const properties: Record<string, unknown> = json.properties ?? {};
+  const required: string[] = json.required ?? [];
+  if (!Array.isArray(required)) {
+    throw new Error(`'required' at ${path} must be an array`);
+  }
+
+  const shape: z.ZodRawShape = {};
+  for (const [name, property] of Object.entries(properties)) {
+    const compiled = compileSchema(property, path === '(root)' ? name : `${path}.${name}`);
+    // A property with a default is filled in rather than left out, which optional() would do
+    const hasDefault = (property as JsonSchema)?.default !== undefined;
+    shape[name] = required.includes(name) || hasDefault ? compiled : compiled.optional();
+  }
+  // Required names without a property schema still have to be present
+  for (const name of required.filter(name => !(name in properties))) {
+    shape[name] = z.unknown().refine(value => value !== undefined, { message: 'Required' });
+  }
+
+  const object = z.object(shape);
+  const additional = json.additionalProperties;
+  if (additional === false) {
+    return object.strict();
+  }
+  if (additional === undefined || additional === true) {
+    return object.passthrough();
+  }
+  return object.catchall(compileSchema(additional, `${path}.*`));
+}
+
+function withEnum(compiled: z.ZodTypeAny, values: unknown, path: string): z.ZodTypeAny {
+  if (!Array.isArray(values) || values.length === 0) {
+    throw new Error(`'enum' at ${path} must be a non-empty array`);
+  }
+  const allowed = values.map(value => JSON.stringify(value));
+  return compiled.refine(value => allowed.includes(JSON.stringify(value)), {
+    message: `Expected one of: ${values.map(value => JSON.stringify(value)).join(', ')}`,
+  });
+}
+
+/**
+ * Compiled argument validators, cached per tool input schema
+ */
+export class ToolValidators {
+  private validators = new WeakMap<object, z.ZodTypeAny>();
+
+  /**
+   * Compiles the validators for a set of tools up front
+   * @throws If any tool's input schema cannot be compiled, naming the tool
+   */
+  compileAll(tools: Tool[]): void {
+    tools.forEach(tool => this.get(tool));
+  }
+
+  /**
+   * Returns the validator for a tool, compiling it on first use
+   * @throws If the tool's input schema cannot be compiled
+   */
+  get(tool: Tool): z.ZodTypeAny {
+    let validator = this.validators.get(tool.inputSchema);
+    if (!validator) {
+      try {
+        validator = compileSchema(tool.inputSchema);
+      } catch (error: any) {
+        throw new Error(`Invalid input schema for tool '${tool.name}': ${error.message}`);
+      }
+      this.validators.set(tool.inputSchema, validator);
+    }
+    return validator;
+  }
+}
+
+export const toolValidators = new ToolValidators();
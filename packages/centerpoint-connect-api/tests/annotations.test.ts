@@ -0,0 +1,70 @@
+import { addToolAnnotations, getToolAnnotations, getToolTitle } from '../src/annotations';
+import { operations } from '../src/operations';
+import { toolsList } from '../src/tools';
+
+describe('getToolTitle()', () => {
+  it.each([
+    ['companiesGET', 'List companies'],
+    ['companies/{COMPANY_ID}GET', 'Get company'],
+    ['companiesPOST', 'Create company'],
+    ['properties/{PROPERTY_ID}PATCH', 'Update property'],
+    ['employees/{EMPLOYEE_ID}DELETE', 'Delete employee'],
+    ['work_time_entriesPOST', 'Create work time entry'],
+    ['productions/{PRODUCTION_ID}/purchase_ordersGET', 'List purchase orders for a production'],
+  ])('should title %s as "%s"', (toolName, title) => {
+    expect(getToolTitle(operations[toolName])).toBe(title);
+  });
+
+  it('should prefer the title set in the operation table', () => {
+    expect(getToolTitle(operations['filesPOST'])).toBe('Create file');
+    expect(getToolTitle(operations['actionsPOST'])).toBe('Run action job');
+  });
+
+  it('should give every tool a unique title', () => {
+    const titles = Object.values(operations).map(getToolTitle);
+    expect(new Set(titles).size).toBe(titles.length);
+  });
+});
+
+describe('getToolAnnotations()', () => {
+  it('should mark GET tools read-only', () => {
+    expect(getToolAnnotations(operations['companiesGET'])).toEqual({
+      title: 'List companies',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    });
+  });
+
+  it('should mark POST tools additive and non-idempotent', () => {
+    expect(getToolAnnotations(operations['transactionsPOST'])).toEqual(expect.objectContaining({
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+    }));
+  });
+
+  it('should mark PATCH and DELETE tools destructive and idempotent', () => {
+    for (const toolName of ['invoices/{INVOICE_ID}PATCH', 'employees/{EMPLOYEE_ID}DELETE']) {
+      expect(getToolAnnotations(operations[toolName])).toEqual(expect.objectContaining({
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+      }));
+    }
+  });
+});
+
+describe('addToolAnnotations()', () => {
+  it('should set the title and annotations on the tool', () => {
+    const tool = toolsList.find(t => t.name === 'employees/{EMPLOYEE_ID}DELETE')!;
+
+    const annotated = addToolAnnotations(tool, operations[tool.name]);
+
+    expect(annotated.title).toBe('Delete employee');
+    expect(annotated.annotations).toEqual(expect.objectContaining({ title: 'Delete employee', destructiveHint: true }));
+    expect(annotated.inputSchema).toBe(tool.inputSchema);
+    expect(tool.annotations).toBeUndefined();
+  });
+});
@@ -0,0 +1,40 @@
+import { builtinTools, getBuiltinTool } from '../src/builtins';
+import { healthMonitor } from '../src/logging';
+import { toolsList } from '../src/tools';
+
+describe('built-in tools', () => {
+  beforeEach(() => {
+    healthMonitor.reset();
+  });
+
+  it('should not clash with generated tool names', () => {
+    const generated = new Set(toolsList.map(tool => tool.name));
+    Object.keys(builtinTools).forEach(name => expect(generated.has(name)).toBe(false));
+  });
+
+  it('should key every built-in by its tool name', () => {
+    Object.entries(builtinTools).forEach(([name, builtin]) => expect(builtin.definition.name).toBe(name));
+  });
+
+  describe('getBuiltinTool()', () => {
+    it('should return undefined for other tools', () => {
+      expect(getBuiltinTool('companiesGET')).toBeUndefined();
+      expect(getBuiltinTool('toString')).toBeUndefined();
+    });
+  });
+
+  describe('server_health', () => {
+    it('should return the live health status', async () => {
+      healthMonitor.recordRequest(true, 120);
+      healthMonitor.recordRequest(false, 80);
+      healthMonitor.recordError(new Error('API Error: Status 500'));
+
+      const result = await getBuiltinTool('server_health')!.handler({});
+      const health = JSON.parse(result.content[0].text as string);
+
+      expect(health.metrics.requests).toEqual(expect.objectContaining({ total: 2, failed: 1, successRate: 50 }));
+      expect(health.metrics.errors.lastError).toBe('API Error: Status 500');
+      expect(['healthy', 'degraded', 'unhealthy']).toContain(health.status);
+    });
+  });
+});
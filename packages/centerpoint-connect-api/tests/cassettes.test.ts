@@ -0,0 +1,165 @@
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { cassetteFileName, cassettes, describeRequest, type Cassette } from '../src/cassettes';
+import { config } from '../src/config';
+import { executeTool } from '../src/executor';
+import { MockCenterPointApi } from '../src/mockserver';
+import { operations } from '../src/operations';
+import { responseCache } from '../src/performance';
+import { toolsList } from '../src/tools';
+
+const TOKEN = 'cassette_secret_token_1234';
+
+describe('describeRequest()', () => {
+  it('should merge and sort the query and mask the token', () => {
+    const request = describeRequest({
+      method: 'get',
+      url: 'https://api.example.com/centerpoint/companies?page[number]=2',
+      params: { 'filter[search]': 'acme', include: undefined },
+      headers: { Accept: 'application/json', Authorization: `Bearer ${TOKEN}` },
+    });
+
+    expect(request).toEqual({
+      method: 'GET',
+      url: '/centerpoint/companies?filter[search]=acme&page[number]=2',
+      headers: { Accept: 'application/json', Authorization: 'Bearer cass************1234' },
+    });
+  });
+
+  it('should keep the request body', () => {
+    expect(describeRequest({ method: 'post', url: '/companies', data: { data: { type: 'companies' } } }).body)
+      .toEqual({ data: { type: 'companies' } });
+  });
+});
+
+describe('cassetteFileName()', () => {
+  it('should name cassettes after the method and path, hashing the query and body', () => {
+    const name = cassetteFileName({ method: 'GET', url: '/companies/1?include=property' });
+
+    expect(name).toMatch(/^GET-companies-1-[0-9a-f]{8}\.json$/);
+    expect(cassetteFileName({ method: 'GET', url: '/companies/1' })).not.toBe(name);
+    expect(cassetteFileName({ method: 'POST', url: '/companies', body: { a: 1 } }))
+      .not.toBe(cassetteFileName({ method: 'POST', url: '/companies', body: { a: 2 } }));
+  });
+});
+
+describe('record and replay', () => {
+  const api = new MockCenterPointApi();
+  let baseUrl: string;
+  let dir: string;
+
+  const run = (name: string, args: Record<string, unknown> = {}) =>
+    executeTool(toolsList.find(tool => tool.name === name)!, operations[name], { Authorization: TOKEN, ...args });
+
+  const useCassettes = (mode: 'RECORD' | 'REPLAY') => {
+    delete process.env.CENTERPOINT_RECORD_DIR;
+    delete process.env.CENTERPOINT_REPLAY_DIR;
+    process.env[`CENTERPOINT_${mode}_DIR`] = dir;
+    config.reload();
+    responseCache.clear();
+    cassettes.reset();
+  };
+
+  const readCassettes = (): Cassette[] =>
+    readdirSync(dir).map(file => JSON.parse(readFileSync(join(dir, file), 'utf8')));
+
+  beforeAll(async () => {
+    baseUrl = await api.listen();
+  });
+
+  afterAll(async () => {
+    await api.close();
+  });
+
+  beforeEach(() => {
+    api.reset();
+    dir = mkdtempSync(join(tmpdir(), 'cassettes-'));
+    process.env.CENTERPOINT_BASE_URL = baseUrl;
+    process.env.CENTERPOINT_RETRY_DELAY_MS = '100';
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+    delete process.env.CENTERPOINT_BASE_URL;
+    delete process.env.CENTERPOINT_RETRY_DELAY_MS;
+    delete process.env.CENTERPOINT_RECORD_DIR;
+    delete process.env.CENTERPOINT_REPLAY_DIR;
+    config.reload();
+  });
+
+  it('should record exchanges with the token masked', async () => {
+    useCassettes('RECORD');
+
+    await run('companies/{COMPANY_ID}GET', { COMPANY_ID: '1', include: 'profiles' });
+
+    const [cassette] = readCassettes();
+    expect(cassette.request).toEqual({ method: 'GET', url: '/companies/1?include=profiles' });
+    expect(cassette.exchanges).toHaveLength(1);
+    expect(cassette.exchanges[0].request.headers.Authorization).toBe('Bearer cass************1234');
+    expect(cassette.exchanges[0].response).toEqual(expect.objectContaining({ status: 200, body: expect.objectContaining({ data: expect.objectContaining({ id: '1' }) }) }));
+    expect(readFileSync(join(dir, readdirSync(dir)[0]), 'utf8')).not.toContain(TOKEN);
+  });
+
+  it('should replay recorded answers without calling the API', async () => {
+    useCassettes('RECORD');
+    const recorded = await run('companiesGET', { 'filter[search]': 'acme' });
+    const recordedError = await run('companies/{COMPANY_ID}GET', { COMPANY_ID: '99' });
+    api.reset();
+
+    useCassettes('REPLAY');
+    const replayed = await run('companiesGET', { 'filter[search]': 'acme' });
+    const replayedError = await run('companies/{COMPANY_ID}GET', { COMPANY_ID: '99' });
+
+    expect(replayed).toEqual(recorded);
+    expect(replayedError).toEqual(recordedError);
+    expect(replayedError.content[0].text).toMatch(/Status 404/);
+    expect(api.requests).toEqual([]);
+  });
+
+  it('should replay exchanges in the order they were recorded', async () => {
+    useCassettes('RECORD');
+    api.injectFailure({ status: 429, tool: 'propertiesGET', retryAfter: 0 });
+    const recorded = await run('propertiesGET');
+
+    useCassettes('REPLAY');
+    const replayed = await run('propertiesGET');
+
+    const [cassette] = readCassettes();
+    expect(cassette.exchanges.map(exchange => exchange.response?.status)).toEqual([429, 200]);
+    expect(replayed).toEqual(recorded);
+  });
+
+  it('should record state changes between identical requests', async () => {
+    useCassettes('RECORD');
+    await run('companies/{COMPANY_ID}GET', { COMPANY_ID: '3' });
+    await run('companies/{COMPANY_ID}PATCH', { COMPANY_ID: '3', requestBody: { data: { type: 'companies', id: '3', attributes: { name: 'Cedar Renamed' } } } });
+    await run('companies/{COMPANY_ID}GET', { COMPANY_ID: '3' });
+
+    useCassettes('REPLAY');
+    const before = await run('companies/{COMPANY_ID}GET', { COMPANY_ID: '3' });
+    responseCache.clear();
+    const after = await run('companies/{COMPANY_ID}GET', { COMPANY_ID: '3' });
+
+    expect(before.content[0].text).toContain('Cedar Supply Co');
+    expect(after.content[0].text).toContain('Cedar Renamed');
+  });
+
+  it('should fail calls that were not recorded', async () => {
+    useCassettes('REPLAY');
+
+    const result = await run('companiesGET');
+
+    expect(result.content[0].text).toBe(`No recorded response for GET /companies in ${dir}`);
+    expect(api.requests).toEqual([]);
+  });
+
+  it('should reject recording and replaying at the same time', () => {
+    process.env.CENTERPOINT_RECORD_DIR = dir;
+    process.env.CENTERPOINT_REPLAY_DIR = dir;
+
+    expect(() => config.reload()).toThrow('Set CENTERPOINT_RECORD_DIR or CENTERPOINT_REPLAY_DIR, not both');
+  });
+});
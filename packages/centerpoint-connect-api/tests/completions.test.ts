@@ -0,0 +1,240 @@
+import { type Tool } from '@modelcontextprotocol/sdk/types.js';
+import { toolsList } from '../src/tools';
+import { operations } from '../src/operations';
+import { responseCache } from '../src/performance';
+
+jest.mock('axios', () => {
+  const actual = jest.requireActual('axios');
+  const request = jest.fn();
+  Object.assign(request, { isAxiosError: actual.isAxiosError });
+  return { __esModule: true, default: request, isAxiosError: actual.isAxiosError };
+});
+
+import axios from 'axios';
+import { API_BASE_URL } from '../src/config';
+import { RESOURCE_SCHEME } from '../src/resources';
+import {
+  CompleteRequestWithToolsSchema,
+  ID_SOURCES,
+  complete,
+  parseDocumentedValues,
+  type CompleteParams,
+  type CompletionContext,
+} from '../src/completions';
+
+const mockedAxios = axios as unknown as jest.Mock;
+
+function findTool(toolName: string): Tool | undefined {
+  return toolsList.find(tool => tool.name === toolName);
+}
+
+const context: CompletionContext = { findTool };
+
+function toolRef(name: string, argument: string, value: string): CompleteParams {
+  return { ref: { type: 'ref/tool', name }, argument: { name: argument, value } };
+}
+
+function jsonResponse(data: unknown, status = 200) {
+  return { data, status, headers: { 'content-type': 'application/json' } };
+}
+
+describe('parseDocumentedValues()', () => {
+  it('should split value lists', () => {
+    expect(parseDocumentedValues('Values: Sold, Lead, Candidate, or Client')?.map(option => option.value))
+      .toEqual(['Sold', 'Lead', 'Candidate', 'Client']);
+    expect(parseDocumentedValues('Values: Admin, Company, Residential or Vendor')?.map(option => option.value))
+      .toEqual(['Admin', 'Company', 'Residential', 'Vendor']);
+    expect(parseDocumentedValues('Value: lastSentAt,invoiceDate')?.map(option => option.value))
+      .toEqual(['lastSentAt', 'invoiceDate']);
+  });
+
+  it('should keep labels of numeric values', () => {
+    expect(parseDocumentedValues('Values: New Project=23, Job # & Invoice=24,   Deposit Paid=27')).toEqual([
+      { value: '23', label: 'New Project' },
+      { value: '24', label: 'Job # & Invoice' },
+      { value: '27', label: 'Deposit Paid' },
+    ]);
+  });
+
+  it('should ignore descriptions that are not value lists', () => {
+    expect(parseDocumentedValues("Values: if productionDomain is 'service' then true Otherwise null")).toBeUndefined();
+    expect(parseDocumentedValues('Fields: manager,name,externalId')).toBeUndefined();
+    expect(parseDocumentedValues(undefined)).toBeUndefined();
+  });
+});
+
+describe('ID_SOURCES', () => {
+  it('should point at list tools that exist', () => {
+    for (const listTool of Object.values(ID_SOURCES)) {
+      expect(operations[listTool]).toEqual(expect.objectContaining({ method: 'GET', pathParams: [] }));
+    }
+  });
+});
+
+describe('CompleteRequestWithToolsSchema', () => {
+  it('should accept tool references alongside the standard ones', () => {
+    const request = (ref: unknown) => ({ method: 'completion/complete', params: { ref, argument: { name: 'x', value: '' } } });
+
+    expect(CompleteRequestWithToolsSchema.safeParse(request({ type: 'ref/tool', name: 'companiesGET' })).success).toBe(true);
+    expect(CompleteRequestWithToolsSchema.safeParse(request({ type: 'ref/resource', uri: `${RESOURCE_SCHEME}://companies/{id}` })).success).toBe(true);
+    expect(CompleteRequestWithToolsSchema.safeParse(request({ type: 'ref/prompt', name: 'p' })).success).toBe(true);
+    expect(CompleteRequestWithToolsSchema.safeParse(request({ type: 'ref/other' })).success).toBe(false);
+  });
+});
+
+describe('complete()', () => {
+  const originalEnv = process.env.CENTERPOINT_API_TOKEN;
+
+  beforeEach(() => {
+    process.env.CENTERPOINT_API_TOKEN = 'completions_test_token';
+    mockedAxios.mockReset();
+    responseCache.clear();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    if (originalEnv !== undefined) {
+      process.env.CENTERPOINT_API_TOKEN = originalEnv;
+    } else {
+      delete process.env.CENTERPOINT_API_TOKEN;
+    }
+  });
+
+  describe('documented values', () => {
+    it('should complete enum-like filters', async () => {
+      const result = await complete(toolRef('companiesGET', 'filter[salesStatus]', 'l'), context);
+
+      expect(result).toEqual({ values: ['Lead'], total: 1, hasMore: false });
+      expect(mockedAxios).not.toHaveBeenCalled();
+    });
+
+    it('should match labelled values by label', async () => {
+      const result = await complete(toolRef('productionsGET', 'filter[workflowStageId]', 'progress'), context);
+
+      expect(result.values).toEqual(['29']);
+    });
+
+    it('should list every value for an empty prefix', async () => {
+      const result = await complete(toolRef('companiesGET', 'filter[custom.customerType]', ''), context);
+
+      expect(result.values).toEqual(['Admin', 'Company', 'Contractor', 'Corporate', 'Residential', 'Vendor']);
+    });
+
+    it('should complete schema enums', async () => {
+      const tool: Tool = {
+        name: 'companiesGET',
+        inputSchema: { type: 'object', properties: { responseFormat: { type: 'string', enum: ['raw', 'flat', 'table'] } } },
+      };
+
+      const result = await complete(toolRef('companiesGET', 'responseFormat', 't'), { findTool: () => tool });
+
+      expect(result.values).toEqual(['table']);
+    });
+
+    it('should return nothing for hidden tools and free-form arguments', async () => {
+      expect((await complete(toolRef('companiesGET', 'filter[salesStatus]', ''), { findTool: () => undefined })).values).toEqual([]);
+      expect((await complete(toolRef('companiesGET', 'filter[search]', 'ac'), context)).values).toEqual([]);
+    });
+  });
+
+  describe('IDs', () => {
+    const companies = {
+      data: [
+        { type: 'companies', id: '42', attributes: { name: 'Acme' } },
+        { type: 'companies', id: '43', attributes: { name: 'Acme West' } },
+      ],
+    };
+
+    it('should search the matching list endpoint', async () => {
+      mockedAxios.mockResolvedValue(jsonResponse(companies));
+
+      const result = await complete(toolRef('companies/{COMPANY_ID}GET', 'COMPANY_ID', 'acme'), context);
+
+      expect(mockedAxios).toHaveBeenCalledWith(expect.objectContaining({
+        method: 'GET',
+        url: `${API_BASE_URL}/companies`,
+        params: { 'filter[search]': 'acme', 'page[size]': 20 },
+      }));
+      expect(result).toEqual({ values: ['42', '43'], total: 2, hasMore: false });
+    });
+
+    it('should complete employee IDs in filters', async () => {
+      mockedAxios.mockResolvedValue(jsonResponse({ data: [{ type: 'employees', id: '7', attributes: { name: 'Jo Smith' } }] }));
+
+      const result = await complete(toolRef('productionsGET', 'filter[worker]', 'jo'), context);
+
+      expect(mockedAxios.mock.calls[0][0].url).toBe(`${API_BASE_URL}/employees`);
+      expect(result.values).toEqual(['7']);
+    });
+
+    it('should look up typed digits as an ID as well as searching for them', async () => {
+      mockedAxios.mockImplementation(async ({ url }) => (url.endsWith('/companies/42')
+        ? jsonResponse({ data: companies.data[0] })
+        : jsonResponse({ data: [companies.data[1]] })));
+
+      const result = await complete(toolRef('companies/{COMPANY_ID}GET', 'COMPANY_ID', '42'), context);
+
+      expect(mockedAxios.mock.calls.map(([request]) => [request.url, request.params])).toEqual(expect.arrayContaining([
+        [`${API_BASE_URL}/companies/42`, {}],
+        [`${API_BASE_URL}/companies`, { 'filter[search]': '42', 'page[size]': 20 }],
+      ]));
+      expect(result.values).toEqual(['42', '43']);
+    });
+
+    it('should still search when no record has the typed ID', async () => {
+      mockedAxios.mockImplementation(async ({ url }) => {
+        if (url.endsWith('/companies/99')) {
+          throw Object.assign(new Error('Request failed with status code 404'), { isAxiosError: true, response: { status: 404, headers: {}, data: {} } });
+        }
+        return jsonResponse(companies);
+      });
+
+      const result = await complete(toolRef('companies/{COMPANY_ID}GET', 'COMPANY_ID', '99'), context);
+
+      expect(result.values).toEqual(['42', '43']);
+    });
+
+    it('should complete resource template variables', async () => {
+      mockedAxios.mockResolvedValue(jsonResponse(companies));
+
+      const result = await complete({ ref: { type: 'ref/resource', uri: `${RESOURCE_SCHEME}://companies/{id}` }, argument: { name: 'id', value: 'ac' } }, context);
+
+      expect(result.values).toEqual(['42', '43']);
+    });
+
+    it('should complete ID arguments of prompts', async () => {
+      mockedAxios.mockResolvedValue(jsonResponse(companies));
+      const prompts: CompletionContext = {
+        findTool,
+        findPrompt: name => (name === 'company_overview' ? { name, arguments: [{ name: 'companyId', required: true }] } : undefined),
+      };
+
+      const result = await complete({ ref: { type: 'ref/prompt', name: 'company_overview' }, argument: { name: 'companyId', value: 'ac' } }, prompts);
+      const undeclared = await complete({ ref: { type: 'ref/prompt', name: 'company_overview' }, argument: { name: 'productionId', value: '' } }, prompts);
+      const unknown = await complete({ ref: { type: 'ref/prompt', name: 'other' }, argument: { name: 'companyId', value: '' } }, prompts);
+
+      expect(result.values).toEqual(['42', '43']);
+      expect(undeclared.values).toEqual([]);
+      expect(unknown.values).toEqual([]);
+      expect(mockedAxios).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not search list tools the policy hides', async () => {
+      const hiding = (hidden: string): CompletionContext => ({ findTool: name => (name === hidden ? undefined : findTool(name)) });
+
+      await complete(toolRef('companies/{COMPANY_ID}GET', 'COMPANY_ID', 'acme'), hiding('companiesGET'));
+      await complete({ ref: { type: 'ref/resource', uri: `${RESOURCE_SCHEME}://companies/{id}` }, argument: { name: 'id', value: '' } }, hiding('companies/{COMPANY_ID}GET'));
+
+      expect(mockedAxios).not.toHaveBeenCalled();
+    });
+
+    it('should return nothing when the search fails', async () => {
+      mockedAxios.mockRejectedValue(new Error('socket hang up'));
+
+      const result = await complete(toolRef('companies/{COMPANY_ID}GET', 'COMPANY_ID', 'acme'), context);
+
+      expect(result).toEqual({ values: [], total: 0, hasMore: false });
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  confirmationMessage,
+  describeTarget,
+  getConfirmationDecision,
+  isConfirmed,
+} from '../src/confirmation';
+import { type RequestPreview } from '../src/dryrun';
+
+describe('getConfirmationDecision()', () => {
+  it('should never ask for GET calls', () => {
+    expect(getConfirmationDecision('GET', 'mutations', true)).toBe('proceed');
+    expect(getConfirmationDecision('GET', 'mutations', false)).toBe('proceed');
+  });
+
+  it('should confirm deletes when possible in auto mode', () => {
+    expect(getConfirmationDecision('DELETE', 'auto', true)).toBe('ask');
+    expect(getConfirmationDecision('DELETE', 'auto', false)).toBe('proceed');
+    expect(getConfirmationDecision('PATCH', 'auto', true)).toBe('proceed');
+    expect(getConfirmationDecision('POST', 'auto', true)).toBe('proceed');
+  });
+
+  it('should refuse required confirmations the client cannot give', () => {
+    expect(getConfirmationDecision('DELETE', 'deletes', true)).toBe('ask');
+    expect(getConfirmationDecision('DELETE', 'deletes', false)).toBe('refuse');
+    expect(getConfirmationDecision('POST', 'deletes', false)).toBe('proceed');
+    expect(getConfirmationDecision('POST', 'mutations', true)).toBe('ask');
+    expect(getConfirmationDecision('PATCH', 'mutations', false)).toBe('refuse');
+  });
+
+  it('should not ask when turned off', () => {
+    expect(getConfirmationDecision('DELETE', 'off', true)).toBe('proceed');
+  });
+});
+
+describe('describeTarget()', () => {
+  it('should use the name or title attribute', () => {
+    expect(describeTarget({ data: { type: 'companies', id: 42, attributes: { name: 'Acme' } } }))
+      .toEqual({ type: 'companies', id: '42', name: 'Acme' });
+    expect(describeTarget({ data: { type: 'productions', id: '7', attributes: { title: 'Spring tour' } } }))
+      .toEqual({ type: 'productions', id: '7', name: 'Spring tour' });
+    expect(describeTarget({ data: { type: 'tasks', id: '1', attributes: {} } })).toEqual({ type: 'tasks', id: '1' });
+  });
+
+  it('should ignore anything but a single resource', () => {
+    expect(describeTarget({ data: [] })).toBeUndefined();
+    expect(describeTarget({ data: null })).toBeUndefined();
+    expect(describeTarget('<html>')).toBeUndefined();
+  });
+});
+
+describe('confirmationMessage()', () => {
+  const request: RequestPreview = { method: 'DELETE', url: 'https://api.example.com/companies/42', query: {}, headers: {} };
+
+  it('should summarise deletes', () => {
+    expect(confirmationMessage('Delete company', request, { type: 'companies', id: '42', name: 'Acme' })).toBe([
+      'Delete company?',
+      '',
+      'Record: companies 42 (Acme)',
+      'Request: DELETE https://api.example.com/companies/42',
+      '',
+      'This cannot be undone.',
+    ].join('\n'));
+  });
+
+  it('should list attribute changes of updates', () => {
+    const message = confirmationMessage(
+      'Update company',
+      { ...request, method: 'PATCH' },
+      'could not be fetched (API Error: Status 404)',
+      { changes: [{ attribute: 'name', current: 'Acme', proposed: 'Acme AS' }], unchanged: [] }
+    );
+
+    expect(message).toContain('Record: could not be fetched (API Error: Status 404)');
+    expect(message).toContain('Changes:\n- name: "Acme" -> "Acme AS"');
+    expect(message).not.toContain('cannot be undone');
+  });
+});
+
+describe('isConfirmed()', () => {
+  it('should only accept an explicit confirmation', () => {
+    expect(isConfirmed({ action: 'accept', content: { confirm: true } })).toBe(true);
+    expect(isConfirmed({ action: 'accept', content: { confirm: false } })).toBe(false);
+    expect(isConfirmed({ action: 'accept' })).toBe(false);
+    expect(isConfirmed({ action: 'decline' })).toBe(false);
+    expect(isConfirmed({ action: 'cancel' })).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+import { addDryRunArgument, diffAttributes, previewRequest } from '../src/dryrun';
+import { toolsList } from '../src/tools';
+
+describe('addDryRunArgument()', () => {
+  it('should add dryRun without dropping existing properties', () => {
+    const tool = toolsList.find(t => t.name === 'companiesPOST')!;
+
+    const extended = addDryRunArgument(tool);
+
+    expect(extended.inputSchema.properties).toEqual(expect.objectContaining({
+      ...tool.inputSchema.properties,
+      dryRun: expect.objectContaining({ type: 'boolean' }),
+    }));
+  });
+});
+
+describe('previewRequest()', () => {
+  it('should resolve the URL with its query string', () => {
+    const preview = previewRequest({
+      method: 'DELETE',
+      url: 'https://api.example.com/companies/42',
+      params: { 'filter[kind]': 'client', force: true },
+      headers: { Accept: 'application/json' },
+    });
+
+    expect(preview).toEqual({
+      method: 'DELETE',
+      url: 'https://api.example.com/companies/42?filter%5Bkind%5D=client&force=true',
+      query: { 'filter[kind]': 'client', force: true },
+      headers: { Accept: 'application/json' },
+    });
+  });
+
+  it('should mask credentials', () => {
+    const preview = previewRequest({
+      method: 'post',
+      url: 'https://api.example.com/companies',
+      headers: { Authorization: 'Bearer abcdefghijklmnop', 'X-Api-Key': 'short', 'content-type': 'application/vnd.api+json' },
+      data: { data: { type: 'companies' } },
+    });
+
+    expect(preview.method).toBe('POST');
+    expect(preview.headers.Authorization).toBe('abcd********mnop');
+    expect(preview.headers['X-Api-Key']).toBe('[REDACTED]');
+    expect(preview.headers['content-type']).toBe('application/vnd.api+json');
+    expect(preview.body).toEqual({ data: { type: 'companies' } });
+  });
+});
+
+describe('diffAttributes()', () => {
+  const current = { data: { type: 'companies', id: '42', attributes: { name: 'Acme', address: { city: 'Oslo', zip: '0150' }, active: true } } };
+
+  it('should list changed and unchanged attributes', () => {
+    const body = { data: { type: 'companies', id: '42', attributes: { name: 'Acme AS', address: { zip: '0150', city: 'Oslo' }, notes: 'new' } } };
+
+    expect(diffAttributes(current, body)).toEqual({
+      changes: [
+        { attribute: 'name', current: 'Acme', proposed: 'Acme AS' },
+        { attribute: 'notes', current: null, proposed: 'new' },
+      ],
+      unchanged: ['address'],
+    });
+  });
+
+  it('should report no changes for bodies without attributes', () => {
+    expect(diffAttributes(current, { data: { type: 'companies', id: '42' } })).toEqual({ changes: [], unchanged: [] });
+    expect(diffAttributes(undefined, 'not json')).toEqual({ changes: [], unchanged: [] });
+  });
+});
@@ -0,0 +1,698 @@
+import { type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { toolsList } from '../src/tools';
+import { operations } from '../src/operations';
+import { healthMonitor, logger } from '../src/logging';
+import { responseCache, requestMetrics } from '../src/performance';
+import { toolMetrics } from '../src/metrics';
+import { API_BASE_URL, config } from '../src/config';
+
+jest.mock('axios', () => {
+  const actual = jest.requireActual('axios');
+  const request = jest.fn();
+  Object.assign(request, { isAxiosError: actual.isAxiosError });
+  return { __esModule: true, default: request, isAxiosError: actual.isAxiosError };
+});
+
+import axios from 'axios';
+import { executeTool } from '../src/executor';
+
+const mockedAxios = axios as unknown as jest.Mock;
+
+function tool(name: string) {
+  const definition = toolsList.find(t => t.name === name);
+  if (!definition) throw new Error(`Unknown tool ${name}`);
+  return definition;
+}
+
+function run(name: string, args: Record<string, unknown> = {}) {
+  return executeTool(tool(name), operations[name], args);
+}
+
+function jsonResponse(data: unknown, status = 200) {
+  return { data, status, headers: { 'content-type': 'application/json' } };
+}
+
+/** A companiesPOST body that satisfies the tool's input schema */
+const newCompany = {
+  data: { type: 'companies', attributes: { name: 'Acme', type: 'Company', salesStatus: 'Lead', timezone: 'America/Chicago' } },
+};
+
+describe('executeTool()', () => {
+  const originalEnv = process.env.CENTERPOINT_API_TOKEN;
+
+  beforeEach(() => {
+    process.env.CENTERPOINT_API_TOKEN = 'executor_test_token';
+    mockedAxios.mockReset();
+    responseCache.clear();
+    healthMonitor.reset();
+    requestMetrics.reset();
+    toolMetrics.reset();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    if (originalEnv !== undefined) {
+      process.env.CENTERPOINT_API_TOKEN = originalEnv;
+    } else {
+      delete process.env.CENTERPOINT_API_TOKEN;
+    }
+  });
+
+  it('should format JSON responses', async () => {
+    mockedAxios.mockResolvedValue(jsonResponse({ data: [{ id: '1' }] }));
+
+    const result = await run('companiesGET', { 'page[size]': 5 });
+
+    expect(result.content[0].text).toMatch(/^API Response \(Status: 200\):\n\{/);
+    expect(mockedAxios).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'GET',
+      params: { 'page[size]': 5 },
+      headers: expect.objectContaining({ Authorization: 'Bearer executor_test_token' }),
+    }));
+  });
+
+  describe('response caching', () => {
+    it('should serve repeated GET calls from the cache', async () => {
+      mockedAxios.mockResolvedValue(jsonResponse({ data: [] }));
+
+      const first = await run('companiesGET', { 'filter[search]': 'acme' });
+      const second = await run('companiesGET', { 'filter[search]': 'acme' });
+
+      expect(mockedAxios).toHaveBeenCalledTimes(1);
+      expect(second).toEqual(first);
+      expect(healthMonitor.getHealthStatus().metrics.cache).toEqual(expect.objectContaining({ hits: 1, misses: 1 }));
+    });
+
+    it('should not share cached responses across tokens', async () => {
+      mockedAxios.mockResolvedValue(jsonResponse({ data: [] }));
+
+      await run('companiesGET');
+      await run('companiesGET', { Authorization: 'other_token' });
+
+      expect(mockedAxios).toHaveBeenCalledTimes(2);
+    });
+
+    it('should invalidate cached entries of the same resource type after a mutation', async () => {
+      mockedAxios.mockResolvedValue(jsonResponse({ data: {} }));
+
+      await run('companiesGET');
+      await run('companies/{COMPANY_ID}GET', { COMPANY_ID: '1' });
+      await run('employeesGET');
+      await run('companies/{COMPANY_ID}PATCH', { COMPANY_ID: '1', requestBody: { data: { type: 'companies' } } });
+      expect(responseCache.size()).toBe(1);
+
+      await run('companiesGET');
+      expect(mockedAxios).toHaveBeenCalledTimes(5);
+    });
+
+    it('should invalidate even when the mutation fails', async () => {
+      mockedAxios.mockResolvedValueOnce(jsonResponse({ data: [] }));
+      await run('companiesGET');
+
+      mockedAxios.mockRejectedValueOnce(new Error('socket hang up'));
+      await run('companies/{COMPANY_ID}DELETE', { COMPANY_ID: '1' });
+
+      expect(responseCache.size()).toBe(0);
+    });
+  });
+
+  describe('conditional requests', () => {
+    const ttlMs = 5 * 60 * 1000;
+
+    beforeEach(() => jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] }));
+    afterEach(() => jest.useRealTimers());
+
+    it('should revalidate expired entries and treat 304 as a cache hit', async () => {
+      mockedAxios.mockResolvedValueOnce({ ...jsonResponse({ data: ['v1'] }), headers: { 'content-type': 'application/json', 'etag': '"v1"' } });
+      const first = await run('productionsGET');
+
+      jest.advanceTimersByTime(ttlMs + 1000);
+      mockedAxios.mockResolvedValueOnce({ data: '', status: 304, headers: {} });
+      const second = await run('productionsGET');
+
+      expect(mockedAxios).toHaveBeenCalledTimes(2);
+      const revalidation = mockedAxios.mock.calls[1][0];
+      expect(revalidation.headers['If-None-Match']).toBe('"v1"');
+      expect(revalidation.validateStatus(304)).toBe(true);
+      expect(second).toEqual(first);
+      expect(healthMonitor.getHealthStatus().metrics.cache).toEqual(expect.objectContaining({ hits: 1, misses: 1 }));
+
+      // The 304 refreshed the entry, so the next call is served locally
+      await run('productionsGET');
+      expect(mockedAxios).toHaveBeenCalledTimes(2);
+    });
+
+    it('should replace the entry when the resource changed', async () => {
+      mockedAxios.mockResolvedValueOnce({ ...jsonResponse({ data: ['v1'] }), headers: { 'content-type': 'application/json', 'etag': '"v1"' } });
+      await run('productionsGET');
+
+      jest.advanceTimersByTime(ttlMs + 1000);
+      mockedAxios.mockResolvedValueOnce({ ...jsonResponse({ data: ['v2'] }), headers: { 'content-type': 'application/json', 'etag': '"v2"' } });
+      const result = await run('productionsGET');
+
+      expect(result.content[0].text).toContain('v2');
+      expect(healthMonitor.getHealthStatus().metrics.cache).toEqual(expect.objectContaining({ hits: 0, misses: 2 }));
+    });
+  });
+
+  describe('retries', () => {
+    function serviceUnavailable() {
+      return Object.assign(new Error('Request failed with status code 503'), {
+        isAxiosError: true,
+        response: { status: 503, statusText: 'Service Unavailable', headers: {}, data: {} },
+      });
+    }
+
+    beforeEach(() => {
+      process.env.CENTERPOINT_RETRY_ATTEMPTS = '2';
+      process.env.CENTERPOINT_RETRY_DELAY_MS = '100';
+      config.reload();
+    });
+
+    afterEach(() => {
+      delete process.env.CENTERPOINT_RETRY_ATTEMPTS;
+      delete process.env.CENTERPOINT_RETRY_DELAY_MS;
+      config.reload();
+    });
+
+    it('should retry idempotent calls on transient failures', async () => {
+      mockedAxios
+        .mockRejectedValueOnce(serviceUnavailable())
+        .mockResolvedValueOnce(jsonResponse({ data: [] }));
+
+      const result = await run('companiesGET');
+
+      expect(mockedAxios).toHaveBeenCalledTimes(2);
+      expect(result.content[0].text).toMatch(/^API Response \(Status: 200\)/);
+      expect(toolMetrics.render()).toContain('centerpoint_retries_total{tool="companiesGET",method="GET"} 1');
+    });
+
+    it('should not retry DELETE tools by default', async () => {
+      mockedAxios.mockRejectedValue(serviceUnavailable());
+
+      const result = await run('companies/{COMPANY_ID}DELETE', { COMPANY_ID: '42' });
+
+      expect(mockedAxios).toHaveBeenCalledTimes(1);
+      expect(result.content[0].text).toMatch(/Status 503/);
+    });
+
+    it('should never retry POST tools', async () => {
+      mockedAxios.mockRejectedValue(serviceUnavailable());
+
+      const result = await run('transactionsPOST', {
+        requestBody: { data: { type: 'transactions', attributes: { amount: 10, paymentMethod: 'Check', invoiceId: '7' } } },
+      });
+
+      expect(mockedAxios).toHaveBeenCalledTimes(1);
+      expect(result.content[0].text).toMatch(/Status 503/);
+    });
+  });
+
+  describe('timeouts and cancellation', () => {
+    it('should apply the configured request timeout', async () => {
+      mockedAxios.mockResolvedValue(jsonResponse({ data: [] }));
+
+      await run('companiesGET');
+
+      expect(mockedAxios.mock.calls[0][0].timeout).toBe(config.getPerformance().requestTimeoutMs);
+    });
+
+    it('should report timeouts clearly', async () => {
+      process.env.CENTERPOINT_RETRY_ATTEMPTS = '0';
+      config.reload();
+      try {
+        mockedAxios.mockRejectedValue(Object.assign(new Error('timeout of 30000ms exceeded'), {
+          isAxiosError: true, code: 'ECONNABORTED', config: { timeout: 30000 }, request: {},
+        }));
+
+        const result = await run('companiesGET');
+
+        expect(result.content[0].text).toBe('API Timeout: No response from the server within 30000ms.');
+      } finally {
+        delete process.env.CENTERPOINT_RETRY_ATTEMPTS;
+        config.reload();
+      }
+    });
+
+    it('should pass the abort signal to the API call', async () => {
+      const controller = new AbortController();
+      mockedAxios.mockImplementation(({ signal }) => new Promise((_, reject) => {
+        signal.addEventListener('abort', () => reject(Object.assign(new Error('canceled'), { isAxiosError: true, code: 'ERR_CANCELED' })));
+      }));
+
+      const pending = executeTool(tool('companiesGET'), operations['companiesGET'], {}, { signal: controller.signal });
+      controller.abort('User requested cancellation');
+      const result = await pending;
+
+      expect(mockedAxios).toHaveBeenCalledTimes(1);
+      expect(result.content[0].text).toBe("Tool 'companiesGET' was cancelled: User requested cancellation. The API request was aborted.");
+    });
+
+    it('should not call the API when already cancelled', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await executeTool(tool('companiesGET'), operations['companiesGET'], {}, { signal: controller.signal });
+
+      expect(mockedAxios).not.toHaveBeenCalled();
+      expect(result.content[0].text).toMatch(/was cancelled/);
+    });
+  });
+
+  describe('logging', () => {
+    it('should log each API call with a per-call request ID', async () => {
+      const logRequest = jest.spyOn(logger, 'logRequest');
+      mockedAxios.mockResolvedValue(jsonResponse({ data: [] }));
+
+      await run('companiesGET', { 'filter[search]': 'first' });
+      await run('companiesGET', { 'filter[search]': 'second' });
+
+      expect(logRequest).toHaveBeenCalledTimes(2);
+      expect(logRequest).toHaveBeenCalledWith(
+        'companiesGET', 'GET', `${API_BASE_URL}/companies`, expect.any(Number), 200, undefined,
+        { requestId: expect.any(String), cached: false }
+      );
+      const [first, second] = logRequest.mock.calls.map(call => call[6]!.requestId);
+      expect(first).not.toBe(second);
+    });
+
+    it('should log failed API calls with the response status and error', async () => {
+      const logRequest = jest.spyOn(logger, 'logRequest');
+      mockedAxios.mockRejectedValue(Object.assign(new Error('Request failed with status code 404'), {
+        isAxiosError: true,
+        response: { status: 404, statusText: 'Not Found', data: {} },
+      }));
+
+      await run('companies/{COMPANY_ID}GET', { COMPANY_ID: 'missing' });
+
+      expect(logRequest).toHaveBeenCalledWith(
+        'companies/{COMPANY_ID}GET', 'GET', `${API_BASE_URL}/companies/missing`, expect.any(Number), 404, expect.any(Error),
+        { requestId: expect.any(String) }
+      );
+    });
+  });
+
+  describe('health metrics', () => {
+    function apiError(status: number) {
+      return Object.assign(new Error(`Request failed with status code ${status}`), {
+        isAxiosError: true,
+        response: { status, statusText: '', data: {} },
+      });
+    }
+
+    it('should record successful calls and cache hits', async () => {
+      mockedAxios.mockResolvedValue(jsonResponse({ data: [] }));
+
+      await run('companiesGET');
+      await run('companiesGET');
+
+      const { metrics } = healthMonitor.getHealthStatus();
+      expect(metrics.requests).toEqual(expect.objectContaining({ total: 2, successful: 2, failed: 0 }));
+      expect(metrics.auth).toEqual(expect.objectContaining({ successful: 2, failed: 0 }));
+      expect(requestMetrics.getMetrics()).toEqual(expect.objectContaining({
+        totalRequests: 2,
+        successfulRequests: 2,
+        cacheHits: 1,
+        cacheMisses: 1,
+      }));
+      const prometheus = toolMetrics.render();
+      expect(prometheus).toContain('centerpoint_tool_requests_total{tool="companiesGET",method="GET",status="200"} 2');
+      expect(prometheus).toContain('centerpoint_cache_hits_total{tool="companiesGET",method="GET"} 1');
+      expect(prometheus).toContain('centerpoint_cache_misses_total{tool="companiesGET",method="GET"} 1');
+    });
+
+    it('should record failed calls and the last error', async () => {
+      mockedAxios.mockRejectedValue(apiError(404));
+
+      await run('companies/{COMPANY_ID}GET', { COMPANY_ID: 'missing' });
+
+      const { metrics } = healthMonitor.getHealthStatus();
+      expect(metrics.requests).toEqual(expect.objectContaining({ total: 1, successful: 0, failed: 1 }));
+      expect(metrics.errors.count).toBe(1);
+      expect(metrics.errors.lastError).toMatch(/404/);
+      expect(requestMetrics.getMetrics().failedRequests).toBe(1);
+    });
+
+    it('should record authentication outcomes', async () => {
+      mockedAxios.mockRejectedValueOnce(apiError(401)).mockRejectedValueOnce(apiError(429));
+
+      await run('companiesPOST', { requestBody: newCompany });
+      await run('companiesPOST', { requestBody: newCompany });
+      delete process.env.CENTERPOINT_API_TOKEN;
+      await run('companiesGET');
+
+      expect(healthMonitor.getHealthStatus().metrics.auth).toEqual({ successful: 0, failed: 2, rateLimited: 1 });
+    });
+
+    it('should reject arguments that do not match the schema before calling the API', async () => {
+      const result = await run('companiesPOST', { requestBody: { data: { ...newCompany.data, attributes: { ...newCompany.data.attributes, salesStatus: 'Client' } } } });
+
+      expect(mockedAxios).not.toHaveBeenCalled();
+      expect(result.content[0].text).toBe(
+        "Invalid arguments for tool 'companiesPOST': requestBody.data.attributes.salesStatus (custom): Expected one of: \"Lead\", \"Quoted\", \"Sold\", \"Dead\""
+      );
+    });
+
+    it('should not record validation failures as requests', async () => {
+      await run('companies/{COMPANY_ID}GET', {});
+
+      expect(healthMonitor.getHealthStatus().metrics.requests.total).toBe(0);
+    });
+  });
+
+  describe('fetch all pages', () => {
+    function page(ids: string[], links?: Record<string, unknown>, included?: unknown[]) {
+      return jsonResponse({ data: ids.map(id => ({ type: 'companies', id })), ...(included ? { included } : {}), ...(links ? { links } : {}) });
+    }
+
+    function body(result: CallToolResult) {
+      return JSON.parse(String(result.content[0].text).replace(/^API Response \(Status: \d+\):\n/, ''));
+    }
+
+    it('should follow links.next and merge the pages', async () => {
+      mockedAxios
+        .mockResolvedValueOnce(page(['1', '2'], { next: `${API_BASE_URL}/companies?page[number]=2` }, [{ type: 'profiles', id: 'p' }]))
+        .mockResolvedValueOnce(page(['3'], { next: null }, [{ type: 'profiles', id: 'p' }]));
+
+      const result = await run('companiesGET', { fetchAll: true });
+
+      expect(mockedAxios).toHaveBeenCalledTimes(2);
+      expect(mockedAxios.mock.calls[1][0]).toEqual(expect.objectContaining({
+        url: `${API_BASE_URL}/companies?page[number]=2`,
+        params: undefined,
+        headers: expect.objectContaining({ Authorization: 'Bearer executor_test_token' }),
+      }));
+      expect(body(result)).toEqual({
+        data: [{ type: 'companies', id: '1' }, { type: 'companies', id: '2' }, { type: 'companies', id: '3' }],
+        included: [{ type: 'profiles', id: 'p' }],
+        meta: { pagesFetched: 2, recordsFetched: 3, truncated: false },
+      });
+    });
+
+    it('should increment page[number] when the API sends no links', async () => {
+      mockedAxios
+        .mockResolvedValueOnce(page(['1', '2']))
+        .mockResolvedValueOnce(page(['3', '4']))
+        .mockResolvedValueOnce(page(['5']));
+
+      const result = await run('companiesGET', { fetchAll: true, 'page[size]': 2 });
+
+      expect(mockedAxios.mock.calls.map(call => call[0].params)).toEqual([
+        { 'page[size]': 2 },
+        { 'page[size]': 2, 'page[number]': 2 },
+        { 'page[size]': 2, 'page[number]': 3 },
+      ]);
+      expect(body(result).meta).toEqual({ pagesFetched: 3, recordsFetched: 5, truncated: false });
+    });
+
+    it('should stop at maxPages and report truncation', async () => {
+      mockedAxios
+        .mockResolvedValueOnce(page(['1'], { next: `${API_BASE_URL}/companies?page[number]=2` }))
+        .mockResolvedValueOnce(page(['2'], { next: `${API_BASE_URL}/companies?page[number]=3` }));
+
+      const result = await run('companiesGET', { maxPages: 2 });
+
+      expect(mockedAxios).toHaveBeenCalledTimes(2);
+      expect(body(result).meta).toEqual({ pagesFetched: 2, recordsFetched: 2, truncated: true });
+    });
+
+    it('should stop at maxRecords', async () => {
+      mockedAxios.mockResolvedValueOnce(page(['1', '2', '3'], { next: `${API_BASE_URL}/companies?page[number]=2` }));
+
+      const result = await run('companiesGET', { maxRecords: 2 });
+
+      expect(mockedAxios).toHaveBeenCalledTimes(1);
+      expect(body(result)).toEqual({
+        data: [{ type: 'companies', id: '1' }, { type: 'companies', id: '2' }],
+        meta: { pagesFetched: 1, recordsFetched: 2, truncated: true },
+      });
+    });
+
+    it('should not follow next links to another host', async () => {
+      mockedAxios.mockResolvedValueOnce(page(['1'], { next: 'https://evil.example.com/companies?page[number]=2' }));
+
+      const result = await run('companiesGET', { fetchAll: true });
+
+      expect(mockedAxios).toHaveBeenCalledTimes(1);
+      expect(body(result).meta.truncated).toBe(true);
+    });
+
+    it('should return a single page when fetchAll is not requested', async () => {
+      mockedAxios.mockResolvedValueOnce(page(['1'], { next: `${API_BASE_URL}/companies?page[number]=2` }));
+
+      const result = await run('companiesGET');
+
+      expect(mockedAxios).toHaveBeenCalledTimes(1);
+      expect(body(result).links).toBeDefined();
+    });
+
+    it('should reject invalid limits', async () => {
+      const result = await run('companiesGET', { maxPages: -1 });
+
+      expect(mockedAxios).not.toHaveBeenCalled();
+      expect(result.content[0].text).toBe('maxPages must be a positive integer');
+    });
+  });
+
+  describe('response formats', () => {
+    const document = {
+      data: [{ type: 'companies', id: '1', attributes: { name: 'Acme' }, relationships: { profile: { data: { type: 'profiles', id: 'p' } } } }],
+      included: [{ type: 'profiles', id: 'p', attributes: { name: 'Default' } }],
+    };
+
+    it('should return the raw payload by default', async () => {
+      mockedAxios.mockResolvedValue(jsonResponse(document));
+
+      const result = await run('companiesGET');
+
+      expect(result.content[0].text).toBe(`API Response (Status: 200):\n${JSON.stringify(document, null, 2)}`);
+    });
+
+    it('should flatten JSON:API payloads', async () => {
+      mockedAxios.mockResolvedValue(jsonResponse(document));
+
+      const result = await run('companiesGET', { responseFormat: 'flat' });
+
+      expect(JSON.parse(String(result.content[0].text).replace(/^API Response \(Status: 200\):\n/, ''))).toEqual({
+        data: [{ id: '1', type: 'companies', name: 'Acme', profile: { id: 'p', type: 'profiles', name: 'Default' } }],
+      });
+    });
+
+    it('should render tables of the requested fields', async () => {
+      mockedAxios.mockResolvedValue(jsonResponse(document));
+
+      const result = await run('companiesGET', { responseFormat: 'table', 'fields[companies]': 'name' });
+
+      expect(result.content[0].text).toBe('API Response (Status: 200):\n| id | name |\n| --- | --- |\n| 1 | Acme |');
+    });
+
+    it('should share the cache between formats', async () => {
+      mockedAxios.mockResolvedValue(jsonResponse(document));
+
+      await run('companiesGET', { responseFormat: 'flat' });
+      await run('companiesGET', { responseFormat: 'table' });
+
+      expect(mockedAxios).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject unknown formats before calling the API', async () => {
+      const result = await run('companiesGET', { responseFormat: 'xml' });
+
+      expect(mockedAxios).not.toHaveBeenCalled();
+      expect(result.content[0].text).toMatch(/responseFormat must be one of/);
+    });
+  });
+
+  describe('dry runs', () => {
+    const company = { data: { type: 'companies', id: '42', attributes: { name: 'Acme', active: true } } };
+
+    function preview(result: CallToolResult) {
+      return JSON.parse(String(result.content[0].text).replace(/^Dry run: no request was sent to CenterPoint\.\n/, ''));
+    }
+
+    it('should preview POST requests without calling the API', async () => {
+      const requestBody = newCompany;
+
+      const result = await run('companiesPOST', { requestBody, dryRun: true });
+
+      expect(mockedAxios).not.toHaveBeenCalled();
+      expect(preview(result)).toEqual({
+        request: {
+          method: 'POST',
+          url: `${API_BASE_URL}/companies`,
+          query: {},
+          headers: expect.objectContaining({ Authorization: expect.stringMatching(/^exec\*+oken$/) }),
+          // Schema defaults are filled in, as they will be sent
+          body: { data: { ...requestBody.data, attributes: { ...requestBody.data.attributes, country: 'us' } } },
+        },
+      });
+    });
+
+    it('should preview DELETE requests without invalidating the cache', async () => {
+      mockedAxios.mockResolvedValue(jsonResponse({ data: [] }));
+      await run('companiesGET');
+
+      const result = await run('companies/{COMPANY_ID}DELETE', { COMPANY_ID: '42', dryRun: true });
+      await run('companiesGET');
+
+      expect(mockedAxios).toHaveBeenCalledTimes(1);
+      expect(preview(result).request).toEqual(expect.objectContaining({ method: 'DELETE', url: `${API_BASE_URL}/companies/42` }));
+      expect(toolMetrics.render()).not.toMatch(/DELETE/);
+    });
+
+    it('should diff PATCH bodies against the current resource', async () => {
+      mockedAxios.mockResolvedValue(jsonResponse(company));
+      const requestBody = { data: { type: 'companies', id: '42', attributes: { name: 'Acme AS', active: true } } };
+
+      const result = await run('companies/{COMPANY_ID}PATCH', { COMPANY_ID: '42', requestBody, dryRun: true });
+
+      expect(mockedAxios).toHaveBeenCalledTimes(1);
+      const [request] = mockedAxios.mock.calls[0];
+      expect(request).toEqual(expect.objectContaining({ method: 'GET', url: `${API_BASE_URL}/companies/42`, data: undefined }));
+      expect(request.headers).not.toHaveProperty('content-type');
+      expect(preview(result)).toEqual({
+        request: expect.objectContaining({ method: 'PATCH', body: requestBody }),
+        diff: { changes: [{ attribute: 'name', current: 'Acme', proposed: 'Acme AS' }], unchanged: ['active'] },
+      });
+    });
+
+    it('should still preview PATCH requests when the current resource cannot be fetched', async () => {
+      mockedAxios.mockRejectedValue(Object.assign(new Error('Request failed with status code 404'), {
+        isAxiosError: true,
+        response: { status: 404, statusText: 'Not Found', data: { errors: [] }, headers: {} },
+      }));
+
+      const result = await run('companies/{COMPANY_ID}PATCH', { COMPANY_ID: '42', requestBody: company, dryRun: true });
+
+      expect(preview(result)).toEqual({
+        request: expect.objectContaining({ method: 'PATCH' }),
+        diff: expect.stringMatching(/^unavailable: API Error: Status 404/),
+      });
+    });
+
+    it('should send the request when dryRun is false', async () => {
+      mockedAxios.mockResolvedValue(jsonResponse(company, 201));
+
+      await run('companiesPOST', { requestBody: newCompany, dryRun: false });
+
+      expect(mockedAxios).toHaveBeenCalledWith(expect.objectContaining({ method: 'POST' }));
+    });
+  });
+
+  describe('confirmations', () => {
+    const company = { data: { type: 'companies', id: '42', attributes: { name: 'Acme' } } };
+
+    function runWithElicit(name: string, args: Record<string, unknown>, elicit: jest.Mock) {
+      return executeTool(tool(name), operations[name], args, { elicit });
+    }
+
+    afterEach(() => {
+      delete process.env.CENTERPOINT_CONFIRM;
+      config.reload();
+    });
+
+    it('should show the record and delete it once confirmed', async () => {
+      mockedAxios.mockResolvedValueOnce(jsonResponse(company)).mockResolvedValueOnce({ data: '', status: 204, headers: {} });
+      const elicit = jest.fn().mockResolvedValue({ action: 'accept', content: { confirm: true } });
+
+      const result = await runWithElicit('companies/{COMPANY_ID}DELETE', { COMPANY_ID: '42' }, elicit);
+
+      expect(elicit).toHaveBeenCalledWith(expect.objectContaining({
+        message: expect.stringContaining('Record: companies 42 (Acme)'),
+        requestedSchema: expect.objectContaining({ required: ['confirm'] }),
+      }));
+      expect(mockedAxios.mock.calls.map(([request]) => request.method)).toEqual(['GET', 'DELETE']);
+      expect(result.content[0].text).toMatch(/^API Response \(Status: 204\)/);
+    });
+
+    it.each([
+      ['declined', { action: 'decline' }],
+      ['cancelled', { action: 'cancel' }],
+      ['accepted without confirming', { action: 'accept', content: { confirm: false } }],
+    ])('should not delete when the user %s', async (_label, answer) => {
+      mockedAxios.mockResolvedValue(jsonResponse(company));
+      const elicit = jest.fn().mockResolvedValue(answer);
+
+      const result = await runWithElicit('companies/{COMPANY_ID}DELETE', { COMPANY_ID: '42' }, elicit);
+
+      expect(mockedAxios).toHaveBeenCalledTimes(1);
+      expect(mockedAxios.mock.calls[0][0].method).toBe('GET');
+      expect(result.content[0].text).toMatch(/did not confirm .*The request was not sent/);
+    });
+
+    it('should not delete when the confirmation request fails', async () => {
+      mockedAxios.mockResolvedValue(jsonResponse(company));
+      const elicit = jest.fn().mockRejectedValue(new Error('Request timed out'));
+
+      const result = await runWithElicit('companies/{COMPANY_ID}DELETE', { COMPANY_ID: '42' }, elicit);
+
+      expect(mockedAxios).toHaveBeenCalledTimes(1);
+      expect(result.content[0].text).toMatch(/Could not get confirmation .*Request timed out/);
+    });
+
+    it('should still ask when the record cannot be fetched', async () => {
+      mockedAxios.mockRejectedValue(Object.assign(new Error('Request failed with status code 404'), {
+        isAxiosError: true,
+        response: { status: 404, statusText: 'Not Found', data: { errors: [] }, headers: {} },
+      }));
+      const elicit = jest.fn().mockResolvedValue({ action: 'decline' });
+
+      await runWithElicit('companies/{COMPANY_ID}DELETE', { COMPANY_ID: '42' }, elicit);
+
+      expect(elicit.mock.calls[0][0].message).toContain('Record: could not be fetched (API Error: Status 404');
+    });
+
+    it('should not ask for other mutations by default', async () => {
+      mockedAxios.mockResolvedValue(jsonResponse(company, 201));
+      const elicit = jest.fn();
+
+      await runWithElicit('companiesPOST', { requestBody: newCompany }, elicit);
+
+      expect(elicit).not.toHaveBeenCalled();
+      expect(mockedAxios).toHaveBeenCalledTimes(1);
+    });
+
+    it('should delete without asking when the client cannot elicit', async () => {
+      mockedAxios.mockResolvedValue({ data: '', status: 204, headers: {} });
+
+      await run('companies/{COMPANY_ID}DELETE', { COMPANY_ID: '42' });
+
+      expect(mockedAxios).toHaveBeenCalledTimes(1);
+      expect(mockedAxios.mock.calls[0][0].method).toBe('DELETE');
+    });
+
+    it('should confirm every mutation in mutations mode', async () => {
+      process.env.CENTERPOINT_CONFIRM = 'mutations';
+      config.reload();
+      mockedAxios.mockResolvedValue(jsonResponse(company));
+      const elicit = jest.fn().mockResolvedValue({ action: 'decline' });
+      const requestBody = { data: { type: 'companies', id: '42', attributes: { name: 'Acme AS' } } };
+
+      await runWithElicit('companiesPOST', { requestBody: newCompany }, elicit);
+      await runWithElicit('companies/{COMPANY_ID}PATCH', { COMPANY_ID: '42', requestBody }, elicit);
+
+      expect(elicit).toHaveBeenCalledTimes(2);
+      expect(elicit.mock.calls[1][0].message).toContain('- name: "Acme" -> "Acme AS"');
+      expect(mockedAxios.mock.calls.map(([request]) => request.method)).toEqual(['GET']);
+    });
+
+    it('should refuse required confirmations when the client cannot elicit', async () => {
+      process.env.CENTERPOINT_CONFIRM = 'deletes';
+      config.reload();
+
+      const result = await run('companies/{COMPANY_ID}DELETE', { COMPANY_ID: '42' });
+
+      expect(mockedAxios).not.toHaveBeenCalled();
+      expect(result.content[0].text).toMatch(/requires confirmation, but this client does not support elicitation/);
+    });
+
+    it('should not ask for dry runs', async () => {
+      const elicit = jest.fn();
+
+      await runWithElicit('companies/{COMPANY_ID}DELETE', { COMPANY_ID: '42', dryRun: true }, elicit);
+
+      expect(elicit).not.toHaveBeenCalled();
+    });
+  });
+});
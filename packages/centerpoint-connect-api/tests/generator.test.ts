@@ -0,0 +1,150 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  generateTools,
+  renderOperationsTable,
+  renderToolsModule,
+  replaceOperationsTable,
+  type GeneratorOverrides,
+  type OpenApiDocument,
+} from '../src/generator';
+
+const root = join(__dirname, '..');
+const read = (path: string) => readFileSync(join(root, path), 'utf8');
+
+function spec(paths: OpenApiDocument['paths']): OpenApiDocument {
+  return { openapi: '3.0.3', info: { title: 'Test', version: '1' }, paths };
+}
+
+const companies = spec({
+  '/companies/{COMPANY_ID}': {
+    patch: {
+      summary: 'Update company',
+      parameters: [
+        { name: 'COMPANY_ID', in: 'path', required: true, schema: { type: 'string' } },
+        { name: 'filter[isActive]', in: 'query', description: 'Values: true, false', schema: { type: 'string' } },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: { type: 'object', properties: { data: { type: 'object', properties: { attributes: { type: 'object', properties: { isBilling: { type: 'boolean', enum: [1, 0] } } } } } } },
+          },
+        },
+      },
+    },
+  },
+});
+
+describe('checked-in definitions', () => {
+  const generated = generateTools(JSON.parse(read('openapi/centerpoint-connect-api.json')), JSON.parse(read('openapi/overrides.json')));
+
+  it('should regenerate src/tools.ts unchanged', () => {
+    expect(renderToolsModule(generated)).toBe(read('src/tools.ts'));
+  });
+
+  it('should regenerate the operation table unchanged', () => {
+    const source = read('src/operations.ts');
+
+    expect(replaceOperationsTable(source, renderOperationsTable(generated))).toBe(source);
+  });
+});
+
+describe('generateTools()', () => {
+  it('should map parameters and the request body to tool arguments', () => {
+    const [{ tool, operation }] = generateTools(companies, { tools: {} });
+
+    expect(tool.name).toBe('companies/{COMPANY_ID}PATCH');
+    expect(tool.description).toBe('Update company');
+    expect(Object.keys(tool.inputSchema.properties ?? {})).toEqual(['COMPANY_ID', 'filter[isActive]', 'requestBody', 'Authorization']);
+    expect(tool.inputSchema.properties?.['filter[isActive]']).toEqual({ type: 'string', description: 'Values: true, false' });
+    expect(tool.inputSchema.required).toEqual(['COMPANY_ID', 'requestBody']);
+    expect(operation).toEqual({
+      method: 'PATCH',
+      pathTemplate: '/companies/{COMPANY_ID}',
+      pathParams: ['COMPANY_ID'],
+      queryParams: ['filter[isActive]'],
+      bodyContentType: 'application/json',
+    });
+  });
+
+  it('should apply overrides', () => {
+    const overrides: GeneratorOverrides = {
+      tools: {
+        'companies/{COMPANY_ID}PATCH': {
+          description: 'Update a company',
+          title: 'Edit company',
+          retry: true,
+          schema: {
+            'filter[isActive]': { type: 'boolean', description: null },
+            'requestBody/data/attributes/isBilling': { type: 'integer', default: 0 },
+          },
+        },
+      },
+    };
+
+    const [{ tool, operation }] = generateTools(companies, overrides);
+
+    expect(tool.description).toBe('Update a company');
+    expect(operation).toEqual(expect.objectContaining({ title: 'Edit company', retry: true }));
+    expect(tool.inputSchema.properties?.['filter[isActive]']).toEqual({ type: 'boolean' });
+    const { isBilling } = (tool.inputSchema.properties as any).requestBody.properties.data.properties.attributes.properties;
+    expect(JSON.stringify(isBilling)).toBe('{"type":"integer","default":0,"enum":[1,0]}');
+  });
+
+  it('should reject overrides that do not apply', () => {
+    expect(() => generateTools(companies, { tools: { companiesGET: { title: 'x' } } }))
+      .toThrow("Overrides refer to unknown tool 'companiesGET'");
+    expect(() => generateTools(companies, { tools: { 'companies/{COMPANY_ID}PATCH': { schema: { 'requestBody/data/nope': { type: 'string' } } } } }))
+      .toThrow("Override for companies/{COMPANY_ID}PATCH refers to unknown property 'requestBody/data/nope'");
+  });
+
+  it('should reject what it cannot map', () => {
+    expect(() => generateTools(spec({ '/companies': { put: {} } }), { tools: {} })).toThrow("Unsupported method 'put' for /companies");
+    expect(() => generateTools(spec({ '/companies': { get: { parameters: [{ name: 'X-Trace', in: 'header' }] } } }), { tools: {} }))
+      .toThrow("Unsupported header parameter 'X-Trace' in companiesGET");
+    expect(() => generateTools(spec({ '/companies': { get: { parameters: [{ name: 'sort', in: 'query', schema: { $ref: '#/components/schemas/Sort' } }] } } }), { tools: {} }))
+      .toThrow("Unresolved $ref '#/components/schemas/Sort'");
+  });
+
+  it('should resolve $ref and skip path item keys that are not operations', () => {
+    const document: OpenApiDocument = {
+      ...spec({
+        '/companies': {
+          summary: 'Companies',
+          parameters: [{ $ref: '#/components/parameters/search' }],
+          get: { parameters: [{ name: 'page[size]', in: 'query', schema: { $ref: '#/components/schemas/PageSize' } }] },
+        },
+      }),
+      components: {
+        parameters: { search: { name: 'filter[search]', in: 'query', schema: { type: 'string' } } },
+        schemas: { PageSize: { type: 'integer', maximum: 100 } },
+      },
+    };
+    const [{ tool, operation }] = generateTools(document, { tools: {} });
+
+    expect(operation.queryParams).toEqual(['filter[search]', 'page[size]']);
+    expect(tool.inputSchema.properties?.['page[size]']).toEqual({ type: 'integer', maximum: 100 });
+  });
+
+  it('should pass unsupported operations to onUnsupported', () => {
+    const document: OpenApiDocument = {
+      ...spec({ '/companies': { get: {}, put: {}, post: { requestBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/Node' } } } } } } }),
+      components: { schemas: { Node: { type: 'object', properties: { parent: { $ref: '#/components/schemas/Node' } } } } },
+    };
+    const unsupported: unknown[] = [];
+    const generated = generateTools(document, { tools: {} }, { onUnsupported: operation => unsupported.push(operation) });
+
+    expect(generated.map(({ tool }) => tool.name)).toEqual(['companiesGET']);
+    expect(unsupported).toEqual([
+      { path: '/companies', method: 'PUT', reason: "Unsupported method 'put' for /companies" },
+      { path: '/companies', method: 'POST', reason: "Circular $ref '#/components/schemas/Node'" },
+    ]);
+  });
+});
+
+describe('replaceOperationsTable()', () => {
+  it('should require the generated markers', () => {
+    expect(() => replaceOperationsTable('export const operations = {};', '')).toThrow(/markers/);
+  });
+});
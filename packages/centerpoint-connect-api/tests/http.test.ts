@@ -0,0 +1,155 @@
+import { createServer, type Server as HttpServer } from 'http';
+import { type AddressInfo } from 'net';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { McpSessionManager, runHttpServer, type HttpAccessOptions } from '../src/http';
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-06-18',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+};
+
+const mcpHeaders = {
+  'Content-Type': 'application/json',
+  'Accept': 'application/json, text/event-stream',
+};
+
+const createMcpServer = () => new Server(
+  { name: 'test-server', version: '1.0.0' },
+  { capabilities: { tools: {} } }
+);
+
+describe('McpSessionManager', () => {
+  let sessions: McpSessionManager;
+  let httpServer: HttpServer;
+  let url: string;
+
+  const listen = async (access?: HttpAccessOptions) => {
+    sessions = new McpSessionManager(createMcpServer, access);
+    httpServer = createServer((req, res) => { void sessions.handleRequest(req, res); });
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`;
+  };
+
+  beforeEach(async () => {
+    await listen();
+  });
+
+  afterEach(async () => {
+    await sessions.closeAll();
+    await new Promise(resolve => httpServer.close(resolve));
+  });
+
+  it('should create a session for initialize requests', async () => {
+    const response = await fetch(url, { method: 'POST', headers: mcpHeaders, body: JSON.stringify(initializeRequest) });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('mcp-session-id')).toBeTruthy();
+    await response.text();
+    expect(sessions.size()).toBe(1);
+  });
+
+  it('should give each session its own id', async () => {
+    const first = await fetch(url, { method: 'POST', headers: mcpHeaders, body: JSON.stringify(initializeRequest) });
+    const second = await fetch(url, { method: 'POST', headers: mcpHeaders, body: JSON.stringify(initializeRequest) });
+    await Promise.all([first.text(), second.text()]);
+
+    expect(first.headers.get('mcp-session-id')).not.toBe(second.headers.get('mcp-session-id'));
+    expect(sessions.size()).toBe(2);
+  });
+
+  it('should reject requests for unknown sessions', async () => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { ...mcpHeaders, 'Mcp-Session-Id': 'missing' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error.message).toBe('Session not found');
+  });
+
+  it('should reject non-initialize requests without a session', async () => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: mcpHeaders,
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject malformed JSON bodies', async () => {
+    const response = await fetch(url, { method: 'POST', headers: mcpHeaders, body: '{not json' });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.code).toBe(-32700);
+  });
+
+  it('should close idle sessions', async () => {
+    const response = await fetch(url, { method: 'POST', headers: mcpHeaders, body: JSON.stringify(initializeRequest) });
+    await response.text();
+
+    await new Promise(resolve => setTimeout(resolve, 5));
+    expect(await sessions.closeIdleSessions(1)).toBe(1);
+    expect(sessions.size()).toBe(0);
+  });
+
+  describe('access', () => {
+    const initialize = (headers: Record<string, string> = {}) =>
+      fetch(url, { method: 'POST', headers: { ...mcpHeaders, ...headers }, body: JSON.stringify(initializeRequest) });
+
+    beforeEach(async () => {
+      // Each test listens with its own access options
+      await sessions.closeAll();
+      await new Promise(resolve => httpServer.close(resolve));
+    });
+
+    it('should require the bearer token when one is set', async () => {
+      await listen({ authToken: 'shared-secret' });
+
+      const missing = await initialize();
+      const wrong = await initialize({ Authorization: 'Bearer other' });
+      const right = await initialize({ Authorization: 'Bearer shared-secret' });
+      await Promise.all([missing.text(), wrong.text(), right.text()]);
+
+      expect(missing.status).toBe(401);
+      expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+      expect(wrong.status).toBe(401);
+      expect(right.status).toBe(200);
+      expect(sessions.size()).toBe(1);
+    });
+
+    it('should reject hosts that are not allowed', async () => {
+      await listen({ allowedHosts: ['mcp.example.com'] });
+
+      const response = await initialize();
+
+      expect(response.status).toBe(403);
+      expect((await response.json()).error.message).toMatch(/Invalid Host header/);
+    });
+
+    it('should reject origins that are not allowed', async () => {
+      await listen({ allowedOrigins: ['https://app.example.com'] });
+
+      const wrong = await initialize({ Origin: 'https://evil.example' });
+      const allowed = await initialize({ Origin: 'https://app.example.com' });
+      await Promise.all([wrong.text(), allowed.text()]);
+
+      expect(wrong.status).toBe(403);
+      expect(allowed.status).toBe(200);
+    });
+  });
+});
+
+describe('runHttpServer()', () => {
+  it('should refuse to listen beyond loopback without an auth token', async () => {
+    await expect(runHttpServer(createMcpServer, { host: '0.0.0.0', port: 0, path: '/mcp', sessionIdleTimeoutMs: 0 }))
+      .rejects.toThrow('Set CENTERPOINT_HTTP_AUTH_TOKEN before listening on 0.0.0.0');
+  });
+});
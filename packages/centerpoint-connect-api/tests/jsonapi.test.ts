@@ -0,0 +1,136 @@
+import {
+  type JsonApiDocument,
+  addResponseFormatArgument,
+  flattenDocument,
+  getResponseFormat,
+  isJsonApiDocument,
+  renderTable,
+} from '../src/jsonapi';
+import { toolsList } from '../src/tools';
+
+const productions: JsonApiDocument = {
+  data: [
+    {
+      type: 'productions',
+      id: '1',
+      attributes: { name: 'Roof | Main', status: 'scheduled' },
+      relationships: {
+        property: { data: { type: 'properties', id: '10' } },
+        company: { data: { type: 'companies', id: '20' } },
+        crews: { data: [{ type: 'crews', id: '30' }] },
+        notes: { links: { related: '/productions/1/notes' } },
+      },
+    },
+    {
+      type: 'productions',
+      id: '2',
+      attributes: { name: 'Gutters', status: 'complete' },
+      relationships: {
+        property: { data: null },
+        company: { data: { type: 'companies', id: '20' } },
+      },
+    },
+  ],
+  included: [
+    { type: 'properties', id: '10', attributes: { address: '1 Main St' }, relationships: { company: { data: { type: 'companies', id: '20' } } } },
+    { type: 'companies', id: '20', attributes: { name: 'Acme Roofing' } },
+  ],
+  meta: { total: 2 },
+};
+
+describe('addResponseFormatArgument()', () => {
+  it('should add an enum-typed responseFormat property', () => {
+    const tool = addResponseFormatArgument(toolsList.find(t => t.name === 'productionsGET')!);
+
+    expect(tool.inputSchema.properties!.responseFormat).toEqual(expect.objectContaining({
+      type: 'string',
+      enum: ['raw', 'flat', 'table'],
+    }));
+  });
+});
+
+describe('getResponseFormat()', () => {
+  it('should default to raw', () => {
+    expect(getResponseFormat({})).toBe('raw');
+    expect(getResponseFormat({ responseFormat: 'table' })).toBe('table');
+  });
+
+  it('should reject unknown formats', () => {
+    expect(() => getResponseFormat({ responseFormat: 'csv' })).toThrow('responseFormat must be one of: raw, flat, table');
+  });
+});
+
+describe('isJsonApiDocument()', () => {
+  it('should recognise list, single and empty documents', () => {
+    expect(isJsonApiDocument(productions)).toBe(true);
+    expect(isJsonApiDocument({ data: { type: 'companies', id: '1' } })).toBe(true);
+    expect(isJsonApiDocument({ data: null })).toBe(true);
+  });
+
+  it('should reject other payloads', () => {
+    expect(isJsonApiDocument('text')).toBe(false);
+    expect(isJsonApiDocument({ url: 'https://files.example.com' })).toBe(false);
+    expect(isJsonApiDocument({ data: 'x' })).toBe(false);
+  });
+});
+
+describe('flattenDocument()', () => {
+  it('should merge attributes and inline included relationships', () => {
+    const { data, meta } = flattenDocument(productions);
+
+    expect(meta).toEqual({ total: 2 });
+    expect(data).toEqual([
+      {
+        id: '1',
+        type: 'productions',
+        name: 'Roof | Main',
+        status: 'scheduled',
+        property: { id: '10', type: 'properties', address: '1 Main St' },
+        company: { id: '20', type: 'companies', name: 'Acme Roofing' },
+        crews: [{ id: '30', type: 'crews' }],
+      },
+      {
+        id: '2',
+        type: 'productions',
+        name: 'Gutters',
+        status: 'complete',
+        property: null,
+        company: { id: '20', type: 'companies', name: 'Acme Roofing' },
+      },
+    ]);
+  });
+
+  it('should flatten single-resource documents', () => {
+    expect(flattenDocument({ data: { type: 'companies', id: '20', attributes: { name: 'Acme' } } }))
+      .toEqual({ data: { id: '20', type: 'companies', name: 'Acme' } });
+  });
+});
+
+describe('renderTable()', () => {
+  it('should render the requested fields as columns', () => {
+    const table = renderTable(productions, { productions: 'name,company' });
+
+    expect(table).toBe([
+      '| id | name | company |',
+      '| --- | --- | --- |',
+      '| 1 | Roof \\| Main | Acme Roofing |',
+      '| 2 | Gutters | Acme Roofing |',
+      '',
+      'meta: {"total":2}',
+    ].join('\n'));
+  });
+
+  it('should use every attribute and relationship when no fields are requested', () => {
+    const table = renderTable({ data: [{ type: 'companies', id: '1', attributes: { name: 'Acme', tags: ['a', 'b'] } }] });
+
+    expect(table).toBe([
+      '| id | name | tags |',
+      '| --- | --- | --- |',
+      '| 1 | Acme | a, b |',
+    ].join('\n'));
+  });
+
+  it('should handle empty results', () => {
+    expect(renderTable({ data: [] })).toBe('(no records)');
+  });
+});
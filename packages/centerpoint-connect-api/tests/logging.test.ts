@@ -0,0 +1,119 @@
+import { Logger } from '../src/logging';
+import { config } from '../src/config';
+
+describe('Logger', () => {
+  const originalEnv = { ...process.env };
+  let stderr: jest.SpyInstance;
+  let stdout: jest.SpyInstance[];
+
+  function createLogger(env: Record<string, string>): Logger {
+    Object.assign(process.env, env);
+    config.reload();
+    return new Logger();
+  }
+
+  function lines(): string[] {
+    return stderr.mock.calls.map(call => call[0]);
+  }
+
+  beforeEach(() => {
+    stderr = jest.spyOn(console, 'error').mockImplementation(() => {});
+    stdout = [
+      jest.spyOn(console, 'log').mockImplementation(() => {}),
+      jest.spyOn(console, 'info').mockImplementation(() => {}),
+      jest.spyOn(console, 'debug').mockImplementation(() => {}),
+    ];
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    process.env = { ...originalEnv };
+    config.reload();
+  });
+
+  it('should write every level to stderr', () => {
+    const logger = createLogger({ CENTERPOINT_LOG_LEVEL: 'debug' });
+
+    logger.error('e');
+    logger.warn('w');
+    logger.info('i');
+    logger.debug('d');
+
+    expect(lines()).toHaveLength(4);
+    stdout.forEach(spy => expect(spy).not.toHaveBeenCalled());
+  });
+
+  it('should drop messages below the configured level', () => {
+    const logger = createLogger({ CENTERPOINT_LOG_LEVEL: 'warn' });
+
+    logger.info('chatter');
+    logger.debug('more chatter');
+    logger.warn('careful');
+
+    expect(lines()).toEqual([expect.stringContaining('[WARN] careful')]);
+  });
+
+  it('should pick up a new level after configure()', () => {
+    const logger = createLogger({ CENTERPOINT_LOG_LEVEL: 'info' });
+    process.env.CENTERPOINT_LOG_LEVEL = 'error';
+    config.reload();
+    logger.configure();
+
+    logger.info('chatter');
+
+    expect(lines()).toHaveLength(0);
+  });
+
+  it('should log error messages and stacks in JSON format', () => {
+    const logger = createLogger({ CENTERPOINT_LOG_FORMAT: 'json' });
+
+    logger.error('boom', { requestId: 'abc', error: new Error('kaput') });
+
+    const entry = JSON.parse(lines()[0]);
+    expect(entry).toEqual(expect.objectContaining({
+      level: 'ERROR',
+      message: 'boom',
+      context: { requestId: 'abc', error: 'kaput' },
+    }));
+    expect(entry.stack).toContain('kaput');
+  });
+
+  it('should mask tokens in messages and context', () => {
+    const logger = createLogger({ CENTERPOINT_LOG_LEVEL: 'info' });
+    const token = 'abcdefghijklmnopqrstuvwxyz0123456789';
+
+    logger.info(`using ${token}`, { token });
+
+    expect(lines()[0]).not.toContain(token);
+  });
+
+  describe('logRequest()', () => {
+    it('should skip successful requests unless request logging is enabled', () => {
+      const logger = createLogger({ CENTERPOINT_ENABLE_REQUEST_LOGGING: 'false' });
+
+      logger.logRequest('companiesGET', 'GET', '/companies', 12, 200);
+
+      expect(lines()).toHaveLength(0);
+    });
+
+    it('should log successful requests with their context when enabled', () => {
+      const logger = createLogger({ CENTERPOINT_ENABLE_REQUEST_LOGGING: 'true', CENTERPOINT_LOG_FORMAT: 'json' });
+
+      logger.logRequest('companiesGET', 'GET', '/companies', 12, 200, undefined, { requestId: 'abc' });
+
+      expect(JSON.parse(lines()[0])).toEqual(expect.objectContaining({
+        level: 'INFO',
+        message: 'GET /companies completed in 12ms',
+        context: { requestId: 'abc', toolName: 'companiesGET', duration: 12, statusCode: 200 },
+      }));
+    });
+
+    it('should always log failed requests', () => {
+      const logger = createLogger({ CENTERPOINT_ENABLE_REQUEST_LOGGING: 'false', CENTERPOINT_LOG_LEVEL: 'warn' });
+
+      logger.logRequest('companiesGET', 'GET', '/companies', 12, 500, new Error('Server Error'));
+
+      expect(lines()).toEqual([expect.stringContaining('[ERROR] GET /companies failed after 12ms')]);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { ToolMetrics } from '../src/metrics';
+
+describe('ToolMetrics', () => {
+  let metrics: ToolMetrics;
+
+  beforeEach(() => {
+    metrics = new ToolMetrics();
+  });
+
+  function line(output: string, prefix: string): string | undefined {
+    return output.split('\n').find(l => l.startsWith(prefix));
+  }
+
+  it('should count requests by tool, method and status', () => {
+    metrics.recordRequest('companiesGET', 'GET', 200, 10);
+    metrics.recordRequest('companiesGET', 'GET', 200, 20);
+    metrics.recordRequest('companiesGET', 'GET', 404, 5);
+    metrics.recordRequest('companiesPOST', 'POST', undefined, 5);
+
+    const output = metrics.render();
+
+    expect(output).toContain('centerpoint_tool_requests_total{tool="companiesGET",method="GET",status="200"} 2');
+    expect(output).toContain('centerpoint_tool_requests_total{tool="companiesGET",method="GET",status="404"} 1');
+    expect(output).toContain('centerpoint_tool_requests_total{tool="companiesPOST",method="POST",status="error"} 1');
+  });
+
+  it('should render cumulative latency histogram buckets', () => {
+    metrics.recordRequest('companiesGET', 'GET', 200, 80);
+    metrics.recordRequest('companiesGET', 'GET', 200, 700);
+    metrics.recordRequest('companiesGET', 'GET', 200, 45000);
+
+    const output = metrics.render();
+    const bucket = (le: string) => line(output, `centerpoint_tool_request_duration_seconds_bucket{tool="companiesGET",method="GET",le="${le}"}`);
+
+    expect(bucket('0.05')).toMatch(/ 0$/);
+    expect(bucket('0.1')).toMatch(/ 1$/);
+    expect(bucket('1')).toMatch(/ 2$/);
+    expect(bucket('30')).toMatch(/ 2$/);
+    expect(bucket('+Inf')).toMatch(/ 3$/);
+    expect(output).toContain('centerpoint_tool_request_duration_seconds_count{tool="companiesGET",method="GET"} 3');
+    expect(output).toContain('# TYPE centerpoint_tool_request_duration_seconds histogram');
+  });
+
+  it('should report p50, p95 and p99 latency', () => {
+    for (let ms = 1; ms <= 100; ms++) {
+      metrics.recordRequest('companiesGET', 'GET', 200, ms * 10);
+    }
+
+    const output = metrics.render();
+
+    expect(output).toContain('centerpoint_tool_request_latency_seconds{tool="companiesGET",method="GET",quantile="0.5"} 0.5');
+    expect(output).toContain('centerpoint_tool_request_latency_seconds{tool="companiesGET",method="GET",quantile="0.95"} 0.95');
+    expect(output).toContain('centerpoint_tool_request_latency_seconds{tool="companiesGET",method="GET",quantile="0.99"} 0.99');
+  });
+
+  it('should count cache lookups, retries and upstream 429s', () => {
+    metrics.recordCacheLookup('companiesGET', 'GET', true);
+    metrics.recordCacheLookup('companiesGET', 'GET', true);
+    metrics.recordCacheLookup('companiesGET', 'GET', false);
+    metrics.recordRetry('companiesGET', 'GET', 429);
+    metrics.recordRetry('companiesGET', 'GET', 503);
+    metrics.recordRequest('companiesGET', 'GET', 429, 10);
+
+    const output = metrics.render();
+
+    expect(output).toContain('centerpoint_cache_hits_total{tool="companiesGET",method="GET"} 2');
+    expect(output).toContain('centerpoint_cache_misses_total{tool="companiesGET",method="GET"} 1');
+    expect(output).toContain('centerpoint_retries_total{tool="companiesGET",method="GET"} 2');
+    expect(output).toContain('centerpoint_upstream_rate_limited_total{tool="companiesGET",method="GET"} 2');
+  });
+
+  it('should escape label values', () => {
+    metrics.recordRequest('odd"name\\', 'GET', 200, 1);
+
+    expect(metrics.render()).toContain('tool="odd\\"name\\\\"');
+  });
+
+  it('should include process metrics and clear tool series on reset', () => {
+    metrics.recordRequest('companiesGET', 'GET', 200, 1);
+    metrics.reset();
+
+    const output = metrics.render();
+
+    expect(output).not.toContain('companiesGET');
+    expect(line(output, 'process_resident_memory_bytes ')).toBeDefined();
+    expect(line(output, 'process_cpu_seconds_total ')).toBeDefined();
+  });
+});
@@ -0,0 +1,215 @@
+import axios from 'axios';
+import { config } from '../src/config';
+import { executeTool } from '../src/executor';
+import { operations } from '../src/operations';
+import { responseCache } from '../src/performance';
+import { toolsList } from '../src/tools';
+import { MockCenterPointApi, MOCK_FIXTURES } from '../src/mockserver';
+
+const api = new MockCenterPointApi({ pageSize: 2 });
+let baseUrl: string;
+
+const client = () => axios.create({ baseURL: baseUrl, headers: { Authorization: 'Bearer mock_token' }, validateStatus: () => true });
+
+beforeAll(async () => {
+  baseUrl = await api.listen();
+});
+
+afterAll(async () => {
+  await api.close();
+});
+
+beforeEach(() => {
+  api.reset();
+});
+
+describe('MockCenterPointApi', () => {
+  describe('reads', () => {
+    it('should page through a collection with links', async () => {
+      const first = await client().get('/companies');
+
+      expect(first.status).toBe(200);
+      expect(first.data.data.map((record: any) => record.id)).toEqual(['1', '2']);
+      expect(first.data.meta.page).toEqual({ number: 1, size: 2, total: 3, totalPages: 2 });
+      expect(first.data.links.prev).toBeNull();
+
+      const second = await client().get(first.data.links.next);
+
+      expect(second.data.data.map((record: any) => record.id)).toEqual(['3']);
+      expect(second.data.links.next).toBeNull();
+    });
+
+    it('should filter by search text, date range and attribute', async () => {
+      const ids = async (params: Record<string, string>) =>
+        (await client().get('/companies', { params })).data.data.map((record: any) => record.id);
+
+      expect(await ids({ 'filter[search]': 'BIRCH' })).toEqual(['2']);
+      expect(await ids({ 'filter[updated_at][gt]': '2025-02-05' })).toEqual(['1', '2']);
+      expect(await ids({ 'filter[updated_at][gt]': '2025-02-05', 'filter[updated_at][lt]': '2025-03-01' })).toEqual(['2']);
+      expect(await ids({ 'filter[type]': 'Vendor,Admin' })).toEqual(['3']);
+      // Fields the records do not have are ignored rather than matching nothing
+      expect(await ids({ 'filter[location]': 'Denver', 'page[size]': '10' })).toEqual(['1', '2', '3']);
+    });
+
+    it('should filter on relationships and sort', async () => {
+      const response = await client().get('/properties', { params: { 'filter[companyId]': '2', sort: '-name' } });
+
+      expect(response.data.data.map((record: any) => record.attributes.name)).toEqual(['Birch Plaza', 'Birch Lofts']);
+    });
+
+    it('should include related resources, following dotted paths', async () => {
+      const response = await client().get('/productions/1', { params: { include: 'property.company' } });
+
+      expect(response.data.data.id).toBe('1');
+      expect(response.data.included.map((record: any) => `${record.type}:${record.id}`)).toEqual(['properties:1', 'companies:1']);
+    });
+
+    it('should list nested collections by their parent', async () => {
+      await client().post('/production_materials', {
+        data: { type: 'productionMaterials', attributes: { name: 'Shingles' }, relationships: { production: { data: { type: 'productions', id: '1' } } } },
+      });
+
+      const response = await client().get('/productions/1/production_materials');
+      const other = await client().get('/productions/2/production_materials');
+
+      expect(response.data.data.map((record: any) => record.attributes.name)).toEqual(['Shingles']);
+      expect(other.data.data).toEqual([]);
+    });
+  });
+
+  describe('writes', () => {
+    it('should create, update and delete records', async () => {
+      const created = await client().post('/companies', { data: { type: 'companies', attributes: { name: 'Dune Builders' } } });
+
+      expect(created.status).toBe(201);
+      expect(created.data.data).toEqual(expect.objectContaining({ type: 'companies', id: '4' }));
+
+      const updated = await client().patch('/companies/4', { data: { type: 'companies', id: '4', attributes: { email: 'dune@example.com' } } });
+
+      expect(updated.data.data.attributes).toEqual(expect.objectContaining({ name: 'Dune Builders', email: 'dune@example.com' }));
+
+      expect((await client().delete('/companies/4')).status).toBe(204);
+      expect((await client().get('/companies/4')).status).toBe(404);
+      expect(api.records('companies')).toHaveLength(3);
+    });
+
+    it('should reject bodies that are not a resource of the right type with 422', async () => {
+      const wrongType = await client().post('/companies', { data: { type: 'properties', attributes: {} } });
+      const noData = await client().patch('/companies/1', { name: 'Acme' });
+
+      expect(wrongType.status).toBe(422);
+      expect(wrongType.data.errors[0]).toEqual({ status: '422', title: 'Unprocessable Entity', detail: "Expected data.type 'companies' but got \"properties\"" });
+      expect(noData.status).toBe(422);
+    });
+
+    it('should restore the fixtures on reset', async () => {
+      await client().delete('/companies/1');
+      api.reset();
+
+      expect(api.records('companies')).toEqual(MOCK_FIXTURES.companies);
+      expect(api.requests).toEqual([]);
+    });
+  });
+
+  describe('errors', () => {
+    it('should require a bearer token', async () => {
+      const response = await axios.get(`${baseUrl}/companies`, { validateStatus: () => true });
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should only accept the configured token', async () => {
+      const strict = new MockCenterPointApi({ token: 'right' });
+      const url = await strict.listen();
+      try {
+        const get = (token: string) => axios.get(`${url}/companies`, { headers: { Authorization: `Bearer ${token}` }, validateStatus: () => true });
+
+        expect((await get('wrong')).status).toBe(401);
+        expect((await get('right')).status).toBe(200);
+      } finally {
+        await strict.close();
+      }
+    });
+
+    it('should answer 404 for unknown paths and 405 for unsupported methods', async () => {
+      expect((await client().get('/nothing')).status).toBe(404);
+      expect((await client().put('/companies', {})).status).toBe(405);
+    });
+
+    it('should serve injected failures for the matching tool', async () => {
+      api.injectFailure({ status: 429, tool: 'companiesGET', retryAfter: 3, times: 2 });
+
+      const first = await client().get('/companies');
+      const other = await client().get('/properties');
+      const second = await client().get('/companies');
+      const third = await client().get('/companies');
+
+      expect(first.status).toBe(429);
+      expect(first.headers['retry-after']).toBe('3');
+      expect(other.status).toBe(200);
+      expect(second.status).toBe(429);
+      expect(third.status).toBe(200);
+    });
+
+    it('should accept failures over HTTP', async () => {
+      await axios.post(`${baseUrl}/__mock/failures`, { status: 500, path: '/companies/2' });
+
+      expect((await client().get('/companies/2')).status).toBe(500);
+      expect((await client().get('/companies/2')).status).toBe(200);
+      expect(api.requests.map(request => request.tool)).toEqual(['companies/{COMPANY_ID}GET', 'companies/{COMPANY_ID}GET']);
+    });
+  });
+
+  describe('behind the executor', () => {
+    const run = (name: string, args: Record<string, unknown> = {}) =>
+      executeTool(toolsList.find(tool => tool.name === name)!, operations[name], { Authorization: 'mock_token', ...args });
+
+    beforeEach(() => {
+      process.env.CENTERPOINT_BASE_URL = baseUrl;
+      process.env.CENTERPOINT_RETRY_DELAY_MS = '100';
+      config.reload();
+      responseCache.clear();
+    });
+
+    afterEach(() => {
+      delete process.env.CENTERPOINT_BASE_URL;
+      delete process.env.CENTERPOINT_RETRY_DELAY_MS;
+      config.reload();
+    });
+
+    it('should send tool calls to CENTERPOINT_BASE_URL', async () => {
+      const result = await run('companies/{COMPANY_ID}GET', { COMPANY_ID: '1' });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.content[0].text).toContain('Acme Roofing');
+      expect(api.requests).toEqual([expect.objectContaining({ method: 'GET', path: '/companies/1' })]);
+    });
+
+    it('should match filters that pass schema validation', async () => {
+      const ids = (result: Awaited<ReturnType<typeof run>>) =>
+        JSON.parse(String(result.content[0].text).replace(/^.*\n/, '')).data.map((record: any) => record.id);
+
+      expect(ids(await run('companiesGET', { 'filter[salesStatus]': 'Lead' }))).toEqual(['2']);
+      expect(ids(await run('productionsGET', { 'filter[status]': 'started' }))).toEqual(['1']);
+    });
+
+    it('should fetch every page by following the mock links', async () => {
+      const result = await run('companiesGET', { fetchAll: true });
+
+      expect(result.content[0].text).toContain('"recordsFetched": 3');
+      expect(api.requests).toHaveLength(2);
+    });
+
+    it('should retry an injected 429 and surface a 404', async () => {
+      api.injectFailure({ status: 429, tool: 'propertiesGET', retryAfter: 0 });
+
+      const retried = await run('propertiesGET');
+      const missing = await run('properties/{PROPERTY_ID}GET', { PROPERTY_ID: '99' });
+
+      expect(retried.isError).toBeFalsy();
+      expect(api.requests.filter(request => request.tool === 'propertiesGET')).toHaveLength(2);
+      expect(missing.content[0].text).toMatch(/Status 404/);
+      expect(missing.content[0].text).toContain('properties 99 not found');
+    });
+  });
+});
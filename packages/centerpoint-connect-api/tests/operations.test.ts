@@ -0,0 +1,96 @@
+import { toolsList } from '../src/tools';
+import { operations, getOperation } from '../src/operations';
+import { resolvePath, buildQueryParams, buildRequestConfig } from '../src/executor';
+
+describe('Operation Table', () => {
+
+  describe('consistency with toolsList', () => {
+    it('should define exactly one operation per tool', () => {
+      const toolNames = toolsList.map(tool => tool.name).sort();
+      expect(Object.keys(operations).sort()).toEqual(toolNames);
+    });
+
+    it.each(toolsList.map(tool => [tool.name, tool] as const))('%s should only reference schema properties', (name, tool) => {
+      const operation = operations[name];
+      const properties = Object.keys(tool.inputSchema.properties ?? {});
+
+      for (const param of [...operation.pathParams, ...operation.queryParams]) {
+        expect(properties).toContain(param);
+      }
+      for (const param of operation.pathParams) {
+        expect(operation.pathTemplate).toContain(`{${param}}`);
+      }
+      expect(properties.includes('requestBody')).toBe(operation.bodyContentType !== undefined);
+    });
+  });
+
+  describe('getOperation()', () => {
+    it('should return the operation for a known tool', () => {
+      expect(getOperation('companies/{COMPANY_ID}PATCH')).toEqual(expect.objectContaining({
+        method: 'PATCH',
+        pathTemplate: '/companies/{COMPANY_ID}',
+        pathParams: ['COMPANY_ID'],
+      }));
+    });
+
+    it('should return undefined for unknown tools', () => {
+      expect(getOperation('unknownGET')).toBeUndefined();
+      expect(getOperation('toString')).toBeUndefined();
+    });
+  });
+});
+
+describe('Request Building', () => {
+
+  describe('resolvePath()', () => {
+    it('should substitute and encode path parameters', () => {
+      const operation = operations['companies/{COMPANY_ID}GET'];
+      expect(resolvePath(operation, { COMPANY_ID: 'a/b c' })).toBe('/companies/a%2Fb%20c');
+    });
+
+    it('should throw when a path parameter is missing', () => {
+      const operation = operations['companies/{COMPANY_ID}GET'];
+      expect(() => resolvePath(operation, {})).toThrow(/failed to resolve path parameters/);
+    });
+  });
+
+  describe('buildQueryParams()', () => {
+    it('should copy only provided query parameters', () => {
+      const operation = operations['companiesGET'];
+      const params = buildQueryParams(operation, {
+        'filter[salesStatus]': 'Lead',
+        'page[size]': 10,
+        'sort': null,
+        'Authorization': 'token',
+      });
+      expect(params).toEqual({ 'filter[salesStatus]': 'Lead', 'page[size]': 10 });
+    });
+  });
+
+  describe('buildRequestConfig()', () => {
+    it('should attach the request body with its content type', () => {
+      const operation = operations['companiesPOST'];
+      const body = { data: { type: 'companies', attributes: { name: 'Acme' } } };
+      const config = buildRequestConfig(operation, { requestBody: body, include: 'manager' }, { Authorization: 'Bearer t' });
+
+      expect(config.method).toBe('POST');
+      expect(config.url).toMatch(/\/companies$/);
+      expect(config.params).toEqual({ include: 'manager' });
+      expect(config.data).toBe(body);
+      expect(config.headers).toEqual({
+        'Accept': 'application/json',
+        'content-type': 'application/json',
+        'Authorization': 'Bearer t',
+      });
+    });
+
+    it('should not send a body for operations without one', () => {
+      const operation = operations['companies/{COMPANY_ID}DELETE'];
+      const config = buildRequestConfig(operation, { COMPANY_ID: 7 }, { Authorization: 'Bearer t' });
+
+      expect(config.method).toBe('DELETE');
+      expect(config.url).toMatch(/\/companies\/7$/);
+      expect(config.data).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  DEFAULT_MAX_PAGES,
+  PageAccumulator,
+  addPaginationArguments,
+  findNextPage,
+  getPaginationOptions,
+} from '../src/pagination';
+import { operations, isListOperation } from '../src/operations';
+import { toolsList } from '../src/tools';
+
+describe('isListOperation()', () => {
+  it('should match GET operations that accept page[number]', () => {
+    expect(isListOperation(operations['companiesGET'])).toBe(true);
+    expect(isListOperation(operations['productions/{PRODUCTION_ID}/production_materialsGET'])).toBe(true);
+    expect(isListOperation(operations['companies/{COMPANY_ID}GET'])).toBe(false);
+    expect(isListOperation(operations['companiesPOST'])).toBe(false);
+  });
+});
+
+describe('addPaginationArguments()', () => {
+  it('should add the fetch-all arguments without touching the original tool', () => {
+    const original = toolsList.find(tool => tool.name === 'companiesGET')!;
+
+    const extended = addPaginationArguments(original);
+
+    expect(Object.keys(extended.inputSchema.properties!)).toEqual(
+      expect.arrayContaining(['page[size]', 'fetchAll', 'maxPages', 'maxRecords'])
+    );
+    expect(original.inputSchema.properties).not.toHaveProperty('fetchAll');
+  });
+});
+
+describe('getPaginationOptions()', () => {
+  it('should return undefined when no fetch-all argument is given', () => {
+    expect(getPaginationOptions({ 'page[size]': 10 })).toBeUndefined();
+    expect(getPaginationOptions({ fetchAll: false })).toBeUndefined();
+  });
+
+  it('should default maxPages', () => {
+    expect(getPaginationOptions({ fetchAll: true })).toEqual({ maxPages: DEFAULT_MAX_PAGES, maxRecords: undefined });
+  });
+
+  it('should treat maxPages and maxRecords as fetchAll', () => {
+    expect(getPaginationOptions({ maxPages: 3 })).toEqual({ maxPages: 3, maxRecords: undefined });
+    expect(getPaginationOptions({ maxRecords: 50 })).toEqual({ maxPages: DEFAULT_MAX_PAGES, maxRecords: 50 });
+  });
+
+  it('should reject invalid limits', () => {
+    expect(() => getPaginationOptions({ maxPages: 0 })).toThrow('maxPages must be a positive integer');
+    expect(() => getPaginationOptions({ maxRecords: 2.5 })).toThrow('maxRecords must be a positive integer');
+  });
+});
+
+describe('findNextPage()', () => {
+  it('should follow links.next', () => {
+    expect(findNextPage({ data: [{}], links: { next: 'https://api.example.com/companies?page[number]=2' } }, 1))
+      .toEqual({ url: 'https://api.example.com/companies?page[number]=2' });
+    expect(findNextPage({ data: [{}], links: { next: { href: '/companies?page[number]=2' } } }, 1))
+      .toEqual({ url: '/companies?page[number]=2' });
+  });
+
+  it('should stop when links has no next', () => {
+    expect(findNextPage({ data: [{}], links: { self: '/companies', next: null } }, 1, 1)).toBeUndefined();
+  });
+
+  it('should fall back to page numbers without links', () => {
+    expect(findNextPage({ data: [{}, {}] }, 1, 2)).toEqual({ pageNumber: 2 });
+    expect(findNextPage({ data: [{}] }, 2, 2)).toBeUndefined();
+    expect(findNextPage({ data: [] }, 3)).toBeUndefined();
+  });
+});
+
+describe('PageAccumulator', () => {
+  it('should merge data and dedupe included by type and id', () => {
+    const pages = new PageAccumulator({ maxPages: 5 });
+
+    pages.add({ data: [{ id: '1' }], included: [{ type: 'profiles', id: 'a' }, { type: 'employees', id: 'a' }] });
+    pages.add({ data: [{ id: '2' }], included: [{ type: 'profiles', id: 'a' }, { type: 'profiles', id: 'b' }] });
+
+    expect(pages.toDocument()).toEqual({
+      data: [{ id: '1' }, { id: '2' }],
+      included: [{ type: 'profiles', id: 'a' }, { type: 'employees', id: 'a' }, { type: 'profiles', id: 'b' }],
+      meta: { pagesFetched: 2, recordsFetched: 2, truncated: false },
+    });
+  });
+
+  it('should trim records beyond maxRecords and report truncation', () => {
+    const pages = new PageAccumulator({ maxPages: 5, maxRecords: 3 });
+
+    pages.add({ data: [{ id: '1' }, { id: '2' }] });
+    expect(pages.isFull()).toBe(false);
+    pages.add({ data: [{ id: '3' }, { id: '4' }] });
+
+    expect(pages.isFull()).toBe(true);
+    expect(pages.report()).toEqual({ pagesFetched: 2, recordsFetched: 3, truncated: true });
+  });
+
+  it('should be full after maxPages pages', () => {
+    const pages = new PageAccumulator({ maxPages: 1 });
+
+    pages.add({ data: [{ id: '1' }] });
+
+    expect(pages.isFull()).toBe(true);
+    expect(pages.report().truncated).toBe(false);
+  });
+});
@@ -0,0 +1,250 @@
+import { AxiosError, AxiosHeaders, type AxiosResponse } from 'axios';
+import { config as appConfig } from '../src/config';
+import { ResponseCache, RetryPolicy, responseCache } from '../src/performance';
+
+function response(data: unknown, headers: Record<string, string> = {}): AxiosResponse {
+  return { data, status: 200, statusText: 'OK', headers, config: {} as any };
+}
+
+describe('ResponseCache', () => {
+  const url = 'https://api.example.test/companies';
+
+  it('should return cached entries for the same request', () => {
+    const cache = new ResponseCache();
+    const config = { method: 'GET', url, params: { 'page[size]': 10 }, headers: { Authorization: 'Bearer a' } };
+    cache.set(config, response({ data: [] }, { 'content-type': 'application/json' }));
+
+    const entry = cache.get({ ...config });
+    expect(entry?.data).toEqual({ data: [] });
+    expect(entry?.status).toBe(200);
+    expect(entry?.contentType).toBe('application/json');
+  });
+
+  it('should key entries by token identity', () => {
+    const cache = new ResponseCache();
+    cache.set({ method: 'GET', url, headers: { Authorization: 'Bearer a' } }, response('a'));
+
+    expect(cache.get({ method: 'GET', url, headers: { Authorization: 'Bearer b' } })).toBeNull();
+    expect(cache.get({ method: 'GET', url })).toBeNull();
+    expect(cache.get({ method: 'GET', url, headers: { Authorization: 'Bearer a' } })?.data).toBe('a');
+  });
+
+  it('should ignore query parameter order', () => {
+    const cache = new ResponseCache();
+    cache.set({ method: 'GET', url, params: { sort: 'name', include: 'manager' } }, response('x'));
+
+    expect(cache.get({ method: 'GET', url, params: { include: 'manager', sort: 'name' } })?.data).toBe('x');
+    expect(cache.get({ method: 'GET', url, params: { include: 'manager' } })).toBeNull();
+  });
+
+  it('should expire entries after their TTL', () => {
+    jest.useFakeTimers();
+    try {
+      const cache = new ResponseCache(1000);
+      cache.set({ method: 'GET', url }, response('x'));
+      cache.set({ method: 'GET', url: `${url}/1` }, response('y'), 5000);
+
+      jest.advanceTimersByTime(2000);
+      expect(cache.get({ method: 'GET', url })).toBeNull();
+      expect(cache.get({ method: 'GET', url: `${url}/1` })?.data).toBe('y');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should pick up cache settings after a configuration reload', () => {
+    try {
+      process.env.CENTERPOINT_CACHE_MAX_SIZE = '1';
+      appConfig.reload();
+      responseCache.clear();
+      responseCache.set({ method: 'GET', url }, response('x'));
+      responseCache.set({ method: 'GET', url: `${url}/1` }, response('y'));
+
+      expect(responseCache.get({ method: 'GET', url })).toBeNull();
+      expect(responseCache.get({ method: 'GET', url: `${url}/1` })?.data).toBe('y');
+    } finally {
+      delete process.env.CENTERPOINT_CACHE_MAX_SIZE;
+      appConfig.reload();
+      responseCache.clear();
+    }
+  });
+
+  it('should invalidate entries by resource type tag', () => {
+    const cache = new ResponseCache();
+    cache.set({ method: 'GET', url }, response('companies'), undefined, ['companies']);
+    cache.set({ method: 'GET', url: `${url}/1` }, response('company'), undefined, ['companies']);
+    cache.set({ method: 'GET', url: 'https://api.example.test/productions/1/production_materials' }, response('materials'), undefined, ['productions', 'production_materials']);
+
+    expect(cache.invalidateTags(['companies'])).toBe(2);
+    expect(cache.size()).toBe(1);
+    expect(cache.invalidateTags(['production_materials'])).toBe(1);
+    expect(cache.size()).toBe(0);
+  });
+
+  describe('conditional revalidation', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it('should keep expired entries with validators for revalidation', () => {
+      const cache = new ResponseCache(1000);
+      const config = { method: 'GET', url };
+      cache.set(config, response('x', { etag: '"v1"' }));
+
+      jest.advanceTimersByTime(2000);
+      expect(cache.get(config)).toBeNull();
+      expect(cache.shouldRefresh(config)).toBe(true);
+      expect(cache.peek(config)?.data).toBe('x');
+    });
+
+    it('should drop expired entries without validators', () => {
+      const cache = new ResponseCache(1000);
+      const config = { method: 'GET', url };
+      cache.set(config, response('x'));
+
+      jest.advanceTimersByTime(2000);
+      expect(cache.get(config)).toBeNull();
+      expect(cache.shouldRefresh(config)).toBe(false);
+      expect(cache.size()).toBe(0);
+    });
+
+    it('should not revalidate fresh entries', () => {
+      const cache = new ResponseCache(1000);
+      const config = { method: 'GET', url };
+      cache.set(config, response('x', { etag: '"v1"' }));
+
+      expect(cache.shouldRefresh(config)).toBe(false);
+    });
+
+    it('should add conditional headers from the stale entry', () => {
+      const cache = new ResponseCache(1000);
+      cache.set({ method: 'GET', url }, response('x', { 'etag': '"v1"', 'last-modified': 'Mon, 01 Sep 2025 00:00:00 GMT' }));
+      jest.advanceTimersByTime(2000);
+
+      const config: any = { method: 'GET', url, headers: {} };
+      cache.addConditionalHeaders(config);
+      expect(config.headers).toEqual({
+        'If-None-Match': '"v1"',
+        'If-Modified-Since': 'Mon, 01 Sep 2025 00:00:00 GMT',
+      });
+    });
+
+    it('should refresh the timestamp and validators on revalidate', () => {
+      const cache = new ResponseCache(1000);
+      const config = { method: 'GET', url };
+      cache.set(config, response('x', { etag: '"v1"' }));
+      jest.advanceTimersByTime(2000);
+
+      const entry = cache.revalidate(config, { ...response(''), status: 304, headers: { etag: '"v2"' } });
+      expect(entry?.data).toBe('x');
+      expect(cache.get(config)?.etag).toBe('"v2"');
+    });
+  });
+});
+
+function httpError(status: number, headers: Record<string, string> = {}): AxiosError {
+  const config = { headers: new AxiosHeaders() };
+  return new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', config, {}, {
+    status, statusText: '', headers, config, data: {},
+  });
+}
+
+function networkError(code = 'ECONNRESET'): AxiosError {
+  return new AxiosError('socket hang up', code, { headers: new AxiosHeaders() }, {});
+}
+
+describe('RetryPolicy', () => {
+  describe('isRetryableError()', () => {
+    const policy = new RetryPolicy();
+
+    it.each([429, 502, 503, 504])('should retry status %i', (status) => {
+      expect(policy.isRetryableError(httpError(status))).toBe(true);
+    });
+
+    it.each([400, 401, 404, 422, 500])('should not retry status %i', (status) => {
+      expect(policy.isRetryableError(httpError(status))).toBe(false);
+    });
+
+    it('should retry network errors but not cancellations', () => {
+      expect(policy.isRetryableError(networkError())).toBe(true);
+      expect(policy.isRetryableError(networkError('ERR_CANCELED'))).toBe(false);
+      expect(policy.isRetryableError(new Error('not an axios error'))).toBe(false);
+    });
+  });
+
+  describe('getDelayMs()', () => {
+    it('should back off exponentially with jitter', () => {
+      const policy = new RetryPolicy(5, 100, 10000);
+      for (let retry = 1; retry <= 4; retry++) {
+        const exponential = 100 * 2 ** (retry - 1);
+        const delay = policy.getDelayMs(retry, networkError());
+        expect(delay).toBeGreaterThanOrEqual(exponential / 2);
+        expect(delay).toBeLessThanOrEqual(exponential);
+      }
+    });
+
+    it('should cap the backoff at the maximum delay', () => {
+      const policy = new RetryPolicy(10, 1000, 3000);
+      expect(policy.getDelayMs(8, networkError())).toBeLessThanOrEqual(3000);
+    });
+
+    it('should honour Retry-After in seconds and as an HTTP date', () => {
+      const policy = new RetryPolicy(3, 100, 60000);
+      expect(policy.getDelayMs(1, httpError(429, { 'retry-after': '7' }))).toBe(7000);
+
+      const date = new Date(Date.now() + 20000).toUTCString();
+      const delay = policy.getDelayMs(1, httpError(503, { 'retry-after': date }));
+      expect(delay).toBeGreaterThan(18000);
+      expect(delay).toBeLessThanOrEqual(20000);
+    });
+  });
+
+  describe('execute()', () => {
+    it('should retry until the operation succeeds', async () => {
+      const policy = new RetryPolicy(3, 1, 10);
+      const operation = jest.fn()
+        .mockRejectedValueOnce(httpError(503))
+        .mockRejectedValueOnce(networkError())
+        .mockResolvedValue('ok');
+      const onRetry = jest.fn();
+
+      await expect(policy.execute(operation, onRetry)).resolves.toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(3);
+      expect(onRetry.mock.calls.map(call => call[0])).toEqual([1, 2]);
+    });
+
+    it('should give up after the configured number of retries', async () => {
+      const policy = new RetryPolicy(2, 1, 10);
+      const operation = jest.fn().mockRejectedValue(httpError(502));
+
+      await expect(policy.execute(operation)).rejects.toThrow('502');
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry non-retryable errors', async () => {
+      const policy = new RetryPolicy(3, 1, 10);
+      const operation = jest.fn().mockRejectedValue(httpError(422));
+
+      await expect(policy.execute(operation)).rejects.toThrow('422');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up when Retry-After exceeds the maximum delay', async () => {
+      const policy = new RetryPolicy(3, 1, 1000);
+      const operation = jest.fn().mockRejectedValue(httpError(429, { 'retry-after': '120' }));
+
+      await expect(policy.execute(operation)).rejects.toThrow('429');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop waiting when aborted', async () => {
+      const policy = new RetryPolicy(3, 10000, 10000);
+      const controller = new AbortController();
+      const operation = jest.fn().mockRejectedValue(httpError(503));
+
+      const pending = policy.execute(operation, () => controller.abort(new Error('cancelled')), controller.signal);
+
+      await expect(pending).rejects.toThrow('cancelled');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { globToRegExp, isToolAllowed, type ToolPolicy } from '../src/policy';
+import { operations } from '../src/operations';
+import { config } from '../src/config';
+
+const open: ToolPolicy = { readOnly: false, allow: [], deny: [] };
+
+function allowed(toolName: string, policy: Partial<ToolPolicy>): boolean {
+  return isToolAllowed(toolName, operations[toolName]?.method, { ...open, ...policy });
+}
+
+describe('globToRegExp()', () => {
+  it('should match * and ? wildcards', () => {
+    expect(globToRegExp('companies*').test('companies/{COMPANY_ID}DELETE')).toBe(true);
+    expect(globToRegExp('*GET').test('invoicesGET')).toBe(true);
+    expect(globToRegExp('tax_code?GET').test('tax_codesGET')).toBe(true);
+    expect(globToRegExp('*GET').test('invoicesPOST')).toBe(false);
+  });
+
+  it('should match tool name punctuation literally', () => {
+    const pattern = globToRegExp('companies/{COMPANY_ID}DELETE');
+
+    expect(pattern.test('companies/{COMPANY_ID}DELETE')).toBe(true);
+    expect(pattern.test('companies/{COMPANY_ID}DELETEX')).toBe(false);
+    expect(globToRegExp('a.b').test('axb')).toBe(false);
+  });
+});
+
+describe('isToolAllowed()', () => {
+  it('should allow everything by default', () => {
+    Object.keys(operations).forEach(name => expect(allowed(name, {})).toBe(true));
+  });
+
+  it('should only allow GET tools in read-only mode', () => {
+    const visible = Object.keys(operations).filter(name => allowed(name, { readOnly: true }));
+
+    expect(visible).toHaveLength(53);
+    visible.forEach(name => expect(operations[name].method).toBe('GET'));
+    expect(allowed('companies/{COMPANY_ID}DELETE', { readOnly: true })).toBe(false);
+  });
+
+  it('should keep built-in tools in read-only mode', () => {
+    expect(isToolAllowed('server_health', undefined, { ...open, readOnly: true })).toBe(true);
+  });
+
+  it('should restrict tools to the allow list', () => {
+    const policy = { allow: ['invoices*', 'server_health'] };
+
+    expect(allowed('invoicesGET', policy)).toBe(true);
+    expect(allowed('invoices/{INVOICE_ID}PATCH', policy)).toBe(true);
+    expect(allowed('companiesGET', policy)).toBe(false);
+    expect(isToolAllowed('server_health', undefined, { ...open, ...policy })).toBe(true);
+  });
+
+  it('should let the deny list override the allow list', () => {
+    const policy = { allow: ['invoices*'], deny: ['*DELETE'] };
+
+    expect(allowed('invoicesGET', policy)).toBe(true);
+    expect(allowed('invoices/{INVOICE_ID}DELETE', policy)).toBe(false);
+  });
+
+  it('should combine read-only mode with the lists', () => {
+    expect(allowed('invoices/{INVOICE_ID}PATCH', { readOnly: true, allow: ['invoices*'] })).toBe(false);
+  });
+});
+
+describe('tool policy configuration', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    config.reload();
+  });
+
+  it('should default to exposing every tool', () => {
+    expect(config.getTools()).toEqual({ readOnly: false, allow: [], deny: [], confirm: 'auto' });
+  });
+
+  it('should read the policy from the environment', () => {
+    process.env.CENTERPOINT_READ_ONLY = 'true';
+    process.env.CENTERPOINT_TOOLS_ALLOW = 'invoices*, companies*';
+    process.env.CENTERPOINT_TOOLS_DENY = '*DELETE,';
+    config.reload();
+
+    expect(config.getTools()).toEqual({ readOnly: true, allow: ['invoices*', 'companies*'], deny: ['*DELETE'], confirm: 'auto' });
+  });
+
+  it('should read the confirmation mode from the environment', () => {
+    process.env.CENTERPOINT_CONFIRM = 'mutations';
+    config.reload();
+
+    expect(config.getTools().confirm).toBe('mutations');
+  });
+});
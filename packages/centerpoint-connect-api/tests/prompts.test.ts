@@ -0,0 +1,99 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { toolsList } from '../src/tools';
+import { operations } from '../src/operations';
+import { PAGINATION_PROPERTIES } from '../src/pagination';
+import { RESPONSE_FORMAT_PROPERTY } from '../src/jsonapi';
+import { DRY_RUN_PROPERTY } from '../src/dryrun';
+import { getPrompt, getPromptTemplate, promptTemplates } from '../src/prompts';
+import { compileSchema } from '../src/validation';
+
+const sampleArgs: Record<string, string> = {
+  companyId: '42',
+  productionId: '7',
+  profileId: '9',
+  employeeId: '3',
+  start: '2026-10-12',
+  summary: 'Replaced two flashing boots; roof is watertight.',
+};
+
+function render(name: string): string {
+  const args = Object.fromEntries((promptTemplates[name].definition.arguments ?? []).map(argument => [argument.name, sampleArgs[argument.name]]));
+  return String(getPrompt(name, args).messages[0].content.text);
+}
+
+/** Pulls the embedded tool calls back out of rendered instructions */
+function embeddedCalls(text: string): Array<{ toolName: string; args: Record<string, unknown> }> {
+  return [...text.matchAll(/`([^`]+)` using:\n```json\n([\s\S]*?)\n```/g)].map(match => ({ toolName: match[1], args: JSON.parse(match[2]) }));
+}
+
+describe('promptTemplates', () => {
+  it.each(Object.keys(promptTemplates))('%s should only call existing tools with their arguments', name => {
+    const template = promptTemplates[name];
+    const calls = embeddedCalls(render(name));
+
+    expect(template.definition.name).toBe(name);
+    expect(calls.length).toBeGreaterThan(0);
+    for (const { toolName, args } of calls) {
+      expect(template.tools).toContain(toolName);
+      const operation = operations[toolName];
+      const tool = toolsList.find(candidate => candidate.name === toolName)!;
+      const known = [
+        ...Object.keys(tool.inputSchema.properties ?? {}),
+        ...(operation.method === 'GET' ? Object.keys(RESPONSE_FORMAT_PROPERTY) : Object.keys(DRY_RUN_PROPERTY)),
+        ...Object.keys(PAGINATION_PROPERTIES),
+      ];
+      expect(Object.keys(args).filter(arg => !known.includes(arg))).toEqual([]);
+      expect(compileSchema(tool.inputSchema).safeParse(args).error?.errors).toBeUndefined();
+    }
+  });
+
+  it('should declare every tool it calls', () => {
+    for (const [name, template] of Object.entries(promptTemplates)) {
+      const called = new Set(embeddedCalls(render(name)).map(call => call.toolName));
+      expect([...called].sort()).toEqual([...template.tools].sort());
+    }
+  });
+});
+
+describe('getPrompt()', () => {
+  it('should fill in the arguments', () => {
+    const text = render('company_overview');
+
+    expect(text).toContain('"COMPANY_ID": "42"');
+    expect(text).toContain('"fields[companies]": "name,externalId,manager,quotedValue,openQuotedValue,soldValue"');
+  });
+
+  it('should default the end of a timesheet review to a week after the start', () => {
+    const text = String(getPrompt('weekly_timesheet_review', { start: '2026-10-12' }).messages[0].content.text);
+
+    expect(text).toContain('"filter[inAt][gt]": "2026-10-12"');
+    expect(text).toContain('"filter[inAt][lt]": "2026-10-19"');
+  });
+
+  it('should only look for tasks due before today', () => {
+    const text = render('overdue_tasks');
+
+    expect(text).toContain(`"filter[dueDate][lt]": "${new Date().toISOString().slice(0, 10)}"`);
+    expect(text).toContain('"filter[isCompleted]": false');
+    // The instructions sort and group by these, so the sparse fieldset must keep them
+    expect(text).toContain('"fields[tasks]": "event,description,dueDate,fromCompany,fromProfile,toCompany"');
+  });
+
+  it('should preview notes with a dry run', () => {
+    const [, preview] = embeddedCalls(render('service_ticket_note')).map(call => call.args);
+
+    expect(preview).toEqual(expect.objectContaining({ dryRun: true }));
+    expect(JSON.stringify(preview)).toContain('"causer":{"data":{"type":"employees","id":"3"}}');
+  });
+
+  it('should reject unknown prompts and missing or invalid arguments', () => {
+    expect(() => getPrompt('nope')).toThrow(McpError);
+    expect(() => getPrompt('company_overview', {})).toThrow(/Missing required argument .*companyId/);
+    expect(() => getPrompt('weekly_timesheet_review', { start: 'last monday' })).toThrow(/start must be a date/);
+    expect(() => getPrompt('weekly_timesheet_review', { start: '2026-10-12', end: '2026-13-01' })).toThrow(/end must be a date/);
+  });
+
+  it('should not find inherited properties', () => {
+    expect(getPromptTemplate('toString')).toBeUndefined();
+  });
+});
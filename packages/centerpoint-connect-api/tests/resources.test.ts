@@ -0,0 +1,187 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { responseCache } from '../src/performance';
+import { operations } from '../src/operations';
+
+jest.mock('axios', () => {
+  const actual = jest.requireActual('axios');
+  const request = jest.fn();
+  Object.assign(request, { isAxiosError: actual.isAxiosError });
+  return { __esModule: true, default: request, isAxiosError: actual.isAxiosError };
+});
+
+import axios from 'axios';
+import { API_BASE_URL } from '../src/config';
+import {
+  LIST_PAGE_SIZE,
+  RESOURCE_NOT_FOUND,
+  getResourceTemplates,
+  listResources,
+  parseResourceUri,
+  readResource,
+  resourceKinds,
+} from '../src/resources';
+
+const mockedAxios = axios as unknown as jest.Mock;
+
+function jsonResponse(data: unknown, status = 200) {
+  return { data, status, headers: { 'content-type': 'application/json' } };
+}
+
+function notFound() {
+  return Object.assign(new Error('Request failed with status code 404'), {
+    isAxiosError: true,
+    response: { status: 404, statusText: 'Not Found', data: { errors: [] }, headers: {} },
+  });
+}
+
+describe('resource kinds', () => {
+  it('should map to existing GET operations', () => {
+    for (const kind of resourceKinds) {
+      expect(operations[kind.listTool]).toEqual(expect.objectContaining({ method: 'GET' }));
+      expect(operations[kind.listTool].queryParams).toEqual(expect.arrayContaining(['filter[updated_at][gt]', 'page[number]']));
+      expect(operations[kind.getTool]).toEqual(expect.objectContaining({ method: 'GET', pathParams: [kind.idParam] }));
+    }
+  });
+
+  it('should describe one template per kind', () => {
+    expect(getResourceTemplates().map(template => template.uriTemplate)).toEqual([
+      'centerpoint://companies/{id}',
+      'centerpoint://productions/{id}',
+      'centerpoint://properties/{id}',
+    ]);
+  });
+});
+
+describe('parseResourceUri()', () => {
+  it('should parse supported URIs', () => {
+    expect(parseResourceUri('centerpoint://productions/17')).toEqual({ kind: resourceKinds[1], id: '17' });
+    expect(parseResourceUri('centerpoint://companies/a%2Fb')?.id).toBe('a/b');
+  });
+
+  it('should reject anything else', () => {
+    expect(parseResourceUri('centerpoint://invoices/1')).toBeUndefined();
+    expect(parseResourceUri('centerpoint://companies/')).toBeUndefined();
+    expect(parseResourceUri('centerpoint://companies/1/contacts')).toBeUndefined();
+    expect(parseResourceUri('https://companies/1')).toBeUndefined();
+    expect(parseResourceUri('centerpoint://companies/1', [resourceKinds[1]])).toBeUndefined();
+  });
+});
+
+describe('resources', () => {
+  const originalEnv = process.env.CENTERPOINT_API_TOKEN;
+
+  beforeEach(() => {
+    process.env.CENTERPOINT_API_TOKEN = 'resources_test_token';
+    mockedAxios.mockReset();
+    responseCache.clear();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    if (originalEnv !== undefined) {
+      process.env.CENTERPOINT_API_TOKEN = originalEnv;
+    } else {
+      delete process.env.CENTERPOINT_API_TOKEN;
+    }
+  });
+
+  describe('readResource()', () => {
+    it('should read the record through its GET operation', async () => {
+      const company = { data: { type: 'companies', id: '42', attributes: { name: 'Acme' } } };
+      mockedAxios.mockResolvedValue(jsonResponse(company));
+
+      const result = await readResource('centerpoint://companies/42');
+
+      expect(mockedAxios).toHaveBeenCalledWith(expect.objectContaining({ method: 'GET', url: `${API_BASE_URL}/companies/42` }));
+      expect(result.contents).toEqual([{ uri: 'centerpoint://companies/42', mimeType: 'application/json', text: JSON.stringify(company, null, 2) }]);
+    });
+
+    it('should report unknown records as not found', async () => {
+      mockedAxios.mockRejectedValue(notFound());
+
+      await expect(readResource('centerpoint://companies/404')).rejects.toEqual(expect.objectContaining({ code: RESOURCE_NOT_FOUND }));
+      await expect(readResource('centerpoint://invoices/1')).rejects.toEqual(expect.objectContaining({ code: RESOURCE_NOT_FOUND }));
+      expect(mockedAxios).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report other API failures', async () => {
+      mockedAxios.mockRejectedValue(Object.assign(new Error('Request failed with status code 401'), {
+        isAxiosError: true,
+        response: { status: 401, statusText: 'Unauthorized', data: 'bad token', headers: {} },
+      }));
+
+      const error = await readResource('centerpoint://properties/1').catch(caught => caught);
+
+      expect(error).toBeInstanceOf(McpError);
+      expect(error.message).toMatch(/API Error: Status 401/);
+    });
+  });
+
+  describe('listResources()', () => {
+    const page = (ids: string[], next?: string) => ({
+      data: ids.map(id => ({ type: 'companies', id, attributes: { name: `Company ${id}` } })),
+      links: next ? { next } : {},
+    });
+
+    it('should list recently updated records', async () => {
+      mockedAxios.mockResolvedValue(jsonResponse(page(['1', '2'], `${API_BASE_URL}/companies?page[number]=2`)));
+
+      const result = await listResources();
+
+      const params = mockedAxios.mock.calls[0][0].params;
+      expect(params['page[number]']).toBe(1);
+      expect(params['page[size]']).toBe(LIST_PAGE_SIZE);
+      expect(Date.now() - Date.parse(params['filter[updated_at][gt]'])).toBeGreaterThan(29 * 24 * 60 * 60 * 1000);
+      expect(result.resources).toEqual([
+        { uri: 'centerpoint://companies/1', name: 'Company 1', mimeType: 'application/json' },
+        { uri: 'centerpoint://companies/2', name: 'Company 2', mimeType: 'application/json' },
+      ]);
+      expect(result.nextCursor).toEqual(expect.any(String));
+    });
+
+    it('should page through each kind in turn with a stable window', async () => {
+      mockedAxios
+        .mockResolvedValueOnce(jsonResponse(page(['1'], `${API_BASE_URL}/companies?page[number]=2`)))
+        .mockResolvedValueOnce(jsonResponse(page(['2'])))
+        .mockResolvedValueOnce(jsonResponse({ data: [{ type: 'productions', id: '7', attributes: {} }], links: {} }))
+        .mockResolvedValueOnce(jsonResponse({ data: [], links: {} }));
+
+      const uris: string[] = [];
+      let cursor: string | undefined;
+      let calls = 0;
+      do {
+        const result = await listResources(cursor);
+        uris.push(...result.resources.map(resource => resource.uri));
+        cursor = result.nextCursor;
+        calls++;
+      } while (cursor && calls < 10);
+
+      expect(uris).toEqual(['centerpoint://companies/1', 'centerpoint://companies/2', 'centerpoint://productions/7']);
+      expect(mockedAxios.mock.calls.map(([request]) => [request.url, request.params['page[number]']])).toEqual([
+        [`${API_BASE_URL}/companies`, 1],
+        [`${API_BASE_URL}/companies`, 2],
+        [`${API_BASE_URL}/productions`, 1],
+        [`${API_BASE_URL}/properties`, 1],
+      ]);
+      const windows = new Set(mockedAxios.mock.calls.map(([request]) => request.params['filter[updated_at][gt]']));
+      expect(windows.size).toBe(1);
+    });
+
+    it('should only list the given kinds', async () => {
+      mockedAxios.mockResolvedValue(jsonResponse({ data: [], links: {} }));
+
+      const result = await listResources(undefined, [resourceKinds[2]]);
+
+      expect(mockedAxios).toHaveBeenCalledTimes(1);
+      expect(mockedAxios.mock.calls[0][0].url).toBe(`${API_BASE_URL}/properties`);
+      expect(result).toEqual({ resources: [] });
+      await expect(listResources(undefined, [])).resolves.toEqual({ resources: [] });
+    });
+
+    it('should reject invalid cursors', async () => {
+      await expect(listResources('not-a-cursor')).rejects.toThrow(/Invalid cursor/);
+      expect(mockedAxios).not.toHaveBeenCalled();
+    });
+  });
+});
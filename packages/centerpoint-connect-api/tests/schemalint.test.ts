@@ -0,0 +1,69 @@
+import { type Tool } from '@modelcontextprotocol/sdk/types.js';
+import { toolsList } from '../src/tools';
+import { formatLintIssues, lintToolSchemas } from '../src/schemalint';
+
+function lint(properties: Record<string, unknown>) {
+  const tool: Tool = { name: 'exampleGET', inputSchema: { type: 'object', properties } };
+  return lintToolSchemas([tool]).map(issue => `${issue.path}: ${issue.message}`);
+}
+
+describe('lintToolSchemas()', () => {
+  it('should find no issues in the tool definitions', () => {
+    expect(formatLintIssues(lintToolSchemas(toolsList))).toBe('');
+  });
+
+  it('should flag enums and defaults that do not match the type', () => {
+    expect(lint({ isBilling: { type: 'boolean', default: 0, enum: [1, 0] } })).toEqual([
+      'isBilling: enum values [1,0] do not match type "boolean"',
+      'isBilling: default 0 does not match type "boolean"',
+    ]);
+    expect(lint({ status: { type: 'string', enum: ['a', 'b'], default: 'c' } })).toEqual([
+      'status: default "c" is not one of the enum values',
+    ]);
+  });
+
+  it('should flag documented values the type cannot hold', () => {
+    expect(lint({ 'filter[subjectType]': { type: 'number', description: 'Value: companies,properties,productions' } })).toEqual([
+      'filter[subjectType]: documents non-numeric values ["companies","properties","productions"] but is typed "number"',
+    ]);
+    expect(lint({ 'filter[isArchived]': { type: 'boolean', description: 'Values: false, archived' } })).toEqual([
+      'filter[isArchived]: documents non-boolean values ["archived"] but is typed boolean',
+    ]);
+    expect(lint({ 'filter[isHeld]': { type: 'boolean', description: 'Values: true,null' } })).toEqual([
+      'filter[isHeld]: documents non-boolean values ["null"] but is typed boolean',
+    ]);
+    expect(lint({ 'filter[isArchived]': { type: ['boolean', 'string'], enum: [false, 'null'], description: 'Values: false,null' } })).toEqual([]);
+  });
+
+  it('should flag enum-like and boolean-like strings', () => {
+    expect(lint({ 'filter[salesStatus]': { type: 'string', description: 'Values: Sold, Lead' } })).toEqual([
+      'filter[salesStatus]: documents the values Sold, Lead but declares no enum',
+    ]);
+    expect(lint({ 'filter[isHeld]': { type: 'string', description: 'Values: true,false' } })).toEqual([
+      'filter[isHeld]: documents the values true, false but is not typed boolean',
+      'filter[isHeld]: flag filters should be typed boolean or declare an enum',
+    ]);
+    expect(lint({ 'filter[isHeld]': { type: 'string', enum: ['true', 'null'], description: 'Values: true,null' } })).toEqual([]);
+    expect(lint({ 'filter[hasBeenInvoiced]': { type: 'boolean', description: "Values: if productionDomain is 'service' then true" } })).toEqual([]);
+  });
+
+  it('should flag range filters without a date format', () => {
+    expect(lint({
+      'filter[updated_at][gt]': { type: 'string' },
+      'filter[updated_at][lt]': { type: 'string', format: 'date-time' },
+    })).toEqual(['filter[updated_at][gt]: range filters should declare format date or date-time']);
+  });
+
+  it('should accept range filters that document presets', () => {
+    expect(lint({ 'filter[createdAt][gt]': { type: 'string', description: 'Values: Today, This Week, All Time' } })).toEqual([]);
+  });
+
+  it('should lint nested properties and array items', () => {
+    expect(lint({
+      requestBody: {
+        type: 'object',
+        properties: { items: { type: 'array', items: { type: 'object', properties: { qty: { type: 'string', minimum: 0 } } } } },
+      },
+    })).toEqual(['requestBody.items[].qty: minimum and maximum are only checked on numbers']);
+  });
+});
@@ -0,0 +1,2 @@
+// Jest sets NODE_ENV=test, which ConfigManager does not accept as an environment
+process.env.NODE_ENV = 'development';
@@ -0,0 +1,207 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { type GeneratorOverrides, type OpenApiDocument, type OpenApiParameter } from '../src/generator';
+import { diffSpec, formatSpecChanges } from '../src/specdiff';
+
+const root = join(__dirname, '..');
+const read = (path: string) => JSON.parse(readFileSync(join(root, path), 'utf8'));
+
+function spec(paths: OpenApiDocument['paths']): OpenApiDocument {
+  return { openapi: '3.0.3', info: { title: 'Test', version: '1' }, paths };
+}
+
+const noOverrides: GeneratorOverrides = { tools: {} };
+
+const jobs = () => spec({
+  '/jobs': {
+    get: {
+      summary: 'List jobs',
+      parameters: [
+        { name: 'filter[status]', in: 'query', schema: { type: 'string', enum: ['open', 'closed'] } },
+        { name: 'page[size]', in: 'query', schema: { type: 'integer' } },
+      ],
+    },
+    post: {
+      summary: 'Create job',
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                notes: { type: 'string' },
+                tags: { type: 'array', items: { type: 'object', properties: { label: { type: 'string' } } } },
+              },
+              required: ['name'],
+            },
+          },
+        },
+      },
+    },
+  },
+});
+
+describe('diffSpec()', () => {
+  it('should find no changes when the checked-in document is unchanged', () => {
+    const document = read('openapi/centerpoint-connect-api.json');
+
+    expect(diffSpec(document, structuredClone(document), read('openapi/overrides.json'))).toEqual([]);
+  });
+
+  it('should ignore description changes', () => {
+    const next = jobs();
+    next.paths['/jobs'].get!.summary = 'List all jobs';
+    (next.paths['/jobs'].get!.parameters![0] as OpenApiParameter).description = 'Job status';
+
+    expect(diffSpec(jobs(), next, noOverrides)).toEqual([]);
+  });
+
+  it('should report added and removed operations', () => {
+    const next = jobs();
+    delete next.paths['/jobs'].post;
+    next.paths['/jobs/{JOB_ID}'] = { get: { parameters: [{ name: 'JOB_ID', in: 'path', required: true }] } };
+
+    expect(diffSpec(jobs(), next, noOverrides)).toEqual([
+      { toolName: 'jobsPOST', description: 'operation POST /jobs removed', breaking: true },
+      { toolName: 'jobs/{JOB_ID}GET', description: 'operation GET /jobs/{JOB_ID} added', breaking: false },
+    ]);
+  });
+
+  it('should report query parameter changes', () => {
+    const next = jobs();
+    next.paths['/jobs'].get!.parameters = [
+      { name: 'filter[status]', in: 'query', schema: { type: 'string', enum: ['open', 'closed', 'archived'] } },
+      { name: 'filter[name]', in: 'query', schema: { type: 'string' } },
+      { name: 'fields[jobs]', in: 'query', required: true, schema: { type: 'string' } },
+    ];
+
+    expect(diffSpec(jobs(), next, noOverrides)).toEqual([
+      { toolName: 'jobsGET', description: 'query parameter page[size] removed', breaking: true },
+      { toolName: 'jobsGET', description: 'query parameter filter[name] added', breaking: false },
+      { toolName: 'jobsGET', description: 'query parameter fields[jobs] added (required)', breaking: true },
+      { toolName: 'jobsGET', description: 'query parameter filter[status] enum changed: added ["archived"]', breaking: false },
+    ]);
+  });
+
+  it('should treat removed enum values and narrowed types as breaking', () => {
+    const next = jobs();
+    next.paths['/jobs'].get!.parameters = [
+      { name: 'filter[status]', in: 'query', schema: { type: 'string', enum: ['open'] } },
+      { name: 'page[size]', in: 'query', required: true, schema: { type: ['integer', 'string'] } },
+    ];
+    const changes = diffSpec(jobs(), next, noOverrides);
+
+    expect(changes).toEqual([
+      { toolName: 'jobsGET', description: 'query parameter filter[status] enum changed: removed ["closed"]', breaking: true },
+      { toolName: 'jobsGET', description: 'query parameter page[size] type changed from integer to integer|string', breaking: false },
+      { toolName: 'jobsGET', description: 'query parameter page[size] is now required', breaking: true },
+    ]);
+  });
+
+  it('should compare request body fields', () => {
+    const next = jobs();
+    next.paths['/jobs'].post!.requestBody!.content['application/json'].schema = {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        dueDate: { type: 'string' },
+        tags: { type: 'array', items: { type: 'object', properties: { label: { type: 'integer' } } } },
+        customerId: { type: 'string' },
+      },
+      required: ['name', 'customerId'],
+    };
+
+    expect(diffSpec(jobs(), next, noOverrides)).toEqual([
+      { toolName: 'jobsPOST', description: 'body field requestBody.notes removed', breaking: true },
+      { toolName: 'jobsPOST', description: 'body field requestBody.tags[].label type changed from string to integer', breaking: true },
+      { toolName: 'jobsPOST', description: 'body field requestBody.dueDate added', breaking: false },
+      { toolName: 'jobsPOST', description: 'body field requestBody.customerId added (required)', breaking: true },
+    ]);
+  });
+
+  it('should report a changed body content type', () => {
+    const next = jobs();
+    const { content } = next.paths['/jobs'].post!.requestBody!;
+    next.paths['/jobs'].post!.requestBody!.content = { 'multipart/form-data': content['application/json'] };
+
+    expect(diffSpec(jobs(), next, noOverrides)).toEqual([
+      { toolName: 'jobsPOST', description: 'request body content type changed from application/json to multipart/form-data', breaking: true },
+    ]);
+  });
+
+  it('should report upstream changes to overridden properties', () => {
+    const overrides: GeneratorOverrides = {
+      tools: {
+        jobsGET: { schema: { 'filter[status]': { enum: ['open', 'closed', 'held'] }, 'page[size]': { type: 'string' } } },
+        jobsPOST: { schema: { 'requestBody/notes': { maxLength: 500 } } },
+      },
+    };
+    const next = jobs();
+    (next.paths['/jobs'].get!.parameters![0] as OpenApiParameter).schema = { type: 'string', enum: ['open'] };
+    delete next.paths['/jobs'].post!.requestBody!.content['application/json'].schema!.properties.notes;
+
+    expect(diffSpec(jobs(), next, overrides)).toEqual([
+      { toolName: 'jobsGET', description: 'query parameter filter[status] enum changed: removed ["closed"]', breaking: true },
+      { toolName: 'jobsGET', description: 'override for filter[status] hides an upstream change; check it still fits', breaking: false },
+      { toolName: 'jobsPOST', description: 'body field requestBody.notes removed', breaking: true },
+      { toolName: 'jobsPOST', description: 'override for requestBody/notes no longer applies', breaking: false },
+    ]);
+  });
+
+  it('should resolve $ref and path-level parameters', () => {
+    const next = jobs();
+    next.components = {
+      parameters: { status: { name: 'filter[status]', in: 'query', schema: { $ref: '#/components/schemas/Status' } } },
+      schemas: { Status: { type: 'string', enum: ['open', 'closed', 'archived'] } },
+    };
+    next.paths['/jobs'].parameters = [{ $ref: '#/components/parameters/status' }];
+    next.paths['/jobs'].summary = 'Jobs';
+    next.paths['/jobs'].get!.parameters = [{ name: 'page[size]', in: 'query', schema: { type: 'integer' } }];
+
+    expect(diffSpec(jobs(), next, noOverrides)).toEqual([
+      { toolName: 'jobsGET', description: 'query parameter filter[status] enum changed: added ["archived"]', breaking: false },
+      { toolName: 'jobsPOST', description: 'query parameter filter[status] added', breaking: false },
+    ]);
+  });
+
+  it('should list operations it cannot generate instead of failing', () => {
+    const next = jobs();
+    next.paths['/jobs'].put = { summary: 'Replace jobs' };
+    next.paths['/jobs/{JOB_ID}'] = {
+      get: { parameters: [{ name: 'JOB_ID', in: 'path', required: true, schema: { $ref: '#/components/schemas/Missing' } }] },
+      delete: { parameters: [{ name: 'JOB_ID', in: 'path', required: true }, { name: 'X-Request-Id', in: 'header' }] },
+    };
+
+    expect(diffSpec(jobs(), next, noOverrides)).toEqual([
+      { toolName: 'PUT /jobs', description: "operation cannot be generated: Unsupported method 'put' for /jobs", breaking: false },
+      { toolName: 'GET /jobs/{JOB_ID}', description: "operation cannot be generated: Unresolved $ref '#/components/schemas/Missing'", breaking: false },
+      {
+        toolName: 'DELETE /jobs/{JOB_ID}',
+        description: "operation cannot be generated: Unsupported header parameter 'X-Request-Id' in jobs/{JOB_ID}DELETE",
+        breaking: false,
+      },
+    ]);
+  });
+});
+
+describe('formatSpecChanges()', () => {
+  it('should list breaking changes first', () => {
+    const output = formatSpecChanges([
+      { toolName: 'jobsGET', description: 'query parameter filter[name] added', breaking: false },
+      { toolName: 'jobsPOST', description: 'operation POST /jobs removed', breaking: true },
+    ]);
+
+    expect(output).toBe([
+      'Breaking changes (1):',
+      '  jobsPOST: operation POST /jobs removed',
+      'Other changes (1):',
+      '  jobsGET: query parameter filter[name] added',
+    ].join('\n'));
+  });
+
+  it('should say when nothing changed', () => {
+    expect(formatSpecChanges([])).toBe('No changes');
+  });
+});
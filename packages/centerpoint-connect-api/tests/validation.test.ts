@@ -0,0 +1,168 @@
+import { type Tool } from '@modelcontextprotocol/sdk/types.js';
+import { toolsList } from '../src/tools';
+import { ToolValidators, compileSchema } from '../src/validation';
+
+function tool(name: string): Tool {
+  return toolsList.find(candidate => candidate.name === name)!;
+}
+
+describe('compileSchema()', () => {
+  it.each(toolsList.map(definition => [definition.name, definition] as const))('should compile %s', (_name, definition) => {
+    expect(() => compileSchema(definition.inputSchema)).not.toThrow();
+  });
+
+  it('should reject keywords and types it does not support', () => {
+    expect(() => compileSchema({ type: 'object', properties: { id: { anyOf: [{ type: 'string' }] } } }))
+      .toThrow("Unsupported JSON Schema keyword 'anyOf' at id");
+    expect(() => compileSchema({ type: 'object', properties: { a: { type: 'object', properties: { b: { pattern: '^x' } } } } }))
+      .toThrow("Unsupported JSON Schema keyword 'pattern' at a.b");
+    expect(() => compileSchema({ type: 'date' })).toThrow("Unsupported JSON Schema type 'date'");
+    expect(() => compileSchema({ type: 'string', enum: [] })).toThrow("'enum' at (root) must be a non-empty array");
+  });
+
+  it('should enforce required properties and types', () => {
+    const schema = compileSchema({
+      type: 'object',
+      properties: { name: { type: 'string' }, count: { type: 'integer', minimum: 1, maximum: 10 } },
+      required: ['name'],
+    });
+
+    expect(schema.safeParse({ name: 'Acme' }).success).toBe(true);
+    expect(schema.safeParse({}).success).toBe(false);
+    expect(schema.safeParse({ name: 3 }).success).toBe(false);
+    expect(schema.safeParse({ name: 'Acme', count: 1.5 }).success).toBe(false);
+    expect(schema.safeParse({ name: 'Acme', count: 11 }).success).toBe(false);
+  });
+
+  it('should keep unknown properties unless additionalProperties is false', () => {
+    const open = compileSchema({ type: 'object', properties: { a: { type: 'string' } } });
+    const closed = compileSchema({ type: 'object', properties: { a: { type: 'string' } }, additionalProperties: false });
+
+    expect(open.parse({ a: 'x', b: 1 })).toEqual({ a: 'x', b: 1 });
+    expect(closed.safeParse({ a: 'x', b: 1 }).success).toBe(false);
+  });
+
+  it('should accept null for nullable types', () => {
+    const schema = compileSchema({ type: ['string', 'null'], maxLength: 3 });
+
+    expect(schema.safeParse(null).success).toBe(true);
+    expect(schema.safeParse('abc').success).toBe(true);
+    expect(schema.safeParse('abcd').success).toBe(false);
+  });
+
+  it('should validate array items', () => {
+    const schema = compileSchema({
+      type: 'object',
+      properties: { items: { type: 'array', items: { type: 'object', properties: { quantity: { type: 'number' } } } } },
+    });
+
+    expect(schema.safeParse({ items: [{ quantity: 2 }] }).success).toBe(true);
+    expect(schema.safeParse({ items: [{ quantity: 'two' }] }).success).toBe(false);
+    expect(schema.safeParse({ items: { quantity: 2 } }).success).toBe(false);
+  });
+
+  it('should check date and date-time formats', () => {
+    const schema = compileSchema({
+      type: 'object',
+      properties: { day: { type: 'string', format: 'date' }, at: { type: 'string', format: 'date-time' }, id: { type: 'string', format: 'uuid' } },
+    });
+
+    expect(schema.safeParse({ day: '2026-10-19', at: '2026-10-19T08:30:00Z', id: 'not-a-uuid' }).success).toBe(true);
+    expect(schema.safeParse({ at: '2026-10-19' }).success).toBe(true);
+    expect(schema.safeParse({ day: '2026-10-19T08:30:00Z' }).success).toBe(false);
+    expect(schema.safeParse({ at: 'last week' }).error?.errors[0].message).toBe('Expected a date or date-time (YYYY-MM-DD or ISO 8601)');
+  });
+
+  it('should fill in defaults for missing properties', () => {
+    const schema = compileSchema({ type: 'object', properties: { isActive: { type: 'boolean', default: true }, name: { type: 'string' } } });
+
+    expect(schema.parse({})).toEqual({ isActive: true });
+    expect(schema.parse({ isActive: false })).toEqual({ isActive: false });
+    expect(schema.safeParse({ isActive: 'yes' }).success).toBe(false);
+  });
+});
+
+describe('tool schemas', () => {
+  const company = (attributes: Record<string, unknown>) => ({
+    requestBody: {
+      data: {
+        type: 'companies',
+        attributes: { name: 'Acme', type: 'Company', salesStatus: 'Lead', timezone: 'America/Chicago', ...attributes },
+      },
+    },
+  });
+
+  it('should enforce enums', () => {
+    const validator = compileSchema(tool('companiesPOST').inputSchema);
+
+    expect(validator.safeParse(company({})).success).toBe(true);
+    const result = validator.safeParse(company({ salesStatus: 'Client' }));
+    expect(result.success).toBe(false);
+    expect(result.error?.errors[0]).toEqual(expect.objectContaining({
+      path: ['requestBody', 'data', 'attributes', 'salesStatus'],
+      message: 'Expected one of: "Lead", "Quoted", "Sold", "Dead"',
+    }));
+  });
+
+  it('should fill in documented body defaults', () => {
+    const validator = compileSchema(tool('companiesPOST').inputSchema);
+
+    expect(validator.parse(company({})).requestBody.data.attributes.country).toBe('us');
+    expect(validator.parse(company({ country: 'ca' })).requestBody.data.attributes.country).toBe('ca');
+  });
+
+  it('should reject bad filter values', () => {
+    const companies = compileSchema(tool('companiesGET').inputSchema);
+    const files = compileSchema(tool('modelFilesGET').inputSchema);
+    const services = compileSchema(tool('servicesGET').inputSchema);
+
+    expect(companies.safeParse({ 'filter[salesStatus]': 'Lead', 'filter[updated_at][gt]': '2026-10-01' }).success).toBe(true);
+    expect(companies.safeParse({ 'filter[salesStatus]': 'lead' }).success).toBe(false);
+    expect(companies.safeParse({ 'filter[updated_at][gt]': 'yesterday' }).success).toBe(false);
+    expect(files.safeParse({ 'filter[subjectType]': 'companies' }).success).toBe(true);
+    expect(files.safeParse({ 'filter[subjectType]': 3 }).success).toBe(false);
+    expect(services.safeParse({ 'filter[isHeld]': 'true' }).success).toBe(true);
+    expect(services.safeParse({ 'filter[isHeld]': 'null' }).success).toBe(true);
+    expect(services.safeParse({ 'filter[isHeld]': 'false' }).success).toBe(false);
+    expect(services.safeParse({ 'filter[isArchived]': false }).success).toBe(true);
+    expect(services.safeParse({ 'filter[isArchived]': 'null' }).success).toBe(true);
+    expect(services.safeParse({ 'filter[isArchived]': true }).success).toBe(false);
+  });
+
+  it('should enforce maxLength', () => {
+    const validator = compileSchema(tool('companiesPOST').inputSchema);
+
+    expect(validator.safeParse(company({ name: 'A'.repeat(255) })).success).toBe(true);
+    expect(validator.safeParse(company({ name: 'A'.repeat(256) })).success).toBe(false);
+  });
+
+  it('should enforce required properties in nested objects', () => {
+    const validator = compileSchema(tool('companiesPOST').inputSchema);
+    const { requestBody } = company({});
+    const { timezone, ...withoutTimezone } = requestBody.data.attributes;
+
+    expect(timezone).toBeDefined();
+    expect(validator.safeParse({ requestBody: { data: { ...requestBody.data, attributes: withoutTimezone } } }).success).toBe(false);
+    expect(validator.safeParse({ requestBody: { data: { type: 'companies' } } }).success).toBe(false);
+    expect(validator.safeParse({ requestBody: {} }).success).toBe(false);
+  });
+});
+
+
+describe('ToolValidators', () => {
+  it('should compile each schema once', () => {
+    const validators = new ToolValidators();
+    const definition = tool('companiesGET');
+
+    expect(validators.get(definition)).toBe(validators.get(definition));
+    expect(validators.get({ ...definition, inputSchema: { ...definition.inputSchema } })).not.toBe(validators.get(definition));
+  });
+
+  it('should name the tool whose schema does not compile', () => {
+    const validators = new ToolValidators();
+    const broken: Tool = { name: 'brokenGET', inputSchema: { type: 'object', properties: { id: { oneOf: [] } } } };
+
+    expect(() => validators.compileAll([tool('companiesGET'), broken]))
+      .toThrow("Invalid input schema for tool 'brokenGET': Unsupported JSON Schema keyword 'oneOf' at id");
+  });
+});